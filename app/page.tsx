@@ -6,20 +6,23 @@ import { DashboardView } from "../components/dashboard-view"
 import { CartView } from "../components/cart-view"
 import { ItemDetailView } from "../components/item-detail-view"
 import { EmployeeLogsView } from "../components/employee-logs-view"
+import { ReturnView } from "../components/return-view"
 import { StartPage } from "../components/start-page"
 import { EnhancedToaster } from "../components/enhanced-toaster"
 import { useCartPersistence } from "../hooks/use-cart-persistence"
 import { useOfflineManager } from "../hooks/use-offline-manager"
 import { useTransactionRealtime, useAutoRefresh } from "../hooks/use-realtime"
 import { apiService } from "../lib/api_service"
+import { loadStoredApiAuth } from "../lib/Services/auth.service"
 import { DEFAULT_API_CONFIG } from "../lib/api-config"
 import { KeyboardShortcuts } from "../components/keyboard-shortcuts"
 import { BackToTop } from "../components/back-to-top"
 import type { Product } from "../lib/barcode-scanner"
 import env from "../lib/env"
 import { DemoBanner } from "../components/demo-banner"
+import { readFiltersFromUrl } from "../lib/dashboard-filters"
 
-export type ViewType = "dashboard" | "cart" | "item-detail" | "logs"
+export type ViewType = "dashboard" | "cart" | "item-detail" | "logs" | "returns"
 
 export interface CartItem {
   id: string
@@ -34,6 +37,9 @@ export interface CartItem {
   status: "in-stock" | "low-stock" | "out-of-stock"
   // Timestamp for sorting by recently added
   addedAt?: number
+  // Price snapshot from when the item was added (see lib/pricing.ts)
+  unitCost?: number | undefined
+  currency?: string | undefined
 }
 
 
@@ -65,7 +71,8 @@ export default function HomePage() {
     isReady: isOfflineReady 
   } = useOfflineManager()
   
-  const [headerSearchQuery, setHeaderSearchQuery] = useState("")
+  // Seeded from the URL so shared dashboard links open with their search
+  const [headerSearchQuery, setHeaderSearchQuery] = useState(() => readFiltersFromUrl().search)
   const [dashboardRefresh, setDashboardRefresh] = useState<(() => void) | null>(null)
   
   // Move products state to parent to prevent unnecessary API calls
@@ -74,6 +81,14 @@ export default function HomePage() {
   const [productsDataSource, setProductsDataSource] = useState<"api" | "cached">("cached")
   const [productsLastFetchTime, setProductsLastFetchTime] = useState<Date | null>(null)
 
+  // Restore the kiosk's provisioned API credentials before the first request
+  useEffect(() => {
+    const storedAuth = loadStoredApiAuth()
+    if (storedAuth) {
+      apiService.updateConfig({ auth: storedAuth })
+    }
+  }, [])
+
   useEffect(() => {
     const testConnection = async () => {
       setIsTestingConnection(true)
@@ -124,7 +139,9 @@ export default function HomePage() {
       const localCartItems: CartItem[] = cartState.items.map(item => ({
         ...item.product,
         quantity: item.quantity,
-        addedAt: item.addedAt ? new Date(item.addedAt).getTime() : Date.now()
+        addedAt: item.addedAt ? new Date(item.addedAt).getTime() : Date.now(),
+        unitCost: item.unitCost ?? item.product.unitCost,
+        currency: item.currency ?? item.product.currency
       }))
       setCartItems(localCartItems)
     } else {
@@ -251,6 +268,7 @@ export default function HomePage() {
         currentView={currentView}
         onViewChange={setCurrentView}
         onSearch={setHeaderSearchQuery}
+        query={headerSearchQuery}
       />
 
       {env.DEMO_MODE && <DemoBanner />}
@@ -260,9 +278,11 @@ export default function HomePage() {
           {/* Keep DashboardView mounted but conditionally visible */}
           <div className={currentView === "dashboard" ? "block" : "hidden"}>
             <DashboardView 
+              isActive={currentView === "dashboard"}
               onAddToCart={addToCart} 
               onViewItem={viewItemDetail} 
               searchQuery={headerSearchQuery}
+              onSearchChange={setHeaderSearchQuery}
               onRefreshData={setDashboardRefresh}
               apiUrl={apiUrl}
               onApiUrlChange={handleApiUrlChange}
@@ -286,6 +306,8 @@ export default function HomePage() {
               onRemoveItem={removeFromCart}
               onReturnToBrowsing={() => setCurrentView("dashboard")}
               onRefreshData={dashboardRefresh ?? undefined}
+              products={products}
+              onAddToCart={addToCart}
             />
           )}
 
@@ -300,6 +322,13 @@ export default function HomePage() {
           {currentView === "logs" && (
             <EmployeeLogsView className="h-full" />
           )}
+
+          {currentView === "returns" && (
+            <ReturnView
+              products={products}
+              onRefreshData={dashboardRefresh ?? undefined}
+            />
+          )}
         </div>
       </main>
 
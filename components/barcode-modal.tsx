@@ -1,11 +1,15 @@
 "use client"
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Camera } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog'
 import { Input } from './ui/input'
 import { Button } from './ui/button'
-import type { Product } from '../lib/barcode-scanner'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ALTERNATE_CODE_TYPE_LABELS, processBarcodeInput } from '../lib/barcode-scanner'
+import type { AlternateCode, AlternateCodeType, Product } from '../lib/barcode-scanner'
 import { apiService } from '../lib/api_service'
+import CameraScanner from './camera-scanner'
 
 interface BulkLineItem {
   product: Product
@@ -18,13 +22,40 @@ interface BarcodeModalProps {
   products?: Product[]
   onClose: () => void
   onConfirm: (payload: { barcode?: string; quantity?: number } | { items: BulkLineItem[] }) => void
+  // Full inventory, used to offer assigning an unknown scanned code to an item
+  catalog?: Product[]
+  onAssignCode?: (product: Product, alternateCode: AlternateCode) => Promise<void>
+  // Codes read by the camera; without it they are written into the barcode field
+  onCameraScan?: (code: string) => void
+  startInCameraMode?: boolean
 }
 
-export default function BarcodeModal({ open, initialValue = '', products = [], onClose, onConfirm }: BarcodeModalProps) {
+export default function BarcodeModal({ open, initialValue = '', products = [], onClose, onConfirm, catalog = [], onAssignCode, onCameraScan, startInCameraMode = false }: BarcodeModalProps) {
   const [barcode, setBarcode] = useState(initialValue)
+  const [isCameraMode, setIsCameraMode] = useState(startInCameraMode)
   const [quantity, setQuantity] = useState<number>(1)
   const hiddenInputRef = useRef<HTMLInputElement | null>(null)
   const [lineItems, setLineItems] = useState<BulkLineItem[]>([])
+  const [assignSearch, setAssignSearch] = useState('')
+  const [assignProductId, setAssignProductId] = useState<string | null>(null)
+  const [assignCodeType, setAssignCodeType] = useState<AlternateCodeType>('manufacturer')
+  const [isAssigning, setIsAssigning] = useState(false)
+  const [assignError, setAssignError] = useState<string | null>(null)
+
+  // Offer assignment only for product codes that match nothing in the inventory
+  const isUnknownCode = useMemo(() => {
+    if (!onAssignCode || !barcode.trim() || catalog.length === 0) return false
+    const result = processBarcodeInput(barcode, catalog)
+    return !result.success && result.parsed?.target !== 'employee'
+  }, [barcode, catalog, onAssignCode])
+
+  const assignMatches = useMemo(() => {
+    const query = assignSearch.trim().toLowerCase()
+    if (!query) return []
+    return catalog
+      .filter(p => p.name.toLowerCase().includes(query) || p.brand.toLowerCase().includes(query) || String(p.id).toLowerCase() === query)
+      .slice(0, 6)
+  }, [assignSearch, catalog])
 
   const isAvailable = (p?: Product | null, additionalQty = 1) => {
     if (!p) return false
@@ -42,11 +73,26 @@ export default function BarcodeModal({ open, initialValue = '', products = [], o
 
   useEffect(() => {
     setBarcode(initialValue)
+    setAssignSearch('')
+    setAssignProductId(null)
+    setAssignError(null)
     if (open) {
       setTimeout(() => hiddenInputRef.current?.focus(), 50)
     }
   }, [open, initialValue])
 
+  useEffect(() => {
+    if (open) setIsCameraMode(startInCameraMode)
+  }, [open, startInCameraMode])
+
+  const handleCameraDetected = (code: string) => {
+    if (onCameraScan) {
+      onCameraScan(code)
+    } else {
+      setBarcode(code)
+    }
+  }
+
   useEffect(() => {
     setLineItems(prev => {
       if (prev && prev.length > 0) {
@@ -135,6 +181,23 @@ export default function BarcodeModal({ open, initialValue = '', products = [], o
     setLineItems([])
   }
 
+  const handleAssignCode = async () => {
+    const product = catalog.find(p => String(p.id) === assignProductId)
+    if (!product || !onAssignCode) return
+
+    setIsAssigning(true)
+    setAssignError(null)
+    try {
+      await onAssignCode(product, { code: barcode.trim(), type: assignCodeType })
+      setAssignSearch('')
+      setAssignProductId(null)
+    } catch (err) {
+      setAssignError((err as Error).message || 'Failed to assign code')
+    } finally {
+      setIsAssigning(false)
+    }
+  }
+
   const updateLineQuantity = (index: number, qty: number) => {
     setLineItems(prev => {
       const next = [...prev]
@@ -203,15 +266,29 @@ export default function BarcodeModal({ open, initialValue = '', products = [], o
                 </DialogDescription>
               </div>
             </div>
-            {lineItems && lineItems.length > 0 && (
-              <span className="px-3 py-1.5 bg-orange-500 text-white rounded-full text-sm font-semibold shadow-md">
-                {lineItems.length} {lineItems.length === 1 ? 'item' : 'items'}
-              </span>
-            )}
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsCameraMode(!isCameraMode)}
+                className={isCameraMode ? 'border-orange-500 text-orange-600 dark:text-orange-400' : ''}
+              >
+                <Camera className="w-4 h-4 mr-2" />
+                {isCameraMode ? 'Hide Camera' : 'Camera'}
+              </Button>
+              {lineItems && lineItems.length > 0 && (
+                <span className="px-3 py-1.5 bg-orange-500 text-white rounded-full text-sm font-semibold shadow-md">
+                  {lineItems.length} {lineItems.length === 1 ? 'item' : 'items'}
+                </span>
+              )}
+            </div>
           </div>
         </DialogHeader>
 
-        <div className="p-6 flex-1 overflow-hidden bg-gray-50 dark:bg-gray-950">
+        <div className="p-6 flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-950 space-y-4">
+          {isCameraMode && open && (
+            <CameraScanner onDetected={handleCameraDetected} />
+          )}
           {lineItems && lineItems.length > 0 ? (
             <div className="space-y-3 max-h-[340px] overflow-y-auto pr-2">{lineItems.map((li, idx) => {
                 const maxQty = typeof li.product.balance === 'number' ? li.product.balance : 9999;
@@ -295,8 +372,10 @@ export default function BarcodeModal({ open, initialValue = '', products = [], o
                     </svg>
                     Barcode
                   </label>
+                  {/* data-scanner-capture keeps continuous scans flowing to the scanner service while focused */}
                   <Input
                     ref={hiddenInputRef as any}
+                    data-scanner-capture
                     value={barcode}
                     onChange={(e: any) => setBarcode(e.target.value)}
                     className="text-base font-mono border-2 border-gray-300 dark:border-gray-600 rounded-lg focus:border-orange-500 dark:focus:border-orange-400 h-11"
@@ -341,6 +420,65 @@ export default function BarcodeModal({ open, initialValue = '', products = [], o
                 </div>
               </div>
 
+              {isUnknownCode && (
+                <div className="mt-4 rounded-lg p-4 border border-gray-200 dark:border-gray-700 space-y-3">
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Unknown code</h4>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      <span className="font-mono">{barcode.trim()}</span> is not linked to any item. Assign it so future scans find the item.
+                    </p>
+                  </div>
+                  <div className="grid md:grid-cols-[1fr_200px] gap-3">
+                    <Input
+                      value={assignSearch}
+                      onChange={(e: any) => {
+                        setAssignSearch(e.target.value)
+                        setAssignProductId(null)
+                      }}
+                      placeholder="Search item by name, brand or #ID..."
+                      className="h-9"
+                    />
+                    <Select value={assignCodeType} onValueChange={(value) => setAssignCodeType(value as AlternateCodeType)}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ALTERNATE_CODE_TYPE_LABELS) as AlternateCodeType[]).map(type => (
+                          <SelectItem key={type} value={type}>{ALTERNATE_CODE_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {assignMatches.length > 0 && (
+                    <div className="max-h-40 overflow-y-auto space-y-1">
+                      {assignMatches.map(p => (
+                        <button
+                          key={p.id}
+                          onClick={() => setAssignProductId(String(p.id))}
+                          className={`w-full text-left px-3 py-2 rounded-lg text-sm border transition-colors ${
+                            assignProductId === String(p.id)
+                              ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20'
+                              : 'border-transparent hover:bg-gray-100 dark:hover:bg-gray-800'
+                          }`}
+                        >
+                          <span className="font-medium text-gray-900 dark:text-white">{p.name}</span>
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{p.brand} • <span className="font-mono">#{p.id}</span></span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {assignError && <p className="text-xs text-red-600 dark:text-red-400">{assignError}</p>}
+                  <Button
+                    size="sm"
+                    onClick={handleAssignCode}
+                    disabled={!assignProductId || isAssigning}
+                    className="w-full"
+                  >
+                    {isAssigning ? 'Assigning...' : 'Assign Code to Item'}
+                  </Button>
+                </div>
+              )}
+
               <div className="mt-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg p-3 border border-orange-200 dark:border-orange-800">
                 <div className="flex items-start gap-2">
                   <div className="w-5 h-5 bg-orange-500 rounded flex items-center justify-center flex-shrink-0 mt-0.5">
@@ -0,0 +1,162 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { Camera, ImageIcon } from 'lucide-react'
+import { Button } from './ui/button'
+import { detectBarcode, decodeBarcodeFromImage, isCameraScanningSupported } from '../lib/barcode-decoder'
+
+// Time between decode attempts on the live preview
+const SCAN_INTERVAL_MS = 250
+// Ignore the same code while it stays in front of the camera
+const REPEAT_SCAN_COOLDOWN_MS = 2000
+
+interface CameraScannerProps {
+  // Receives decoded text; route it through processBarcodeInput like a wedge scan
+  onDetected: (code: string) => void
+  active?: boolean
+}
+
+export default function CameraScanner({ onDetected, active = true }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null)
+  const onDetectedRef = useRef(onDetected)
+  const [error, setError] = useState<string | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [photoStatus, setPhotoStatus] = useState<string | null>(null)
+
+  // Keep the latest callback without restarting the camera
+  useEffect(() => {
+    onDetectedRef.current = onDetected
+  }, [onDetected])
+
+  const emitCode = (code: string) => {
+    const now = Date.now()
+    const last = lastScanRef.current
+    if (last && last.code === code && now - last.at < REPEAT_SCAN_COOLDOWN_MS) return
+    lastScanRef.current = { code, at: now }
+    onDetectedRef.current(code)
+  }
+
+  useEffect(() => {
+    if (!active || !isCameraScanningSupported()) return
+
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const scanFrame = async () => {
+      const video = videoRef.current
+      if (cancelled || !video || !canvasRef.current) return
+
+      if (video.readyState >= video.HAVE_CURRENT_DATA) {
+        try {
+          const result = await detectBarcode(video, canvasRef.current)
+          if (result && !cancelled) emitCode(result.rawValue)
+        } catch (err) {
+          console.warn('[CameraScanner] Frame decode failed:', err)
+        }
+      }
+      if (!cancelled) timer = setTimeout(scanFrame, SCAN_INTERVAL_MS)
+    }
+
+    const start = async () => {
+      setIsStarting(true)
+      setError(null)
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 }, height: { ideal: 720 } },
+          audio: false,
+        })
+        // Closed (or unmounted) while permission was pending: cleanup ran before the stream existed
+        const video = videoRef.current
+        if (cancelled || !video) {
+          stream.getTracks().forEach(track => track.stop())
+          return
+        }
+        video.srcObject = stream
+        await video.play()
+        scanFrame()
+      } catch (err) {
+        const name = (err as DOMException)?.name
+        setError(name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow camera access in the browser settings to scan.'
+          : 'No camera is available on this device.')
+        console.error('[CameraScanner] Failed to start camera:', err)
+      } finally {
+        if (!cancelled) setIsStarting(false)
+      }
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+      stream?.getTracks().forEach(track => track.stop())
+      if (videoRef.current) videoRef.current.srcObject = null
+    }
+  }, [active])
+
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setPhotoStatus('Reading barcode from photo...')
+    try {
+      const result = await decodeBarcodeFromImage(file)
+      if (result) {
+        setPhotoStatus(null)
+        emitCode(result.rawValue)
+      } else {
+        setPhotoStatus('No barcode found in the photo. Hold the label flat and fill the frame.')
+      }
+    } catch (err) {
+      console.error('[CameraScanner] Failed to decode photo:', err)
+      setPhotoStatus('Could not read the photo.')
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {isCameraScanningSupported() && !error ? (
+        <div className="relative aspect-video bg-black rounded-xl overflow-hidden">
+          <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+          {/* Aiming guide - the JS decoder reads horizontal lines across the middle */}
+          <div className="absolute inset-x-[10%] top-1/2 -translate-y-1/2 h-1/3 border-2 border-orange-400/80 rounded-lg pointer-events-none" />
+          {isStarting && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-white/80">
+              <Camera className="w-4 h-4 mr-2 animate-pulse" />
+              Starting camera...
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="rounded-xl border border-dashed border-gray-300 dark:border-gray-600 p-6 text-center text-sm text-gray-600 dark:text-gray-400">
+          {error ?? 'Live camera scanning is not supported in this browser.'} You can still scan from a photo.
+        </div>
+      )}
+      <canvas ref={canvasRef} className="hidden" />
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          {photoStatus ?? 'Hold the barcode horizontally inside the frame.'}
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={handlePhotoSelected}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <ImageIcon className="w-4 h-4 mr-2" />
+          Scan Photo
+        </Button>
+      </div>
+    </div>
+  )
+}
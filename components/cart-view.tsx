@@ -1,25 +1,46 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useMemo, useCallback } from "react"
 import { Minus, Plus, Trash2, History, Package, ShoppingCart, ChevronDown, ChevronRight } from "lucide-react"
 import { Button } from "../components/ui/button"
 import { Card, CardContent } from "../components/ui/card"
 import { Badge } from "../components/ui/badge"
 import { Checkbox } from "../components/ui/checkbox"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog"
 import { CheckoutModal } from "./checkout-modal"
 import { CheckoutSuccessCountdown } from "./checkout-success-countdown"
 import { CartRecoveryPanel, CartStatusIndicator } from "./cart-recovery-panel"
 import { apiService } from "../lib/api_service"
 import { useToast } from "../hooks/use-toast"
+import useGlobalBarcodeScanner from "../hooks/use-global-barcode-scanner"
+import { processBarcodeInput } from "../lib/barcode-scanner"
+import type { Product } from "../lib/barcode-scanner"
+import { isProductAvailable } from "../lib/cart-persistence"
+import { calculateCartValuation, formatCurrency, getLineValue } from "../lib/pricing"
+import { createTransaction, DEFAULT_UNIT } from "../lib/transaction-records"
+import { createIdempotencyKey, offlineOutbox } from "../lib/offline-outbox"
+import { ApiError, InsufficientStockError } from "../lib/api-errors"
+import type { StockShortfall } from "../lib/api-errors"
+import { stockReservations } from "../lib/stock-reservations"
 import type { CartItem } from "../app/page"
 import type { Employee } from "../lib/Services/employees.service"
+import { sortItems, sortUsesHistory } from "../lib/sort-registry"
+import type { SortOptionId } from "../lib/sort-registry"
+import { useItemUsage } from "../hooks/use-item-usage"
+import { SortSelect } from "./sort-select"
 
 // Extended CartItem type with addedAt timestamp
 interface CartItemWithTimestamp extends CartItem {
   addedAt?: number
 }
 
+// Checkout held back because stock no longer covers the cart
+interface PendingShortfall {
+  employee: Employee
+  purpose?: string | undefined
+  shortfalls: StockShortfall[]
+}
+
 // Clean image component
 function CartItemImage({ itemId, itemName }: { itemId: string; itemName: string }) {
   const [imageError, setImageError] = useState(false)
@@ -73,37 +94,51 @@ interface CartViewProps {
   onRemoveItem: (id: string) => void
   onReturnToBrowsing?: () => void
   onRefreshData?: (() => void) | undefined
+  // Inventory and add handler used to add scanned items straight into the cart
+  products?: Product[]
+  onAddToCart?: (product: Product, quantity?: number, isFromBarcode?: boolean) => void
 }
 
-export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrowsing, onRefreshData }: CartViewProps) {
+export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrowsing, onRefreshData, products = [], onAddToCart }: CartViewProps) {
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set())
-  const [sortBy, setSortBy] = useState("recent") // Default to recently added
+  const [sortBy, setSortBy] = useState<SortOptionId>("recent") // Default to recently added
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false)
   const [isCommitting, setIsCommitting] = useState(false)
   const [showSuccessCountdown, setShowSuccessCountdown] = useState(false)
   const [checkoutData, setCheckoutData] = useState<{ userId: string; totalItems: number } | null>(null)
   const [collapsedBrands, setCollapsedBrands] = useState<Set<string>>(new Set())
+  const [pendingShortfall, setPendingShortfall] = useState<PendingShortfall | null>(null)
   const { toast } = useToast()
 
-  // Sort items based on selection
-  const sortedItems = useMemo(() => {
-    const itemsCopy = [...items]
-    switch (sortBy) {
-      case "recent":
-        // Sort by addedAt timestamp (most recent first), fallback to original order
-        return itemsCopy.sort((a, b) => (b.addedAt || 0) - (a.addedAt || 0))
-      case "name-asc":
-        return itemsCopy.sort((a, b) => a.name.localeCompare(b.name))
-      case "name-desc":
-        return itemsCopy.sort((a, b) => b.name.localeCompare(a.name))
-      case "qty-high":
-        return itemsCopy.sort((a, b) => b.quantity - a.quantity)
-      case "qty-low":
-        return itemsCopy.sort((a, b) => a.quantity - b.quantity)
-      default:
-        return itemsCopy
+  // Scans while the cart is open add the item here instead of on the hidden dashboard
+  const handleCartScan = useCallback((barcode: string) => {
+    if (!onAddToCart) return false
+
+    const result = processBarcodeInput(barcode, products)
+    if (!result.success || !result.product) {
+      toast({ title: '❌ Item Not Found', description: result.error || `Barcode ${barcode} not found in inventory`, variant: 'destructive' })
+      return true
     }
-  }, [items, sortBy])
+
+    const inCart = items.find(item => item.id === result.product!.id)?.quantity ?? 0
+    const availability = isProductAvailable(result.product, inCart + 1)
+    if (!availability.available) {
+      toast({ title: '❌ Not Available', description: `${result.product.name}: ${availability.reason}`, variant: 'destructive' })
+      return true
+    }
+
+    onAddToCart(result.product, 1, true)
+    toast({ title: '✅ Item Added', description: `${result.product.name} added to cart` })
+    return true
+  }, [products, items, onAddToCart, toast])
+
+  useGlobalBarcodeScanner(handleCartScan, { owner: 'cart' })
+
+  // Checkout history, loaded only for the "Recently Checked Out" and "Most Used" orders
+  const itemUsage = useItemUsage(sortUsesHistory([sortBy]))
+
+  // Sort items based on selection
+  const sortedItems = useMemo(() => sortItems(items, [sortBy], { usage: itemUsage }), [items, sortBy, itemUsage])
 
   // Group items by brand
   const groupedByBrand = useMemo(() => {
@@ -115,7 +150,7 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
     })
     // Sort brand names alphabetically
     const sortedBrands = Object.keys(groups).sort((a, b) => a.localeCompare(b))
-    return sortedBrands.map(brand => ({ brand, items: groups[brand] }))
+    return sortedBrands.map(brand => ({ brand, items: groups[brand] ?? [] }))
   }, [sortedItems])
 
   const toggleBrandCollapse = (brand: string) => {
@@ -151,6 +186,7 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
   }
 
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0)
+  const cartValuation = useMemo(() => calculateCartValuation(items), [items])
   const allSelected = items.length > 0 && selectedItems.size === items.length
 
   const handleCheckout = () => {
@@ -168,14 +204,65 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
   }
 
   const handleConfirmCheckout = async (employee: Employee, purpose?: string) => {
+    // Another kiosk may have checked out or reserved these items since they were added
+    if (apiService.getConfig().isConnected && navigator.onLine) {
+      setIsCommitting(true)
+      try {
+        const shortfalls = await stockReservations.findShortfalls(items)
+        if (shortfalls.length > 0) {
+          setPendingShortfall({ employee, purpose, shortfalls })
+          setIsCommitting(false)
+          return
+        }
+      } catch (error) {
+        // The checkout itself queues or reports a failing API
+        console.log("[v0] Stock check failed, continuing checkout:", error)
+      }
+    }
+
+    await commitCheckout(employee, purpose, items)
+  }
+
+  // Check out only what is still available; lines with nothing left are removed from the cart
+  const handleCheckoutAvailable = async () => {
+    if (!pendingShortfall) return
+    const { employee, purpose, shortfalls } = pendingShortfall
+    setPendingShortfall(null)
+
+    const availableById = new Map(shortfalls.map(shortfall => [shortfall.itemId, shortfall.available]))
+    const checkoutItems = items
+      .map(item => ({ ...item, quantity: Math.min(item.quantity, availableById.get(item.id) ?? item.quantity) }))
+      .filter(item => item.quantity > 0)
+    shortfalls.forEach(shortfall => {
+      if (shortfall.available > 0) onUpdateQuantity(shortfall.itemId, shortfall.available)
+      else onRemoveItem(shortfall.itemId)
+    })
+
+    if (checkoutItems.length === 0) {
+      setIsCheckoutOpen(false)
+      toast({
+        title: "Nothing Left to Check Out",
+        description: "None of the items in the cart are available any more.",
+        variant: "destructive",
+        toastType: 'warning',
+        duration: 5000
+      } as any)
+      return
+    }
+
+    await commitCheckout(employee, purpose, checkoutItems)
+  }
+
+  const commitCheckout = async (employee: Employee, purpose: string | undefined, checkoutItems: CartItemWithTimestamp[]) => {
     setIsCommitting(true)
+    const checkoutTotal = checkoutItems.reduce((sum, item) => sum + item.quantity, 0)
 
     try {
       console.log("[v0] Starting checkout process...")
 
       // Trust the API/database to calculate balance and item_status after checkout
       // Only send the necessary data: item_no, quantity, and item_name
-      const itemUpdates = items.map((item) => ({
+      const itemUpdates = checkoutItems.map((item) => ({
         id: item.id,
         name: item.name,
         quantity: item.quantity,
@@ -188,121 +275,76 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
 
       console.log("[v0] Item updates prepared:", itemUpdates)
 
+      const transaction = createTransaction({
+        type: 'checkout',
+        username: employee.fullName,
+        idNumber: employee.idNumber,
+        idBarcode: employee.idBarcode,
+        purpose,
+        // logDate and logTime are set by the server using NOW() for accuracy
+        items: checkoutItems.map(item => ({
+          id: item.id,
+          name: item.name,
+          quantity: item.quantity,
+          unit: DEFAULT_UNIT,
+          balanceBefore: item.balance,
+          balanceAfter: Math.max(0, item.balance - item.quantity),
+          brand: item.brand,
+          itemType: item.itemType,
+          location: item.location,
+        })),
+      })
+
+      // Shared by the online attempt and the outbox, so a retry of a checkout the server already recorded is ignored
+      const idempotencyKey = createIdempotencyKey()
+      const queueCheckout = async () => {
+        await offlineOutbox.enqueueCheckout(transaction, idempotencyKey)
+        toast({
+          title: "Checkout Queued 📦",
+          description: `${checkoutTotal} items saved on this device and will sync when the connection returns.`,
+          toastType: 'info',
+          duration: 5000
+        } as any)
+      }
+
       const apiConfig = apiService.getConfig()
-      if (apiConfig.isConnected) {
+      if (apiConfig.isConnected && !navigator.onLine) {
+        console.log("[v0] Device offline, queueing checkout")
+        await queueCheckout()
+      } else if (apiConfig.isConnected) {
         // Inventory reduction is now handled by bulk-checkout in employee-inventory.php
         // Only need to log the transaction for audit trail
         try {
-          const enhancedItems = items.map(item => ({
-            id: item.id,
-            name: item.name,
-            brand: item.brand || 'N/A',
-            itemType: item.itemType || 'N/A',
-            location: item.location || 'N/A',
-            quantity: item.quantity,
-            originalBalance: item.balance,
-            newBalance: Math.max(0, item.balance - item.quantity)
-          }))
-
-          // Create concise details format (max 255 chars for database)
-          let detailsText = `Checkout: ${totalItems} items - `
-          
-          if (enhancedItems.length <= 2) {
-            // Very short list: show full details
-            detailsText += enhancedItems.map(item => 
-              `${item.name} x${item.quantity} (${item.brand})`
-            ).join(', ')
-          } else if (enhancedItems.length <= 4) {
-            // Short list: show names and quantities only
-            detailsText += enhancedItems.map(item => 
-              `${item.name} x${item.quantity}`
-            ).join(', ')
-          } else {
-            // Long list: show count by item name only
-            const itemSummary = enhancedItems.reduce((acc, item) => {
-              acc[item.name] = (acc[item.name] || 0) + item.quantity
-              return acc
-            }, {} as Record<string, number>)
-            
-            detailsText += Object.entries(itemSummary)
-              .map(([item, qty]) => `${item} x${qty}`)
-              .join(', ')
-          }
-
-          // Ensure details fit in 255 characters
-          if (detailsText.length > 255) {
-            detailsText = detailsText.substring(0, 252) + '...'
-          }
-
-          // Collect item numbers with separators
-          let itemNumbers = items.map(item => item.id).join(';')
-          
-          // Limit item_no to 255 characters to prevent database truncation errors
-          if (itemNumbers.length > 255) {
-            // Take as many complete item IDs as possible, leaving room for "..."
-            const maxLength = 252 // Leave room for "..."
-            const itemIds = items.map(item => item.id)
-            let truncatedIds = []
-            let currentLength = 0
-            
-            for (const id of itemIds) {
-              const separatorLength = truncatedIds.length > 0 ? 1 : 0 // ';' separator
-              if (currentLength + id.length + separatorLength <= maxLength) {
-                truncatedIds.push(id)
-                currentLength += id.length + separatorLength
-              } else {
-                break
-              }
-            }
-            
-            itemNumbers = truncatedIds.join(';') + (truncatedIds.length < itemIds.length ? '...' : '')
-          }
-
-          // NEW: Build structured items JSON for accurate parsing
-          const structuredItems = enhancedItems.map(item => ({
-            item_no: item.id,
-            item_name: item.name,
-            brand: item.brand,
-            item_type: item.itemType,
-            location: item.location,
-            quantity: item.quantity,
-            unit_of_measure: 'pcs', // Default unit, can be customized per item
-            balance_before: item.originalBalance,
-            balance_after: item.newBalance
-          }))
-
-          const transactionData: any = {
-            username: employee.fullName,
-            details: detailsText,
-            id_number: employee.idNumber,
-            id_barcode: employee.idBarcode,
-            item_no: itemNumbers,
-            items_json: JSON.stringify(structuredItems) // NEW: Structured data
-            // log_date and log_time are now set by the server using NOW() for accuracy
-          }
-
-          // Only include purpose if provided
-          if (purpose && purpose.trim()) {
-            transactionData.purpose = purpose.trim()
-          }
-
-          await apiService.logTransaction(transactionData)
+          // The server checks stock less other kiosks' reservations, not the ones this cart holds
+          await apiService.logTransaction(transaction, { idempotencyKey, reservationHolder: stockReservations.getHolderId() })
           console.log("[v0] Successfully logged enhanced transaction details")
 
           toast({
             title: "Checkout Successful! ✅",
-            description: `${totalItems} items processed. Inventory updated and transaction logged.`,
+            description: `${checkoutTotal} items processed. Inventory updated and transaction logged.`,
             toastType: 'success',
             duration: 4000
           } as any)
         } catch (transactionError) {
-          console.log("[v0] Transaction logging failed (non-critical):", transactionError)
-          toast({
-            title: "Checkout Completed ⚠️",
-            description: `${totalItems} items processed. Inventory updated but transaction logging failed.`,
-            toastType: 'warning',
-            duration: 4000
-          } as any)
+          if (transactionError instanceof InsufficientStockError) {
+            // Nothing was committed; offer to check out what is still available
+            console.log("[v0] Checkout refused for insufficient stock:", transactionError.shortfalls)
+            setPendingShortfall({ employee, purpose, shortfalls: transactionError.shortfalls })
+            if (onRefreshData) onRefreshData()
+            return
+          }
+          if (transactionError instanceof ApiError && transactionError.retryable) {
+            console.log("[v0] Transaction logging failed, queueing for retry:", transactionError)
+            await queueCheckout()
+          } else {
+            console.log("[v0] Transaction logging failed (non-critical):", transactionError)
+            toast({
+              title: "Checkout Completed ⚠️",
+              description: `${checkoutTotal} items processed. Inventory updated but transaction logging failed.`,
+              toastType: 'warning',
+              duration: 4000
+            } as any)
+          }
         }
 
         // Trigger data refresh to update inventory
@@ -315,7 +357,7 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
 
         toast({
           title: "Checkout Completed (Local Only) 📝",
-          description: `API not connected. User: ${employee.id.toString()}, Total: ${totalItems} items`,
+          description: `API not connected. User: ${employee.id.toString()}, Total: ${checkoutTotal} items`,
           toastType: 'info',
           duration: 4000
         } as any)
@@ -323,9 +365,9 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
 
       const checkoutSummary = {
         userId: employee.id.toString(),
-        totalItems: totalItems,
-        itemCount: items.length,
-        items: items.map((item) => ({
+        totalItems: checkoutTotal,
+        itemCount: checkoutItems.length,
+        items: checkoutItems.map((item) => ({
           id: item.id,
           name: item.name,
           quantity: item.quantity,
@@ -342,8 +384,11 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
 
       setIsCheckoutOpen(false)
 
-      setCheckoutData({ userId: employee.id.toString(), totalItems })
+      setCheckoutData({ userId: employee.id.toString(), totalItems: checkoutTotal })
       setShowSuccessCountdown(true)
+
+      // The checkout now accounts for these units; stop holding them while the countdown runs
+      stockReservations.releaseAll()
     } catch (error) {
       console.error("[v0] Checkout process failed:", error)
 
@@ -403,18 +448,13 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
                 }
               />
               
-              <Select value={sortBy} onValueChange={setSortBy}>
-                <SelectTrigger className="w-32 h-9 text-xs">
-                  <SelectValue placeholder="Sort by" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="recent">Recently Added</SelectItem>
-                  <SelectItem value="name-asc">Name A-Z</SelectItem>
-                  <SelectItem value="name-desc">Name Z-A</SelectItem>
-                  <SelectItem value="qty-high">Qty High-Low</SelectItem>
-                  <SelectItem value="qty-low">Qty Low-High</SelectItem>
-                </SelectContent>
-              </Select>
+              <SortSelect
+                scope="cart"
+                value={sortBy}
+                onChange={(value) => value && setSortBy(value)}
+                className="w-32 h-9 text-xs"
+                placeholder="Sort by"
+              />
             </div>
           </div>
         </div>
@@ -435,6 +475,7 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
             {groupedByBrand.map(({ brand, items: brandItems }) => {
               const isCollapsed = collapsedBrands.has(brand)
               const brandItemCount = brandItems.reduce((sum, item) => sum + item.quantity, 0)
+              const brandValuation = calculateCartValuation(brandItems)
               const allBrandItemsSelected = brandItems.every(item => selectedItems.has(item.id))
               const someBrandItemsSelected = brandItems.some(item => selectedItems.has(item.id))
               
@@ -490,6 +531,11 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
                         </Badge>
                       </div>
                     </div>
+                    {brandValuation.pricedCount > 0 && (
+                      <span className="text-sm font-medium text-foreground">
+                        {formatCurrency(brandValuation.total, brandValuation.currency)}
+                      </span>
+                    )}
                   </button>
 
                   {/* Brand Items */}
@@ -524,6 +570,17 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
                               {item.balance} in stock
                             </Badge>
 
+                            <div className="w-28 shrink-0 text-right">
+                              {typeof item.unitCost === 'number' ? (
+                                <>
+                                  <p className="text-sm font-medium text-foreground">{formatCurrency(getLineValue(item) ?? 0, item.currency)}</p>
+                                  <p className="text-xs text-muted-foreground">{formatCurrency(item.unitCost, item.currency)} ea</p>
+                                </>
+                              ) : (
+                                <p className="text-xs text-muted-foreground">No unit cost</p>
+                              )}
+                            </div>
+
                             {/* Quantity Controls */}
                             <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-1">
                               <Button
@@ -605,7 +662,10 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
                             </div>
 
                             <div className="flex items-center justify-between pl-10">
-                              <span className="text-xs text-muted-foreground">{item.balance} in stock</span>
+                              <span className="text-xs text-muted-foreground">
+                                {item.balance} in stock
+                                {typeof item.unitCost === 'number' && ` • ${formatCurrency(getLineValue(item) ?? 0, item.currency)}`}
+                              </span>
 
                               <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-0.5">
                                 <Button
@@ -693,8 +753,11 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
 
             <div className="flex items-center gap-4">
               <div className="text-right">
-                <p className="text-xs text-muted-foreground">Total</p>
-                <p className="text-lg font-semibold">{totalItems} items</p>
+                <p className="text-xs text-muted-foreground">Total • {totalItems} items</p>
+                <p className="text-lg font-semibold">{formatCurrency(cartValuation.total, cartValuation.currency)}</p>
+                {cartValuation.unpricedCount > 0 && (
+                  <p className="text-xs text-muted-foreground">{cartValuation.unpricedCount} item{cartValuation.unpricedCount > 1 ? 's' : ''} without unit cost</p>
+                )}
               </div>
 
               <Button
@@ -723,9 +786,40 @@ export function CartView({ items, onUpdateQuantity, onRemoveItem, onReturnToBrow
         onClose={() => setIsCheckoutOpen(false)}
         items={items}
         onConfirmCheckout={handleConfirmCheckout}
+        onUpdateQuantity={onUpdateQuantity}
+        onRemoveItem={onRemoveItem}
         isCommitting={isCommitting}
       />
 
+      <Dialog open={pendingShortfall !== null} onOpenChange={(open) => { if (!open) setPendingShortfall(null) }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Not Enough Stock</DialogTitle>
+            <DialogDescription>
+              Other kiosks have checked out or reserved some of these items since they were added to the cart.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {pendingShortfall?.shortfalls.map(shortfall => (
+              <div key={shortfall.itemId} className="flex items-center justify-between gap-3 rounded-lg border border-border p-2 text-sm">
+                <span className="truncate">{shortfall.name}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {shortfall.available === 0 ? 'None left' : `${shortfall.available} of ${shortfall.requested} available`}
+                </span>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingShortfall(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCheckoutAvailable}>
+              Check Out Available
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <CheckoutSuccessCountdown
         isOpen={showSuccessCountdown}
         onComplete={handleCountdownComplete}
@@ -1,11 +1,11 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { createPortal } from "react-dom"
 import {
   X, Wifi, WifiOff, CreditCard, UserCheck,
   ShoppingCart, FileText, CheckCircle2, ChevronRight, ChevronLeft,
-  Package, ArrowRight, AlertCircle, Check
+  Package, PackageCheck, ArrowRight, AlertCircle, Check, RefreshCw, KeyRound, Search
 } from "lucide-react"
 import { Button } from "../components/ui/button"
 import { Card, CardContent } from "../components/ui/card"
@@ -13,47 +13,67 @@ import { Input } from "../components/ui/input"
 import { Badge } from "../components/ui/badge"
 import { Textarea } from "../components/ui/textarea"
 import type { CartItem } from "../app/page"
-import { getDemoEmployees, addDemoTransaction, simulatePayment } from "../lib/mock-data"
+import { simulatePayment } from "../lib/mock-data"
 import env from "../lib/env"
+import { calculateCartValuation, formatCurrency, getLineValue } from "../lib/pricing"
+import useGlobalBarcodeScanner from "../hooks/use-global-barcode-scanner"
+import { stockReservations } from "../lib/stock-reservations"
+import type { LineAvailability } from "../lib/stock-reservations"
+import { describeApiError } from "../lib/api-errors"
+import { apiService } from "../lib/api_service"
+import { isEmployeeActive } from "../lib/Services/employees.service"
+import type { Employee } from "../lib/Services/employees.service"
+import { getPinRequirement } from "../lib/checkout-verification"
 
 interface CheckoutModalProps {
   isOpen: boolean
   onClose: () => void
   items: CartItem[]
-  onConfirmCheckout: (employee: any, purpose?: string) => void
+  onConfirmCheckout: (employee: Employee, purpose?: string) => void
+  // Used by the stock check to reduce or drop lines stock no longer covers
+  onUpdateQuantity: (id: string, quantity: number) => void
+  onRemoveItem: (id: string) => void
   isCommitting?: boolean
 }
 
-type WizardStep = 1 | 2 | 3 | 4
+type WizardStep = 1 | 2 | 3 | 4 | 5
 
 const WIZARD_STEPS = env.DEMO_MODE ? [
-  { step: 1, title: "Review Order", icon: ShoppingCart, description: "Verify your items" },
-  { step: 2, title: "Purpose", icon: FileText, description: "Add checkout reason" },
-  { step: 3, title: "Payment", icon: CreditCard, description: "Process payment" },
-  { step: 4, title: "Confirm", icon: CheckCircle2, description: "Employee verification" },
+  { step: 1, id: 'review', title: "Review Order", icon: ShoppingCart, description: "Verify your items" },
+  { step: 2, id: 'stock', title: "Stock Check", icon: PackageCheck, description: "Confirm availability" },
+  { step: 3, id: 'purpose', title: "Purpose", icon: FileText, description: "Add checkout reason" },
+  { step: 4, id: 'payment', title: "Payment", icon: CreditCard, description: "Process payment" },
+  { step: 5, id: 'confirm', title: "Confirm", icon: CheckCircle2, description: "Employee verification" },
 ] as const : [
-  { step: 1, title: "Review Order", icon: ShoppingCart, description: "Verify your items" },
-  { step: 2, title: "Purpose", icon: FileText, description: "Add checkout reason" },
-  { step: 3, title: "Confirm", icon: CheckCircle2, description: "Employee verification" },
+  { step: 1, id: 'review', title: "Review Order", icon: ShoppingCart, description: "Verify your items" },
+  { step: 2, id: 'stock', title: "Stock Check", icon: PackageCheck, description: "Confirm availability" },
+  { step: 3, id: 'purpose', title: "Purpose", icon: FileText, description: "Add checkout reason" },
+  { step: 4, id: 'confirm', title: "Confirm", icon: CheckCircle2, description: "Employee verification" },
 ] as const
 
-export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCommitting = false }: CheckoutModalProps) {
+const LAST_STEP = WIZARD_STEPS.length as WizardStep
+
+export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, onUpdateQuantity, onRemoveItem, isCommitting = false }: CheckoutModalProps) {
   const [currentStep, setCurrentStep] = useState<WizardStep>(1)
-  const [employees, setEmployees] = useState<any[]>([])
-  const [selectedEmployee, setSelectedEmployee] = useState<any | null>(null)
+  const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null)
   const [userInput, setUserInput] = useState("")
+  const [isLookingUpEmployee, setIsLookingUpEmployee] = useState(false)
+  const [photoFailed, setPhotoFailed] = useState(false)
+  // PIN confirmation for high-value or restricted checkouts
+  const [pin, setPin] = useState("")
+  const [isPinVerified, setIsPinVerified] = useState(false)
+  const [isVerifyingPin, setIsVerifyingPin] = useState(false)
+  // Only the latest lookup may select an employee (scans can overtake a slow lookup)
+  const lookupIdRef = useRef(0)
   const [error, setError] = useState<string | null>(null)
   const [purpose, setPurpose] = useState("")
-  const [savingToInventory, setSavingToInventory] = useState(false)
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'digital'>('card')
   const [isProcessingPayment, setIsProcessingPayment] = useState(false)
-
-  // Load employees when modal opens
-  useEffect(() => {
-    if (isOpen) {
-      setEmployees(getDemoEmployees())
-    }
-  }, [isOpen])
+  // Pre-flight stock check: fresh availability per line (null until checked)
+  const [availability, setAvailability] = useState<LineAvailability[] | null>(null)
+  const [isCheckingStock, setIsCheckingStock] = useState(false)
+  const [stockCheckError, setStockCheckError] = useState<string | null>(null)
+  const currentStepId = WIZARD_STEPS[currentStep - 1]?.id
 
   // Reset state when modal closes
   useEffect(() => {
@@ -61,60 +81,131 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
       setCurrentStep(1)
       setSelectedEmployee(null)
       setUserInput("")
+      setPin("")
+      setIsPinVerified(false)
       setError(null)
       setPurpose("")
-      setSavingToInventory(false)
+      setAvailability(null)
+      setStockCheckError(null)
     }
   }, [isOpen])
 
-  // Demo: Manual input just selects the first employee for simplicity
+  const runStockCheck = async () => {
+    setIsCheckingStock(true)
+    setStockCheckError(null)
+    try {
+      setAvailability(await stockReservations.checkAvailability(items))
+    } catch (error) {
+      console.warn("[CheckoutModal] Stock check failed:", error)
+      setAvailability(null)
+      setStockCheckError(describeApiError(error).description)
+    } finally {
+      setIsCheckingStock(false)
+    }
+  }
+
+  // Balances may have changed since the items were added: check again whenever the step is entered
+  useEffect(() => {
+    if (isOpen && currentStepId === 'stock') {
+      runStockCheck()
+    }
+  }, [isOpen, currentStepId])
+
+  // Take what is left of a short line, or drop it when nothing is
+  const acceptAvailable = (line: LineAvailability) => {
+    if (line.available > 0) {
+      onUpdateQuantity(line.itemId, line.available)
+    } else {
+      onRemoveItem(line.itemId)
+    }
+  }
+
+  const clearEmployee = () => {
+    setSelectedEmployee(null)
+    setPhotoFailed(false)
+    setPin("")
+    setIsPinVerified(false)
+  }
+
+  // Typing only edits the field; the ID is looked up on Enter (or scanned)
   const handleManualInput = (value: string) => {
     setUserInput(value)
     setError(null)
-    if (value.trim().length === 0) {
-      setSelectedEmployee(null)
-      return
+    if (selectedEmployee) clearEmployee()
+  }
+
+  // Match a badge barcode or typed ID number; Inactive/Disabled employees are refused
+  const resolveEmployee = async (code: string) => {
+    const trimmed = code.trim()
+    if (!trimmed) return
+
+    const lookupId = ++lookupIdRef.current
+    setUserInput(trimmed)
+    setError(null)
+    clearEmployee()
+    setIsLookingUpEmployee(true)
+    try {
+      const found = await apiService.findEmployeeByIdBarcode(trimmed) ?? await apiService.findEmployeeByIdNumber(trimmed)
+      if (lookupId !== lookupIdRef.current) return
+      if (!found) {
+        setError(`No employee found for "${trimmed}"`)
+      } else if (!isEmployeeActive(found)) {
+        setError(`${found.fullName} is ${found.status} and cannot check out items`)
+      } else {
+        setSelectedEmployee(found)
+      }
+    } catch (err) {
+      if (lookupId !== lookupIdRef.current) return
+      console.error("[CheckoutModal] Employee lookup failed:", err)
+      setError("Employee lookup failed. Check the connection and try again.")
+    } finally {
+      if (lookupId === lookupIdRef.current) setIsLookingUpEmployee(false)
     }
-    // For demo, just pick the first employee
-    setSelectedEmployee(employees[0] || null)
   }
 
-  // Mock save to inventory for demo
-  const saveToEmployeeInventory = async (employee: any, checkoutItems: CartItem[], purpose?: string) => {
-    setSavingToInventory(true)
+  const handleVerifyPin = async () => {
+    if (!selectedEmployee || !pin) return
+
+    setIsVerifyingPin(true)
+    setError(null)
     try {
-      // Simulate saving and logging transaction
-      checkoutItems.forEach(item => {
-        addDemoTransaction({
-          username: employee.name || employee.fullName,
-          details: `Checked out ${item.name} x${item.quantity}`,
-          purpose: purpose || 'Inventory checkout',
-          id_number: employee.id,
-          id_barcode: employee.id,
-          item_no: item.id,
-          log_date: new Date().toISOString().slice(0, 10),
-          log_time: new Date().toLocaleTimeString('en-US', { hour12: false })
-        })
-      })
-      return { success: true, message: 'Mock inventory updated' }
-    } catch (error: any) {
-      return { success: false, message: error.message, error }
+      const valid = await apiService.verifyEmployeePin(selectedEmployee.id, pin)
+      setIsPinVerified(valid)
+      if (!valid) {
+        setPin("")
+        setError("Incorrect PIN. Try again.")
+      }
+    } catch (err) {
+      console.error("[CheckoutModal] PIN verification failed:", err)
+      setError(describeApiError(err).description)
     } finally {
-      setSavingToInventory(false)
+      setIsVerifyingPin(false)
     }
   }
 
+  // While checkout is open it outranks the cart and dashboard: badge scans fill the
+  // employee field and any other scan is swallowed so items are not added mid-checkout
+  useGlobalBarcodeScanner((barcode) => {
+    if (currentStepId === 'confirm' && !isCommitting) {
+      resolveEmployee(barcode)
+    }
+  }, { owner: 'checkout', priority: 10, enabled: isOpen })
+
   const handleConfirm = async () => {
     if (!selectedEmployee) {
       setError("Please select an employee.")
       return
     }
+    if (pinRequirement.required && !isPinVerified) {
+      setError("Enter the employee's PIN to confirm this checkout.")
+      return
+    }
 
     if (env.DEMO_MODE) {
       // Process payment in demo mode (mock)
       setIsProcessingPayment(true)
       try {
-        const paymentResult = await simulatePayment(0, paymentMethod)
+        const paymentResult = await simulatePayment(valuation.total, paymentMethod)
         if (!paymentResult.success) {
           setError(paymentResult.error || 'Payment failed')
           return
@@ -128,30 +219,12 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
       }
     }
 
-    try {
-      setSavingToInventory(true)
-      const inventoryResult = await saveToEmployeeInventory(
-        selectedEmployee,
-        items,
-        purpose.trim() || undefined
-      )
-
-      if (!inventoryResult.success) {
-        console.warn("[CheckoutModal] Inventory tracking failed:", inventoryResult.message)
-      }
-
-      onConfirmCheckout(selectedEmployee, purpose.trim() || undefined)
-      console.log("✅ Checkout completed successfully!")
-    } catch (error) {
-      console.error("[CheckoutModal] Checkout failed:", error)
-      setError(`Checkout failed: ${(error as Error).message}`)
-    } finally {
-      setSavingToInventory(false)
-    }
+    // The cart view records the checkout (logTransaction) once its stock check passes
+    onConfirmCheckout(selectedEmployee, purpose.trim() || undefined)
   }
 
   const goToNextStep = () => {
-    if (currentStep < 4) {
+    if (currentStep < LAST_STEP) {
       setCurrentStep((prev) => (prev + 1) as WizardStep)
     }
   }
@@ -172,15 +245,18 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
   }
 
   const canProceedToNext = () => {
-    switch (currentStep) {
-      case 1:
+    switch (currentStepId) {
+      case 'review':
         return items.length > 0
-      case 2:
+      case 'stock':
+        // Every short line accepted or dropped; if the check itself failed the commit checks again
+        return items.length > 0 && !isCheckingStock && (stockCheckError !== null || (availability !== null && stockIssues.length === 0))
+      case 'purpose':
         return true // Purpose is optional
-      case 3:
-        return env.DEMO_MODE ? true : !!selectedEmployee // Payment step always proceeds in demo
-      case 4:
-        return env.DEMO_MODE ? !!selectedEmployee : false // Employee verification in demo
+      case 'payment':
+        return true // Payment step always proceeds in demo
+      case 'confirm':
+        return !!selectedEmployee && (!pinRequirement.required || isPinVerified)
       default:
         return false
     }
@@ -188,8 +264,15 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
 
   if (!isOpen) return null
 
+  // Lines fresh balances no longer cover, judged against the cart as it is now
+  const stockIssues = (availability ?? []).filter(line => {
+    const quantity = items.find(item => item.id === line.itemId)?.quantity ?? 0
+    return quantity > line.available
+  })
+
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0)
-  const totalValue = items.reduce((sum, item) => sum + item.quantity * 10, 0)
+  const valuation = calculateCartValuation(items)
+  const pinRequirement = getPinRequirement(items)
   const apiConfig = { isConnected: false }
 
   // Step Indicator Component - Clickable steps
@@ -267,7 +350,7 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
         <div className="flex items-center justify-between px-8 py-6 border-b border-border bg-muted/30">
           <div>
             <h2 className="text-2xl font-bold text-card-foreground">Checkout</h2>
-            <p className="text-sm text-muted-foreground">Step {currentStep} of 4 — {WIZARD_STEPS[(currentStep - 1) as number]?.title ?? ''}</p>
+            <p className="text-sm text-muted-foreground">Step {currentStep} of {LAST_STEP} — {WIZARD_STEPS[(currentStep - 1) as number]?.title ?? ''}</p>
           </div>
           <Button
             variant="ghost"
@@ -286,7 +369,7 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
         {/* Content */}
         <CardContent className="p-8 max-h-[75vh] overflow-y-auto">
           {/* Step 1: Review Order */}
-          {currentStep === 1 && (
+          {currentStepId === 'review' && (
             <div className="space-y-5">
               {/* API Status Banner */}
               <div className={`flex items-center justify-between p-3 rounded-lg border ${
@@ -348,7 +431,9 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
                         </p>
                       </div>
                       <p className="text-sm font-medium text-foreground shrink-0">
-                        ₱{(item.quantity * 10).toFixed(2)}
+                        {typeof item.unitCost === 'number'
+                          ? formatCurrency(getLineValue(item) ?? 0, item.currency)
+                          : <span className="text-xs text-muted-foreground">No unit cost</span>}
                       </p>
                     </div>
                   ))}
@@ -369,17 +454,138 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
                     </div>
                     <div className="h-px bg-border my-2" />
                     <div className="flex justify-between items-center">
-                      <span className="text-base font-semibold text-foreground">Total Value</span>
-                      <span className="text-xl font-bold text-secondary">₱{totalValue.toFixed(2)}</span>
+                      <span className="text-base font-semibold text-foreground">Value Issued</span>
+                      <span className="text-xl font-bold text-secondary">{formatCurrency(valuation.total, valuation.currency)}</span>
                     </div>
+                    {valuation.unpricedCount > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {valuation.unpricedCount} {valuation.unpricedCount === 1 ? 'item has' : 'items have'} no unit cost and {valuation.unpricedCount === 1 ? 'is' : 'are'} not included
+                      </p>
+                    )}
+                    {valuation.excludedCurrencies.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Items priced in {valuation.excludedCurrencies.join(', ')} are not included
+                      </p>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             </div>
           )}
 
-          {/* Step 2: Purpose */}
-          {currentStep === 2 && (
+          {/* Step 2: Stock Check */}
+          {currentStepId === 'stock' && (
+            <div className="space-y-5">
+              <div className="text-center">
+                <div className="inline-flex items-center justify-center w-12 h-12 rounded-xl bg-secondary/10 mb-3">
+                  <PackageCheck className="w-6 h-6 text-secondary" />
+                </div>
+                <h3 className="text-lg font-semibold text-foreground">
+                  Stock Check
+                </h3>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Current balances, less items reserved in other carts
+                </p>
+              </div>
+
+              {isCheckingStock ? (
+                <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                  Checking current stock...
+                </div>
+              ) : stockCheckError ? (
+                <Card className="border-amber-500/30 bg-amber-500/10">
+                  <CardContent className="p-4">
+                    <div className="flex items-start gap-3">
+                      <AlertCircle className="w-5 h-5 mt-0.5 shrink-0 text-amber-500" />
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-amber-600 dark:text-amber-400">
+                          Could not check stock
+                        </p>
+                        <p className="text-xs mt-1 text-muted-foreground">
+                          {stockCheckError} You can continue; stock is checked again when the checkout is sent.
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={runStockCheck} className="shrink-0">
+                        <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                        Retry
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="space-y-3">
+                  <div className="rounded-lg border border-border/50 divide-y divide-border/50 max-h-[40vh] overflow-y-auto">
+                    {items.map((item) => {
+                      const line = availability?.find(entry => entry.itemId === item.id)
+                      const isShort = line !== undefined && item.quantity > line.available
+
+                      return (
+                        <div
+                          key={item.id}
+                          className={`flex items-center gap-3 px-3 py-2 ${
+                            !isShort ? '' : line.available === 0 ? 'bg-destructive/10' : 'bg-amber-500/10'
+                          }`}
+                        >
+                          <div className="flex items-center justify-center w-7 h-7 rounded-md bg-secondary/10 text-secondary font-semibold text-xs shrink-0">
+                            {item.quantity}×
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-card-foreground text-sm truncate leading-tight">
+                              {item.name}
+                            </p>
+                            {line && (
+                              <p className={`text-xs leading-tight ${
+                                !isShort ? 'text-muted-foreground' : line.available === 0 ? 'text-destructive' : 'text-amber-600 dark:text-amber-400'
+                              }`}>
+                                {!isShort ? `${line.available} available` : line.available === 0 ? 'Out of stock' : `Only ${line.available} available`}
+                              </p>
+                            )}
+                          </div>
+                          {isShort ? (
+                            <div className="flex items-center gap-2 shrink-0">
+                              {line.available > 0 && (
+                                <Button size="sm" variant="outline" onClick={() => acceptAvailable(line)} className="h-8 text-xs">
+                                  Take {line.available}
+                                </Button>
+                              )}
+                              <Button size="sm" variant="ghost" onClick={() => onRemoveItem(item.id)} className="h-8 text-xs text-destructive">
+                                Remove
+                              </Button>
+                            </div>
+                          ) : line ? (
+                            <Check className="w-4 h-4 text-success shrink-0" />
+                          ) : null}
+                        </div>
+                      )
+                    })}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-muted-foreground">
+                      {stockIssues.length > 0
+                        ? `${stockIssues.length} ${stockIssues.length === 1 ? 'line needs' : 'lines need'} attention before continuing`
+                        : 'All items are available'}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      {stockIssues.length > 0 && (
+                        <Button size="sm" variant="outline" onClick={() => stockIssues.forEach(acceptAvailable)} className="h-8 text-xs">
+                          Accept All Available
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={runStockCheck} className="h-8 text-xs">
+                        <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                        Recheck
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Step 3: Purpose */}
+          {currentStepId === 'purpose' && (
             <div className="space-y-6">
               <div className="text-center py-2">
                 <div className="inline-flex items-center justify-center w-14 h-14 rounded-xl bg-secondary/10 mb-4">
@@ -440,8 +646,8 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
             </div>
           )}
 
-          {/* Step 3: Payment (Demo) */}
-          {currentStep === 3 && (
+          {/* Step 4: Payment (Demo) */}
+          {currentStepId === 'payment' && (
             <div className="space-y-5">
               {/* Payment Processing */}
               <div className="space-y-4">
@@ -502,8 +708,8 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
             </div>
           )}
 
-          {/* Step 4: Employee Verification (Demo) */}
-          {currentStep === 4 && (
+          {/* Step 5: Employee Verification */}
+          {currentStepId === 'confirm' && (
             <div className="space-y-5">
               {/* Employee Identification */}
               <div className="space-y-4">
@@ -515,21 +721,39 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
                     Employee Verification
                   </h3>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Enter employee ID number
+                    Scan ID badge or enter employee ID number
                   </p>
                 </div>
 
                 {/* Input Field */}
                 <div className="space-y-2">
-                  <div className="relative">
+                  <div className="flex gap-2">
                     <Input
                       placeholder="Enter employee ID number..."
                       value={userInput}
                       onChange={(e) => handleManualInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          resolveEmployee(userInput)
+                        }
+                      }}
                       className="h-12 text-center text-lg font-mono bg-input border-border focus:border-secondary"
                       disabled={isCommitting}
                       autoComplete="off"
                     />
+                    <Button
+                      variant="outline"
+                      onClick={() => resolveEmployee(userInput)}
+                      disabled={!userInput.trim() || isLookingUpEmployee || isCommitting}
+                      className="h-12 shrink-0"
+                    >
+                      {isLookingUpEmployee ? (
+                        <RefreshCw className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Search className="w-4 h-4" />
+                      )}
+                    </Button>
                   </div>
                 </div>
 
@@ -558,17 +782,26 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
                     <CardContent className="p-4">
                       <div className="flex items-center gap-4">
                         <div className="flex items-center justify-center w-12 h-12 rounded-full bg-success text-success-foreground font-bold text-lg overflow-hidden shrink-0">
-                          {selectedEmployee.name ? selectedEmployee.name[0] : 'E'}
+                          {selectedEmployee.profilePicture && !photoFailed ? (
+                            <img
+                              src={selectedEmployee.profilePicture}
+                              alt={selectedEmployee.fullName}
+                              className="w-full h-full object-cover"
+                              onError={() => setPhotoFailed(true)}
+                            />
+                          ) : (
+                            selectedEmployee.fullName ? selectedEmployee.fullName[0] : 'E'
+                          )}
                         </div>
                         <div className="flex-1 min-w-0">
                           <p className="font-semibold text-success truncate">
-                            {selectedEmployee.name}
+                            {selectedEmployee.fullName}
                           </p>
                           <p className="text-sm text-success/80 truncate">
-                            {selectedEmployee.department}
+                            {selectedEmployee.department}{selectedEmployee.position ? ` · ${selectedEmployee.position}` : ''}
                           </p>
                           <p className="text-xs text-success/70 mt-1">
-                            ID: {selectedEmployee.id}
+                            ID: {selectedEmployee.idNumber}
                           </p>
                         </div>
                         <CheckCircle2 className="w-6 h-6 text-success shrink-0" />
@@ -576,6 +809,55 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
                     </CardContent>
                   </Card>
                 )}
+
+                {/* PIN Confirmation */}
+                {selectedEmployee && pinRequirement.required && (
+                  <Card className={isPinVerified ? "bg-success/10 border-success/30" : "border-amber-500/30 bg-amber-500/10"}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-start gap-3">
+                        <KeyRound className={`w-5 h-5 mt-0.5 shrink-0 ${isPinVerified ? 'text-success' : 'text-amber-500'}`} />
+                        <div>
+                          <p className={`text-sm font-medium ${isPinVerified ? 'text-success' : 'text-foreground'}`}>
+                            {isPinVerified ? 'PIN Verified' : 'PIN Required'}
+                          </p>
+                          {pinRequirement.reasons.map(reason => (
+                            <p key={reason} className="text-xs mt-1 text-muted-foreground">{reason}</p>
+                          ))}
+                        </div>
+                      </div>
+                      {!isPinVerified && (
+                        <div className="flex gap-2">
+                          <Input
+                            type="password"
+                            inputMode="numeric"
+                            placeholder="Employee PIN"
+                            value={pin}
+                            onChange={(e) => {
+                              setPin(e.target.value)
+                              setError(null)
+                            }}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault()
+                                handleVerifyPin()
+                              }
+                            }}
+                            className="h-10 text-center font-mono tracking-widest"
+                            disabled={isVerifyingPin || isCommitting}
+                            autoComplete="off"
+                          />
+                          <Button
+                            onClick={handleVerifyPin}
+                            disabled={!pin || isVerifyingPin || isCommitting}
+                            className="h-10 shrink-0"
+                          >
+                            {isVerifyingPin ? 'Checking...' : 'Verify'}
+                          </Button>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
               </div>
 
               {/* Order Summary Mini */}
@@ -586,8 +868,8 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
                     <Badge variant="outline" className="text-xs">{items.length} items</Badge>
                   </div>
                   <div className="flex items-center justify-between">
-                    <span className="text-muted-foreground">Total Value</span>
-                    <span className="text-lg font-bold text-secondary">₱{totalValue.toFixed(2)}</span>
+                    <span className="text-muted-foreground">Value Issued</span>
+                    <span className="text-lg font-bold text-secondary">{formatCurrency(valuation.total, valuation.currency)}</span>
                   </div>
                   {purpose && (
                     <div className="mt-3 pt-3 border-t border-border">
@@ -614,7 +896,7 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
           </Button>
 
           <div className="flex items-center gap-1">
-            {(env.DEMO_MODE ? [1, 2, 3, 4] : [1, 2, 3]).map((step) => (
+            {WIZARD_STEPS.map(({ step }) => (
               <div
                 key={step}
                 className={`w-2 h-2 rounded-full transition-colors ${
@@ -624,7 +906,7 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
             ))}
           </div>
 
-          {currentStep < (env.DEMO_MODE ? 4 : 3) ? (
+          {currentStep < LAST_STEP ? (
             <Button
               onClick={goToNextStep}
               disabled={!canProceedToNext()}
@@ -636,10 +918,10 @@ export function CheckoutModal({ isOpen, onClose, items, onConfirmCheckout, isCom
           ) : (
             <Button
               onClick={handleConfirm}
-              disabled={!selectedEmployee || isCommitting || savingToInventory || isProcessingPayment}
+              disabled={!canProceedToNext() || isCommitting || isProcessingPayment}
               className="min-w-40 h-12 bg-success hover:bg-success/90 text-success-foreground"
             >
-              {(isProcessingPayment || isCommitting || savingToInventory) ? (
+              {(isProcessingPayment || isCommitting) ? (
                 <>
                   <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
                   {isProcessingPayment ? 'Processing Payment...' : 'Processing...'}
@@ -3,9 +3,11 @@ import { useState, useMemo, useEffect, useCallback } from "react"
 import { validateSearchQuery } from "../lib/validation"
 import { 
   processBarcodeInput,
+  findProductByCode,
+  type AlternateCode,
   type Product
 } from "../lib/barcode-scanner"
-import { Filter, Grid, List, ChevronDown, RefreshCw, Settings, Download, FileText, FileSpreadsheet, Code, Package, Menu, X, Scan, Plus } from "lucide-react"
+import { Filter, Grid, List, ChevronDown, RefreshCw, Settings, Download, FileText, FileSpreadsheet, Code, Package, Menu, X, Scan, Plus, Camera } from "lucide-react"
 import { useLoading } from "./loading-context"
 import { SearchLoader } from "./enhanced-loaders"
 import { Button } from "./ui/button"
@@ -16,20 +18,36 @@ import { Card, CardContent } from "./ui/card"
 import { Badge } from "./ui/badge"
 import { useToast } from "../hooks/use-toast"
 import { apiService } from "../lib/api_service"
+import { API_ENDPOINTS, DEFAULT_API_KEY_HEADER } from "../lib/api-config"
+import type { ApiAuthConfig, ApiAuthMode } from "../lib/api-config"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog"
 import { exportToCSV, exportToXLSX, exportToJSON, prepareExportData } from "../lib/export-utils"
 import { EnhancedItemCard } from "./enhanced-item-card"
 import { BulkOperationsBar, useBulkSelection } from "./bulk-operations"
 import useGlobalBarcodeScanner from "../hooks/use-global-barcode-scanner"
+import { scannerService, SCANNER_TIMING_PROFILES } from "../lib/scanner-service"
+import { normalizeCurrency, parseUnitCost } from "../lib/pricing"
+import type { ScannerConfig, ScannerProfileId } from "../lib/scanner-service"
 import BarcodeModal from "./barcode-modal"
 import { useInventorySync } from "../hooks/useInventorySync"
 import { IndustrialTooltip } from "./ui/tooltip"
+import { enhancedToast } from "./enhanced-toaster"
+import { catalogueWorker } from "../lib/catalogue-worker"
+import { FilterPresets } from "./filter-presets"
+import { VirtualProductGrid } from "./virtual-product-grid"
+import { readFiltersFromUrl, writeFiltersToUrl, getSortOrder } from "../lib/dashboard-filters"
+import type { DashboardFilters, DashboardSort } from "../lib/dashboard-filters"
+import { sortItems, sortUsesHistory } from "../lib/sort-registry"
+import { useItemUsage } from "../hooks/use-item-usage"
+import { SortSelect } from "./sort-select"
 
 
 interface DashboardViewProps {
   onAddToCart: (product: Product, quantity?: number, isFromBarcode?: boolean) => void
   onViewItem: (product: Product) => void
   searchQuery?: string
+  // Replaces the header search (applying a saved view)
+  onSearchChange?: (query: string) => void
   onRefreshData?: (refreshFunction: () => void) => void
   apiUrl?: string
   onApiUrlChange?: (url: string) => void
@@ -43,12 +61,15 @@ interface DashboardViewProps {
   setDataSource?: React.Dispatch<React.SetStateAction<"api" | "cached">>
   lastFetchTime?: Date | null
   setLastFetchTime?: React.Dispatch<React.SetStateAction<Date | null>>
+  // The dashboard stays mounted behind other views; it only claims scans while visible
+  isActive?: boolean
 }
 
 export function DashboardView({ 
   onAddToCart, 
   onViewItem, 
   searchQuery = "", 
+  onSearchChange,
   onRefreshData,
   apiUrl = "",
   onApiUrlChange,
@@ -62,6 +83,7 @@ export function DashboardView({
   setDataSource: parentSetDataSource,
   lastFetchTime: parentLastFetchTime,
   setLastFetchTime: parentSetLastFetchTime,
+  isActive = true,
 }: DashboardViewProps) {
   // Use parent state if available, otherwise fallback to local state
   const [localProducts, setLocalProducts] = useState<Product[]>([])
@@ -86,17 +108,47 @@ export function DashboardView({
     setTempApiUrl(apiUrl)
   }, [apiUrl])
 
-  const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
+  // API authentication form (password is only held while signing in)
+  const [tempAuth, setTempAuth] = useState<ApiAuthConfig>(() => apiService.getConfig().auth)
+  const [authPassword, setAuthPassword] = useState("")
+  const [isSigningIn, setIsSigningIn] = useState(false)
+
+  // Barcode scanner settings for this kiosk's wedge scanner
+  const [tempScannerConfig, setTempScannerConfig] = useState<ScannerConfig>(() => scannerService.getConfig())
+
+  // Reload the live auth settings each time the dialog opens (tokens may have been refreshed)
+  useEffect(() => {
+    if (isSettingsOpen) {
+      setTempAuth(apiService.getConfig().auth)
+      setTempScannerConfig(scannerService.getConfig())
+      setAuthPassword("")
+    }
+  }, [isSettingsOpen])
+
+  // Filters start from the URL so reloads and shared links keep them
+  const [initialFilters] = useState(readFiltersFromUrl)
+  const [viewMode, setViewMode] = useState<"grid" | "list">(initialFilters.viewMode)
   // Multi-select category filter: tracks which categories are excluded (empty = all included)
-  const [excludedCategories, setExcludedCategories] = useState<Set<string>>(new Set())
-  const [showAvailable, setShowAvailable] = useState(true)
-  const [showUnavailable, setShowUnavailable] = useState(true)
+  const [excludedCategories, setExcludedCategories] = useState<Set<string>>(() => new Set(initialFilters.excludedCategories))
+  const [showAvailable, setShowAvailable] = useState(initialFilters.showAvailable)
+  const [showUnavailable, setShowUnavailable] = useState(initialFilters.showUnavailable)
   const [localSearchQuery, setLocalSearchQuery] = useState("")
   const [isSearching, setIsSearching] = useState(false)
-  const [sortBy, setSortBy] = useState("name-asc")
+  // "relevance" ranks search results best match first, and is A-Z when not searching
+  const [sortBy, setSortBy] = useState<DashboardSort>(initialFilters.sortBy)
+  // Secondary order for items the primary order ranks equal
+  const [thenBy, setThenBy] = useState<DashboardSort | null>(initialFilters.thenBy)
+  const sortOrder = useMemo(() => getSortOrder({ sortBy, thenBy }), [sortBy, thenBy])
+  // Checkout history, loaded only for the "Recently Checked Out" and "Most Used" orders
+  const itemUsage = useItemUsage(sortUsesHistory(sortOrder))
+
+  const handleSortByChange = (value: DashboardSort | null) => {
+    if (!value) return
+    setSortBy(value)
+    // A secondary order equal to the primary one adds nothing
+    if (value === thenBy) setThenBy(null)
+  }
   const [barcodeInput, setBarcodeInput] = useState("")
-  const [currentPage, setCurrentPage] = useState(1)
-  const [isLoadingMore, setIsLoadingMore] = useState(false)
 
   const [isExporting, setIsExporting] = useState(false)
   // Live updates: subscribe to inventory and procurement events
@@ -115,15 +167,16 @@ export function DashboardView({
     },
     enabled: true,
   })
-  // Note: Global barcode scanning is handled by GlobalBarcodeListener component
-  // The dashboard listens to 'scanned-barcode' events dispatched by that component
+  // Keyboard-wedge scans reach the dashboard through scannerService (see useGlobalBarcodeScanner below)
   const [useEnhancedCards] = useState(true)
 
   // Bulk selection state
   const {
     selectedItems,
+    toggleSelection,
     selectAll,
-    clearSelection
+    clearSelection,
+    isSelected
   } = useBulkSelection()
   const [isOnline, setIsOnline] = useState(typeof window !== 'undefined' ? navigator.onLine : true)
   const [isCategoriesCollapsed, setIsCategoriesCollapsed] = useState(false)
@@ -135,19 +188,7 @@ export function DashboardView({
   const [isBarcodeModalOpen, setIsBarcodeModalOpen] = useState(false)
   const [detectedBarcode, setDetectedBarcode] = useState<string | null>(null)
   const [detectedProduct, setDetectedProduct] = useState<Product | null>(null)
-  const [isCheckoutModalOpen, setIsCheckoutModalOpen] = useState(false)
-
-  // Listen for checkout modal state to disable scanner when checkout is open
-  useEffect(() => {
-    const handleCheckoutModalChange = (event: Event) => {
-      const detail = (event as CustomEvent).detail
-      if (detail && typeof detail.isOpen === 'boolean') {
-        setIsCheckoutModalOpen(detail.isOpen)
-      }
-    }
-    window.addEventListener('checkout-modal-state', handleCheckoutModalChange as EventListener)
-    return () => window.removeEventListener('checkout-modal-state', handleCheckoutModalChange as EventListener)
-  }, [])
+  const [isCameraScanRequested, setIsCameraScanRequested] = useState(false)
 
   // Add to cart from modal, with availability guard
   const handleModalAdd = useCallback((product: Product, quantity: number) => {
@@ -160,6 +201,21 @@ export function DashboardView({
     toast({ title: '✅ Item Added', description: `${product.name} x${quantity} added to cart` })
   }, [onAddToCart, toast])
 
+  // Link an unknown scanned code to an item, then queue that item in the open modal
+  const handleAssignCode = useCallback(async (product: Product, alternateCode: AlternateCode) => {
+    const owner = findProductByCode(alternateCode.code, products)
+    if (owner) {
+      throw new Error(`Code ${alternateCode.code} is already assigned to ${owner.name}`)
+    }
+
+    await apiService.assignItemCode(product.id, alternateCode)
+
+    const updatedProduct: Product = { ...product, alternateCodes: [...(product.alternateCodes ?? []), alternateCode] }
+    setProducts(prev => prev.map(p => p.id === product.id ? updatedProduct : p))
+    setDetectedProduct(updatedProduct)
+    toast({ title: '✅ Code Assigned', description: `${alternateCode.code} now scans as ${product.name}` })
+  }, [products, setProducts, toast])
+
   // Handle detected barcode from global scanner
   const onGlobalBarcodeDetected = useCallback((barcode: string) => {
     const result = processBarcodeInput(barcode, products)
@@ -186,8 +242,16 @@ export function DashboardView({
     // The modal reads detectedProduct via props
   }, [products, isBarcodeModalOpen, toast])
 
-  // Start global scanner only on dashboard view (this component), and pause when checkout modal is open
-  useGlobalBarcodeScanner(onGlobalBarcodeDetected, { minLength: 3, interKeyMs: 80, enabled: !isCheckoutModalOpen })
+  // Open the barcode modal with the camera preview for devices without a wedge scanner
+  const handleOpenCameraScanner = useCallback(() => {
+    setDetectedBarcode(null)
+    setDetectedProduct(null)
+    setIsCameraScanRequested(true)
+    setIsBarcodeModalOpen(true)
+  }, [])
+
+  // Claim scans only while the dashboard is the visible view (cart and checkout claim their own)
+  useGlobalBarcodeScanner(onGlobalBarcodeDetected, { owner: 'dashboard', enabled: isActive })
 
   // Helper: determine if a product is available for adding
   const isAvailable = (p: Product | null | undefined, qty = 1) => {
@@ -245,10 +309,6 @@ export function DashboardView({
   }, [localSearchQuery, setSearchLoading, setIsSearching])
 
 
-
-  const ITEMS_PER_PAGE = 50
-
-
   // Check if localStorage is available (not server-side rendering)
   const isLocalStorageAvailable = () => {
     if (typeof window === 'undefined') return false;
@@ -334,6 +394,12 @@ export function DashboardView({
         location: item.location || item.warehouse || "Unknown Location",
         // Trust the database-calculated balance (in_qty - out_qty)
         balance: item.balance ?? 0,
+        // Manufacturer barcodes, legacy SKUs and supplier part numbers
+        alternateCodes: Array.isArray(item.alternate_codes ?? item.alternateCodes)
+          ? (item.alternate_codes ?? item.alternateCodes).filter((alt: any) => alt && typeof alt.code === 'string')
+          : [],
+        unitCost: parseUnitCost(item.unit_cost ?? item.unitCost),
+        currency: normalizeCurrency(item.currency),
         // Trust the database trigger's item_status calculation
         status: (() => {
           const apiStatus = (item.item_status || "").toLowerCase();
@@ -408,6 +474,9 @@ export function DashboardView({
             variant: "destructive",
           })
         }
+      } else if (showSuccessToast) {
+        // Manual refresh failed while showing existing data - explain why
+        enhancedToast.apiError(error, "Refresh Failed")
       }
     } finally {
       setIsLoadingData(false)
@@ -421,7 +490,7 @@ export function DashboardView({
     try {
       setIsExporting(true)
       const exportData = prepareExportData(
-        products, 
+        sortItems(products, sortOrder, { usage: itemUsage }), 
         apiUrl, 
         isConnected, 
         lastFetchTime?.toISOString() || null
@@ -454,14 +523,14 @@ export function DashboardView({
     try {
       setIsExporting(true)
       const exportData = prepareExportData(
-        products, 
+        sortItems(products, sortOrder, { usage: itemUsage }), 
         apiUrl, 
         isConnected, 
         lastFetchTime?.toISOString() || null
       )
       
       const filename = `toolbox-inventory-${new Date().toISOString().split('T')[0]}`
-      exportToXLSX(exportData, { filename, includeMetadata: true })
+      await exportToXLSX(exportData, { filename, includeMetadata: true })
       
       toast({
         title: "Export Successful",
@@ -487,7 +556,7 @@ export function DashboardView({
     try {
       setIsExporting(true)
       const exportData = prepareExportData(
-        products, 
+        sortItems(products, sortOrder, { usage: itemUsage }), 
         apiUrl, 
         isConnected, 
         lastFetchTime?.toISOString() || null
@@ -603,7 +672,7 @@ export function DashboardView({
     }
   }, [products, onAddToCart, toast]);
 
-  // Listen for global scanned-barcode events dispatched by GlobalBarcodeListener
+  // Listen for scanned-barcode events (single barcode or bulk items payloads)
   useEffect(() => {
     const handler = (e: Event) => {
       try {
@@ -657,9 +726,6 @@ export function DashboardView({
     return () => window.removeEventListener('scanned-barcode', handler as EventListener)
   }, [processBarcodeSubmit, onAddToCart, toast])
 
-  // Note: Global barcode scanning is handled by GlobalBarcodeListener component
-  // which dispatches 'scanned-barcode' events that we listen to above
-
   // Update local search when header search changes
   useEffect(() => {
     // Validate and sanitize search query
@@ -681,10 +747,33 @@ export function DashboardView({
     setTempApiUrl(apiUrl)
   }, [apiUrl])
 
-  // Reset pagination when filters change
+  // The active view as a shareable, saveable object
+  const currentFilters = useMemo<DashboardFilters>(() => ({
+    search: searchQuery,
+    excludedCategories: [...excludedCategories],
+    showAvailable,
+    showUnavailable,
+    sortBy,
+    thenBy,
+    viewMode,
+  }), [searchQuery, excludedCategories, showAvailable, showUnavailable, sortBy, thenBy, viewMode])
+
+  // Keep the address bar in step so a reload (or copied URL) reopens this view
   useEffect(() => {
-    setCurrentPage(1)
-  }, [excludedCategories, showAvailable, showUnavailable, searchQuery, localSearchQuery, sortBy])
+    if (isActive) {
+      writeFiltersToUrl(currentFilters)
+    }
+  }, [isActive, currentFilters])
+
+  const applyFilters = useCallback((filters: DashboardFilters) => {
+    setExcludedCategories(new Set(filters.excludedCategories))
+    setShowAvailable(filters.showAvailable)
+    setShowUnavailable(filters.showUnavailable)
+    setSortBy(filters.sortBy)
+    setThenBy(filters.thenBy)
+    setViewMode(filters.viewMode)
+    onSearchChange?.(filters.search)
+  }, [onSearchChange])
 
   // Get unique categories (memoized)
   const categories = useMemo(() => {
@@ -708,6 +797,54 @@ export function DashboardView({
     }, 500)
   }, [tempApiUrl, onApiUrlChange]) // Dependencies are stable
 
+  const updateTempAuth = useCallback((field: keyof ApiAuthConfig, value: string) => {
+    setTempAuth(prev => {
+      const { [field]: _previous, ...rest } = prev
+      // Drop cleared fields so defaults (e.g., X-API-Key header) apply again
+      return (value.trim() ? { ...rest, [field]: value.trim() } : rest) as ApiAuthConfig
+    })
+  }, [])
+
+  const handleSaveAuth = useCallback(() => {
+    try {
+      apiService.updateConfig({ auth: tempAuth })
+      toast({ title: '✅ Authentication Saved', description: 'API requests will use the new credentials' })
+      fetchProductsFromAPI(true)
+    } catch (error) {
+      toast({ title: '❌ Save Failed', description: (error as Error).message, variant: 'destructive' })
+    }
+  }, [tempAuth, toast])
+
+  const handleSignIn = useCallback(async () => {
+    if (!tempAuth.username || !authPassword) return
+
+    setIsSigningIn(true)
+    try {
+      // Apply endpoint overrides before signing in
+      apiService.updateConfig({ auth: tempAuth })
+      const auth = await apiService.login(tempAuth.username, authPassword)
+      setTempAuth(auth)
+      setAuthPassword("")
+      toast({ title: '✅ Signed In', description: `Signed in as ${auth.username}` })
+      fetchProductsFromAPI(true)
+    } catch (error) {
+      toast({ title: '❌ Sign In Failed', description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setIsSigningIn(false)
+    }
+  }, [tempAuth, authPassword, toast])
+
+  const handleSaveScannerConfig = useCallback(() => {
+    scannerService.updateConfig(tempScannerConfig)
+    toast({ title: '✅ Scanner Saved', description: `Using ${SCANNER_TIMING_PROFILES[tempScannerConfig.profile].label} timing` })
+  }, [tempScannerConfig, toast])
+
+  const handleSignOut = useCallback(() => {
+    apiService.logout()
+    setTempAuth(apiService.getConfig().auth)
+    toast({ title: 'Signed Out', description: 'Session token cleared' })
+  }, [toast])
+
   // Handle barcode input submission
   const handleBarcodeSubmit = useCallback(() => {
     processBarcodeSubmit(barcodeInput)
@@ -721,65 +858,41 @@ export function DashboardView({
     }
   }, [handleBarcodeSubmit])
 
-  // Filter and sort products
-  const { paginatedProducts, totalFilteredCount, hasMorePages } = useMemo(() => {
-    const filtered = products.filter((product) => {
-      // Category filter - exclude products whose category is in the excluded set
-      if (excludedCategories.has(product.itemType)) {
-        return false
-      }
-
-      // Status filter
-      if (!showAvailable && (product.status === "in-stock" || product.status === "low-stock")) {
-        return false
-      }
-      if (!showUnavailable && product.status === "out-of-stock") {
-        return false
-      }
-
-      // Search filter (use both header search and local search)
-      const effectiveSearchQuery = searchQuery || localSearchQuery
-      if (effectiveSearchQuery) {
-        const query = effectiveSearchQuery.toLowerCase()
-        return (
-          product.name.toLowerCase().includes(query) ||
-          product.brand.toLowerCase().includes(query) ||
-          product.itemType.toLowerCase().includes(query) ||
-          product.location.toLowerCase().includes(query)
-        )
-      }
-
-      return true
-    })
+  // Filter and sort products in the catalogue worker (search is fuzzy, ranked, with field qualifiers).
+  // The previous results stay on screen until the new ones arrive.
+  const [filteredProducts, setFilteredProducts] = useState<Product[]>([])
+  const [isFiltering, setIsFiltering] = useState(true)
+  const effectiveSearchQuery = searchQuery || localSearchQuery
 
-    // Sort products
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case "name-asc":
-          return a.name.localeCompare(b.name)
-        case "name-desc":
-          return b.name.localeCompare(a.name)
-        case "stock-high":
-          return b.balance - a.balance
-        case "stock-low":
-          return a.balance - b.balance
-        default:
-          return 0
-      }
-    })
-
-    // Paginate results
-    const totalItems = filtered.length
-    const itemsToShow = currentPage * ITEMS_PER_PAGE
-    const paginatedResults = filtered.slice(0, itemsToShow)
-    const hasMore = itemsToShow < totalItems
+  useEffect(() => {
+    let isCurrent = true
+    setIsFiltering(true)
+
+    catalogueWorker.query(products, {
+      search: effectiveSearchQuery,
+      excludedCategories: [...excludedCategories],
+      showAvailable,
+      showUnavailable,
+      sortBy,
+      thenBy,
+    }, itemUsage)
+      .then(results => {
+        if (isCurrent) setFilteredProducts(results)
+      })
+      .catch(error => {
+        console.error('[Dashboard] Failed to filter products:', error)
+      })
+      .finally(() => {
+        if (isCurrent) setIsFiltering(false)
+      })
 
-    return {
-      paginatedProducts: paginatedResults,
-      totalFilteredCount: totalItems,
-      hasMorePages: hasMore,
+    return () => {
+      isCurrent = false
     }
-  }, [products, excludedCategories, showAvailable, showUnavailable, searchQuery, localSearchQuery, sortBy, currentPage])
+  }, [products, effectiveSearchQuery, excludedCategories, showAvailable, showUnavailable, sortBy, thenBy, itemUsage])
+
+  // Every match is kept; VirtualProductGrid only mounts the rows on screen
+  const totalFilteredCount = filteredProducts.length
 
   // Dynamic title based on category filter state
   const itemsTitle = useMemo(() => {
@@ -805,15 +918,6 @@ export function DashboardView({
     return "Filtered Items"
   }, [categories, excludedCategories])
 
-  const handleLoadMore = () => {
-    setIsLoadingMore(true)
-    // Simulate loading delay
-    setTimeout(() => {
-      setCurrentPage((prev) => prev + 1)
-      setIsLoadingMore(false)
-    }, 500)
-  }
-
   const getStatusColor = (status: Product["status"]) => {
     switch (status) {
       case "in-stock":
@@ -839,6 +943,90 @@ export function DashboardView({
         return "Unknown"
     }
   }
+
+  // One product card in the current view mode (only rows near the viewport are rendered)
+  const renderProductCard = (product: Product) => {
+    if (useEnhancedCards) {
+      return (
+        <EnhancedItemCard
+          product={product}
+          onAddToCart={onAddToCart}
+          onViewItem={onViewItem}
+          viewMode={viewMode}
+        />
+      )
+    }
+
+    return viewMode === "grid" ? (
+      <Card className="cursor-pointer hover:shadow-md transition-shadow">
+        <CardContent className="p-2" onClick={() => onViewItem(product)}>
+          <div className="aspect-square bg-slate-100 dark:bg-slate-700 rounded-md mb-2 flex items-center justify-center text-slate-500 dark:text-slate-400 text-xs">
+            image
+          </div>
+
+          <h3 className="font-medium text-xs mb-1 line-clamp-2 dark:text-slate-100 leading-tight">{product.name}</h3>
+          <p className="text-[10px] text-slate-600 dark:text-slate-400 mb-0.5 leading-tight">Brand: {product.brand}</p>
+          <p className="text-[10px] text-slate-600 dark:text-slate-400 mb-1.5 leading-tight">Bal: {product.balance}</p>
+
+          <div className="flex items-center justify-between">
+            <Badge className={`${getStatusColor(product.status)} text-white text-[10px] py-0 px-1.5 h-4`}>
+              {getStatusText(product.status)}
+            </Badge>
+            <Button
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation()
+                onAddToCart(product)
+              }}
+              disabled={product.status === "out-of-stock"}
+              className="h-6 text-xs px-2"
+            >
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    ) : (
+      <Card className="cursor-pointer hover:shadow-md transition-shadow">
+        <CardContent className="p-4" onClick={() => onViewItem(product)}>
+          <div className="flex items-center space-x-4">
+            <div className="w-20 h-20 bg-slate-100 dark:bg-slate-700 rounded-lg flex items-center justify-center text-slate-500 dark:text-slate-400 text-sm shrink-0">
+              img
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium text-base mb-1 dark:text-slate-100 truncate">{product.name}</h3>
+              <div className="text-sm text-slate-600 dark:text-slate-400 space-y-1">
+                <p>{product.brand} • {product.itemType}</p>
+                <p>{product.location}</p>
+              </div>
+            </div>
+
+            <div className="text-right shrink-0">
+              <div className="text-lg font-bold dark:text-slate-100 mb-2">
+                {product.balance.toString().padStart(2, "0")}
+              </div>
+              <Badge className={`${getStatusColor(product.status)} text-white text-sm py-1 px-3 h-7`}>
+                {getStatusText(product.status)}
+              </Badge>
+            </div>
+
+            <Button
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation()
+                onAddToCart(product)
+              }}
+              disabled={product.status === "out-of-stock"}
+              className="h-10 text-sm px-4"
+            >
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
   
   /**
    * Formats feedback messages for barcode scanning vs manual entry
@@ -895,8 +1083,13 @@ export function DashboardView({
         open={isBarcodeModalOpen}
         initialValue={detectedBarcode ?? ''}
         products={detectedProduct ? [detectedProduct] : []}
+        catalog={products}
+        onAssignCode={handleAssignCode}
+        onCameraScan={(code) => scannerService.submit(code, 'camera')}
+        startInCameraMode={isCameraScanRequested}
         onClose={() => {
           setIsBarcodeModalOpen(false)
+          setIsCameraScanRequested(false)
           setDetectedProduct(null)
           setDetectedBarcode('')
         }}
@@ -952,7 +1145,6 @@ export function DashboardView({
           }
         }}
       />
-      {/* Note: Global Barcode Modal is handled by GlobalBarcodeListener component in layout.tsx */}
       
       {/* Mobile Sidebar Overlay */}
       {isMobileSidebarOpen && (
@@ -1007,20 +1199,19 @@ export function DashboardView({
                 </div>
               </div>
 
+              {/* Saved Views */}
+              <FilterPresets filters={currentFilters} onApply={applyFilters} />
+
               {/* Sort By */}
               <div className="space-y-2">
                 <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Sort By</h3>
-                <Select value={sortBy} onValueChange={setSortBy}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="name-asc">Name A-Z</SelectItem>
-                    <SelectItem value="name-desc">Name Z-A</SelectItem>
-                    <SelectItem value="stock-high">Stock High-Low</SelectItem>
-                    <SelectItem value="stock-low">Stock Low-High</SelectItem>
-                  </SelectContent>
-                </Select>
+                <SortSelect scope="catalogue" value={sortBy} onChange={handleSortByChange} />
+              </div>
+
+              {/* Then By */}
+              <div className="space-y-2">
+                <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Then By</h3>
+                <SortSelect scope="catalogue" value={thenBy} onChange={setThenBy} exclude={sortBy} allowNone />
               </div>
 
               {/* Categories */}
@@ -1158,6 +1349,16 @@ export function DashboardView({
               <h2 className="font-medium text-foreground">Filters</h2>
             </div>
             <div className="flex gap-1">
+              <IndustrialTooltip content="Scan a barcode with the camera">
+                <Button 
+                  variant="ghost" 
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={handleOpenCameraScanner} 
+                >
+                  <Camera className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              </IndustrialTooltip>
               <IndustrialTooltip content="Settings and export options">
                 <Button 
                   variant="ghost" 
@@ -1215,21 +1416,26 @@ export function DashboardView({
             </div>
           </div>
 
+          {/* Saved Views */}
+          <FilterPresets filters={currentFilters} onApply={applyFilters} />
+
           {/* Sort By */}
           <div className="space-y-2">
             <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Sort By</h3>
-            <IndustrialTooltip content="Sort items by name or stock level">
-              <Select value={sortBy} onValueChange={setSortBy}>
-                <SelectTrigger className="w-full">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="name-asc">Name A-Z</SelectItem>
-                  <SelectItem value="name-desc">Name Z-A</SelectItem>
-                  <SelectItem value="stock-high">Stock High-Low</SelectItem>
-                  <SelectItem value="stock-low">Stock Low-High</SelectItem>
-                </SelectContent>
-              </Select>
+            <IndustrialTooltip content="Sort items by best match, name, stock, status, location or checkout history">
+              <div>
+                <SortSelect scope="catalogue" value={sortBy} onChange={handleSortByChange} />
+              </div>
+            </IndustrialTooltip>
+          </div>
+
+          {/* Then By */}
+          <div className="space-y-2">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Then By</h3>
+            <IndustrialTooltip content="Order items that tie on the first sort">
+              <div>
+                <SortSelect scope="catalogue" value={thenBy} onChange={setThenBy} exclude={sortBy} allowNone />
+              </div>
             </IndustrialTooltip>
           </div>
         
@@ -1315,6 +1521,140 @@ export function DashboardView({
                 </div>
               </div>
 
+              {/* API Authentication Section */}
+              <div className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">API Authentication</h4>
+                  {tempAuth.mode === 'session' && (
+                    <span className="text-xs text-muted-foreground">
+                      {tempAuth.token ? 'Signed in' : 'Not signed in'}
+                    </span>
+                  )}
+                </div>
+                <Select
+                  value={tempAuth.mode}
+                  onValueChange={(mode) => setTempAuth(prev => ({ ...prev, mode: mode as ApiAuthMode }))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No authentication</SelectItem>
+                    <SelectItem value="bearer">Bearer token</SelectItem>
+                    <SelectItem value="apiKey">API key</SelectItem>
+                    <SelectItem value="session">Session login</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {tempAuth.mode === 'bearer' && (
+                  <Input
+                    type="password"
+                    placeholder="Bearer token"
+                    autoComplete="off"
+                    value={tempAuth.token ?? ""}
+                    onChange={(e) => updateTempAuth('token', e.target.value)}
+                  />
+                )}
+
+                {tempAuth.mode === 'apiKey' && (
+                  <div className="space-y-2">
+                    <Input
+                      placeholder={`Header name (${DEFAULT_API_KEY_HEADER})`}
+                      value={tempAuth.apiKeyHeader ?? ""}
+                      onChange={(e) => updateTempAuth('apiKeyHeader', e.target.value)}
+                    />
+                    <Input
+                      type="password"
+                      placeholder="API key"
+                      autoComplete="off"
+                      value={tempAuth.apiKey ?? ""}
+                      onChange={(e) => updateTempAuth('apiKey', e.target.value)}
+                    />
+                  </div>
+                )}
+
+                {tempAuth.mode === 'session' && (
+                  <div className="space-y-2">
+                    <Input
+                      placeholder="Username"
+                      autoComplete="username"
+                      value={tempAuth.username ?? ""}
+                      onChange={(e) => updateTempAuth('username', e.target.value)}
+                    />
+                    <Input
+                      type="password"
+                      placeholder="Password"
+                      autoComplete="current-password"
+                      value={authPassword}
+                      onChange={(e) => setAuthPassword(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSignIn()}
+                    />
+                    <Input
+                      placeholder={`Login endpoint (${API_ENDPOINTS.authLogin})`}
+                      value={tempAuth.loginEndpoint ?? ""}
+                      onChange={(e) => updateTempAuth('loginEndpoint', e.target.value)}
+                    />
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  {tempAuth.mode === 'session' ? (
+                    <>
+                      <Button
+                        onClick={handleSignIn}
+                        disabled={isSigningIn || !tempAuth.username || !authPassword}
+                        size="sm"
+                        className="flex-1"
+                      >
+                        {isSigningIn ? 'Signing in...' : 'Sign In'}
+                      </Button>
+                      {tempAuth.token && (
+                        <Button onClick={handleSignOut} size="sm" variant="outline">
+                          Sign Out
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <Button onClick={handleSaveAuth} size="sm" variant="outline" className="flex-1">
+                      Save Authentication
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {/* Barcode Scanner Section */}
+              <div className="rounded-lg border p-3 space-y-3">
+                <h4 className="text-sm font-medium">Barcode Scanner</h4>
+                <Select
+                  value={tempScannerConfig.profile}
+                  onValueChange={(profile) => setTempScannerConfig(prev => ({ ...prev, profile: profile as ScannerProfileId }))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SCANNER_TIMING_PROFILES) as ScannerProfileId[]).map(profile => (
+                      <SelectItem key={profile} value={profile}>{SCANNER_TIMING_PROFILES[profile].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Prefix (optional)"
+                    value={tempScannerConfig.prefix}
+                    onChange={(e) => setTempScannerConfig(prev => ({ ...prev, prefix: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Suffix (optional)"
+                    value={tempScannerConfig.suffix}
+                    onChange={(e) => setTempScannerConfig(prev => ({ ...prev, suffix: e.target.value }))}
+                  />
+                </div>
+                <Button onClick={handleSaveScannerConfig} size="sm" variant="outline" className="w-full">
+                  Save Scanner Settings
+                </Button>
+              </div>
+
               {/* Actions */}
               <div className="flex gap-2 pt-2">
                 <IndustrialTooltip content="Refresh inventory data from server">
@@ -1503,7 +1843,7 @@ export function DashboardView({
               <div className="flex items-center gap-3">
                 <h1 className="text-xl font-semibold">{itemsTitle}</h1>
                 <span className="text-sm text-muted-foreground">
-                  {paginatedProducts.length} of {totalFilteredCount}
+                  {totalFilteredCount} of {products.length}
                 </span>
               </div>
             </div>
@@ -1525,10 +1865,21 @@ export function DashboardView({
                 <div className="flex-1 min-w-0">
                   <h1 className="text-base font-semibold truncate">{itemsTitle}</h1>
                   <span className="text-xs text-muted-foreground">
-                    {paginatedProducts.length} of {totalFilteredCount}
+                    {totalFilteredCount} of {products.length}
                   </span>
                 </div>
 
+                <IndustrialTooltip content="Scan a barcode with the camera">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-9 w-9 shrink-0"
+                    onClick={handleOpenCameraScanner}
+                  >
+                    <Camera className="w-4 h-4" />
+                  </Button>
+                </IndustrialTooltip>
+
                 <div className="flex border rounded-lg shrink-0">
                   <IndustrialTooltip content="Grid view">
                     <Button
@@ -1553,17 +1904,15 @@ export function DashboardView({
                 </div>
 
                 <IndustrialTooltip content="Sort items">
-                  <Select value={sortBy} onValueChange={setSortBy}>
-                    <SelectTrigger className="w-24 h-8 text-xs shrink-0">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="name-asc" className="text-xs">A-Z</SelectItem>
-                      <SelectItem value="name-desc" className="text-xs">Z-A</SelectItem>
-                      <SelectItem value="stock-high" className="text-xs">High Stock</SelectItem>
-                      <SelectItem value="stock-low" className="text-xs">Low Stock</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <div className="shrink-0">
+                    <SortSelect
+                      scope="catalogue"
+                      value={sortBy}
+                      onChange={handleSortByChange}
+                      compact
+                      className="w-24 h-8 text-xs"
+                    />
+                  </div>
                 </IndustrialTooltip>
               </div>
 
@@ -1604,7 +1953,7 @@ export function DashboardView({
             onBulkExport={async (selectedProducts, format) => {
               try {
                 // Use existing export functionality
-                const exportData = prepareExportData(selectedProducts)
+                const exportData = prepareExportData(sortItems(selectedProducts, sortOrder, { usage: itemUsage }))
                 
                 let filename = `selected_products_${new Date().toISOString().split('T')[0]}`
                 
@@ -1613,7 +1962,7 @@ export function DashboardView({
                     exportToCSV(exportData, { filename: `${filename}.csv` })
                     break
                   case 'xlsx':
-                    exportToXLSX(exportData, { filename: `${filename}.xlsx` })
+                    await exportToXLSX(exportData, { filename: `${filename}.xlsx` })
                     break
                   case 'json':
                     exportToJSON(exportData, { filename: `${filename}.json` })
@@ -1635,10 +1984,10 @@ export function DashboardView({
             }}
           />
 
-          {/* Products Display */}
-          {isLoadingData || isSearching ? (
+          {/* Products Display (refreshes keep the grid mounted so its scroll position survives) */}
+          {(isLoadingData && products.length === 0) || isSearching ? (
             <SearchLoader query={searchQuery || localSearchQuery} />
-          ) : paginatedProducts.length === 0 ? (
+          ) : filteredProducts.length === 0 && !isFiltering ? (
             <Card>
               <CardContent className="p-8 text-center">
                 <p className="text-muted-foreground text-lg">No items found</p>
@@ -1651,139 +2000,19 @@ export function DashboardView({
             </Card>
           ) : (
             <>
-              {viewMode === "grid" ? (
-                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-3 sm:gap-3 md:gap-4 pb-6">
-                  {paginatedProducts.map((product) => 
-                    useEnhancedCards ? (
-                      <EnhancedItemCard
-                        key={product.id}
-                        product={product}
-                        onAddToCart={onAddToCart}
-                        onViewItem={onViewItem}
-                        viewMode="grid"
-                      />
-                    ) : (
-                      <Card key={product.id} className="cursor-pointer hover:shadow-md transition-shadow">
-                        <CardContent className="p-2" onClick={() => onViewItem(product)}>
-                          <div className="aspect-square bg-slate-100 dark:bg-slate-700 rounded-md mb-2 flex items-center justify-center text-slate-500 dark:text-slate-400 text-xs">
-                            image
-                          </div>
-
-                          <h3 className="font-medium text-xs mb-1 line-clamp-2 dark:text-slate-100 leading-tight">{product.name}</h3>
-                          <p className="text-[10px] text-slate-600 dark:text-slate-400 mb-0.5 leading-tight">Brand: {product.brand}</p>
-                          <p className="text-[10px] text-slate-600 dark:text-slate-400 mb-1.5 leading-tight">Bal: {product.balance}</p>
-
-                          <div className="flex items-center justify-between">
-                            <Badge className={`${getStatusColor(product.status)} text-white text-[10px] py-0 px-1.5 h-4`}>
-                              {getStatusText(product.status)}
-                            </Badge>
-                            <Button
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation()
-                                onAddToCart(product)
-                              }}
-                              disabled={product.status === "out-of-stock"}
-                              className="h-6 text-xs px-2"
-                            >
-                              Add
-                            </Button>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    )
-                  )}
-                </div>
-              ) : (
-                <div className="space-y-3 pb-4">
-                  {paginatedProducts.map((product) => 
-                    useEnhancedCards ? (
-                      <EnhancedItemCard
-                        key={product.id}
-                        product={product}
-                        onAddToCart={onAddToCart}
-                        onViewItem={onViewItem}
-                        viewMode="list"
-                      />
-                    ) : (
-                      <Card key={product.id} className="cursor-pointer hover:shadow-md transition-shadow">
-                        <CardContent className="p-4" onClick={() => onViewItem(product)}>
-                          <div className="flex items-center space-x-4">
-                            <div className="w-20 h-20 bg-slate-100 dark:bg-slate-700 rounded-lg flex items-center justify-center text-slate-500 dark:text-slate-400 text-sm shrink-0">
-                              img
-                            </div>
-
-                            <div className="flex-1 min-w-0">
-                              <h3 className="font-medium text-base mb-1 dark:text-slate-100 truncate">{product.name}</h3>
-                              <div className="text-sm text-slate-600 dark:text-slate-400 space-y-1">
-                                <p>{product.brand} • {product.itemType}</p>
-                                <p>{product.location}</p>
-                              </div>
-                            </div>
-
-                            <div className="text-right shrink-0">
-                              <div className="text-lg font-bold dark:text-slate-100 mb-2">
-                                {product.balance.toString().padStart(2, "0")}
-                              </div>
-                              <Badge className={`${getStatusColor(product.status)} text-white text-sm py-1 px-3 h-7`}>
-                                {getStatusText(product.status)}
-                              </Badge>
-                            </div>
-
-                            <Button
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation()
-                                onAddToCart(product)
-                              }}
-                              disabled={product.status === "out-of-stock"}
-                              className="h-10 text-sm px-4"
-                            >
-                              Add
-                            </Button>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    )
-                  )}
-                </div>
-              )}
-
-              {/* Load More Button */}
-              {hasMorePages && (
-                <div className="flex justify-center pb-6">
-                  <IndustrialTooltip content={`Load ${totalFilteredCount - paginatedProducts.length} more items`}>
-                    <Button
-                      variant="outline"
-                      size="lg"
-                      onClick={handleLoadMore}
-                      disabled={isLoadingMore}
-                      className="bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-900 dark:text-slate-100"
-                    >
-                      {isLoadingMore ? (
-                        <div className="flex items-center space-x-2">
-                          <div className="w-4 h-4 border-2 border-teal-600 border-t-transparent rounded-full animate-spin" />
-                          <span>Loading more items...</span>
-                        </div>
-                      ) : (
-                        <div className="flex items-center space-x-2">
-                          <ChevronDown className="w-4 h-4" />
-                          <span>Load More ({totalFilteredCount - paginatedProducts.length} remaining)</span>
-                        </div>
-                      )}
-                    </Button>
-                  </IndustrialTooltip>
-                </div>
-              )}
-
-              {/* Pagination Info */}
+              <VirtualProductGrid
+                products={filteredProducts}
+                viewMode={viewMode}
+                renderProduct={renderProductCard}
+                onOpenProduct={onViewItem}
+                isSelected={isSelected}
+                onToggleSelected={toggleSelection}
+                isActive={isActive}
+              />
+
+              {/* Result Count */}
               <div className="text-center text-sm text-slate-500 dark:text-slate-400 pb-6 bg-slate-50 dark:bg-slate-900 px-4 py-2 rounded">
-                Showing {paginatedProducts.length} of {totalFilteredCount} items
-                {currentPage > 1 && (
-                  <span className="ml-2">
-                    • Page {currentPage} of {Math.ceil(totalFilteredCount / ITEMS_PER_PAGE)}
-                  </span>
-                )}
+                Showing {totalFilteredCount} of {products.length} items
               </div>
             </>
           )}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import { Search, RefreshCw, Download, ChevronLeft, ChevronRight, X, FileText, Package, Filter, Menu, Eye } from "lucide-react"
 import { Button } from "./ui/button"
 import { Input } from "./ui/input"
@@ -7,8 +7,12 @@ import { Badge } from "./ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog"
 import { useToast } from "../hooks/use-toast"
 import { apiService } from "../lib/api_service"
+import type { TransactionFilters, TransactionStats } from "../lib/api-config"
 import { exportLogsToXLSX } from "../lib/export-utils"
+import { getTransactionType, parseTransactionLog, TRANSACTION_TYPE_LABELS } from "../lib/transaction-records"
+import type { TransactionType } from "../lib/Services/transactions.service"
 import env from "../lib/env"
+import { OutstandingItemsView } from "./outstanding-items-view"
 
 interface Log {
   id: number | string
@@ -22,6 +26,7 @@ interface Log {
   item_no?: string
   created_at?: string
   items_json?: string
+  transaction_type?: TransactionType
 }
 
 interface EmployeeLogsViewProps {
@@ -40,9 +45,13 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
   const [selectedLog, setSelectedLog] = useState<Log | null>(null)
   const [isDetailOpen, setIsDetailOpen] = useState(false)
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false)
+  const [stats, setStats] = useState<TransactionStats | null>(null)
+  const [isLedgerOpen, setIsLedgerOpen] = useState(false)
   const { toast } = useToast()
 
   const logsPerPage = 15
+  const exportPageSize = 500
+  const statsPeriodDays = 30
 
   // Fetch logs from API
   const fetchLogs = useCallback(async (silent = false) => {
@@ -50,7 +59,7 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
       if (!silent) setIsLoading(true)
       setError(null)
 
-      const params: any = {
+      const params: TransactionFilters = {
         offset: (currentPage - 1) * logsPerPage,
         limit: logsPerPage,
         sort_by: "created_at",
@@ -81,6 +90,20 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
     fetchLogs()
   }, [fetchLogs])
 
+  // Period summary (logs per day, most active users) computed by the server
+  const fetchStats = useCallback(async () => {
+    try {
+      setStats(await apiService.fetchTransactionStats(statsPeriodDays))
+    } catch (err) {
+      console.warn("[EmployeeLogs] Stats fetch error:", err)
+      setStats(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStats()
+  }, [fetchStats])
+
   // Real-time updates (Demo mode - listen for localStorage changes)
   useEffect(() => {
     if (!env.DEMO_MODE) return
@@ -98,12 +121,20 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
     return () => window.removeEventListener('storage', handleStorageChange)
   }, [fetchLogs, currentPage])
 
-  // Export handler
+  // Export handler - pages through the server so months of history are included
   const handleExport = async () => {
     try {
-      const allLogs = await apiService.fetchTransactions({ limit: 10000, offset: 0 })
-      if (allLogs?.data && allLogs.data.length > 0) {
-        exportLogsToXLSX(allLogs.data, { filename: `employee-logs-${new Date().toISOString().split("T")[0]}` })
+      const allLogs: Log[] = []
+      let total = Infinity
+      while (allLogs.length < total) {
+        const page = await apiService.fetchTransactions({ limit: exportPageSize, offset: allLogs.length })
+        if (!page?.data || page.data.length === 0) break
+        allLogs.push(...page.data)
+        total = page.total
+      }
+
+      if (allLogs.length > 0) {
+        exportLogsToXLSX(allLogs, { filename: `employee-logs-${new Date().toISOString().split("T")[0]}` })
         toast({ title: "Export Successful", description: "Logs exported to Excel" })
       } else {
         toast({ title: "No Data", description: "No logs to export", variant: "destructive" })
@@ -145,13 +176,15 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
     setCurrentPage(1)
   }
 
-  // Activity icon based on details
-  const getActivityIcon = (details?: string) => {
-    if (!details) return "📋"
-    const d = details.toLowerCase()
-    if (d.includes("checkout")) return "📤"
-    if (d.includes("checkin")) return "📥"
-    if (d.includes("stock")) return "📦"
+  // Activity icon based on transaction type
+  const getActivityIcon = (log?: Log | null) => {
+    if (!log) return "📋"
+    switch (getTransactionType(log)) {
+      case "checkout": return "📤"
+      case "return": return "📥"
+      case "adjustment": return "📦"
+    }
+    const d = (log.details || "").toLowerCase()
     if (d.includes("update")) return "✏️"
     if (d.includes("create")) return "➕"
     if (d.includes("delete")) return "🗑️"
@@ -159,11 +192,11 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
   }
 
   // Activity color for badges
-  const getActivityVariant = (details?: string): "default" | "secondary" | "destructive" | "outline" => {
-    if (!details) return "secondary"
-    const d = details.toLowerCase()
-    if (d.includes("checkout")) return "destructive"
-    if (d.includes("checkin")) return "default"
+  const getActivityVariant = (log?: Log | null): "default" | "secondary" | "destructive" | "outline" => {
+    if (!log) return "secondary"
+    const type = getTransactionType(log)
+    if (type === "checkout") return "destructive"
+    if (type === "return") return "default"
     return "secondary"
   }
 
@@ -182,6 +215,12 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
   }
 
   // Open detailed view
+  // Structured view of the selected entry (legacy text entries are upgraded on read)
+  const selectedTransaction = useMemo(
+    () => selectedLog ? parseTransactionLog({ ...selectedLog, details: selectedLog.details ?? "" }) : null,
+    [selectedLog]
+  )
+
   const openDetailedView = useCallback((log: Log) => {
     setSelectedLog(log)
     setIsDetailOpen(true)
@@ -297,7 +336,7 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
           <Button 
             variant="outline" 
             size="sm" 
-            onClick={() => fetchLogs()} 
+            onClick={() => { fetchLogs(); fetchStats() }} 
             disabled={isLoading}
             className="w-full h-9 justify-start"
           >
@@ -314,6 +353,15 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
             <Download className="w-4 h-4 mr-2" />
             Export to Excel
           </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={() => { setIsLedgerOpen(true); setIsMobileSidebarOpen(false) }} 
+            className="w-full h-9 justify-start"
+          >
+            <Package className="w-4 h-4 mr-2" />
+            Outstanding Items
+          </Button>
         </div>
       </div>
 
@@ -323,6 +371,23 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
           <span className="text-muted-foreground">Total Logs</span>
           <Badge variant="secondary">{totalLogs}</Badge>
         </div>
+        {stats && (
+          <>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Last {stats.period_days} days</span>
+              <Badge variant="outline">{stats.recent_logs}</Badge>
+            </div>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Active Users</span>
+              <Badge variant="outline">{stats.active_users}</Badge>
+            </div>
+            {stats.top_users[0] && (
+              <p className="text-xs text-muted-foreground truncate">
+                Most active: {stats.top_users[0].username} ({stats.top_users[0].log_count})
+              </p>
+            )}
+          </>
+        )}
         {hasFilters && (
           <p className="text-xs text-muted-foreground">
             Showing filtered results
@@ -332,6 +397,10 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
     </div>
   )
 
+  if (isLedgerOpen) {
+    return <OutstandingItemsView className={className} onBack={() => setIsLedgerOpen(false)} />
+  }
+
   return (
     <div className={`flex min-h-[calc(100vh-5rem)] industrial-card metallic-texture ${className}`}>
       {/* Mobile Sidebar Overlay */}
@@ -433,9 +502,9 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
                         <td className="px-4 py-3">
                           <div className="flex items-center gap-2">
                             <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500 to-indigo-500 flex items-center justify-center text-white text-sm shadow-md">
-                              {getActivityIcon(log.details)}
+                              {getActivityIcon(log)}
                             </div>
-                            <Badge variant={getActivityVariant(log.details)} className="text-xs">
+                            <Badge variant={getActivityVariant(log)} className="text-xs">
                               #{log.id}
                             </Badge>
                           </div>
@@ -520,12 +589,12 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-3">
               <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-500 flex items-center justify-center text-white shadow-lg">
-                {getActivityIcon(selectedLog?.details)}
+                {getActivityIcon(selectedLog)}
               </div>
               <div>
                 <div className="flex items-center gap-2">
                   <span>Activity Log</span>
-                  <Badge variant={getActivityVariant(selectedLog?.details)} className="text-xs">
+                  <Badge variant={getActivityVariant(selectedLog)} className="text-xs">
                     #{selectedLog?.id}
                   </Badge>
                 </div>
@@ -568,12 +637,9 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
                   <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-800/50">
                     <div className="text-xs font-medium text-muted-foreground mb-1">Activity Type</div>
                     <div className="flex items-center gap-2">
-                      <span className="text-lg">{getActivityIcon(selectedLog.details)}</span>
-                      <Badge variant={getActivityVariant(selectedLog.details)}>
-                        {selectedLog.details?.toLowerCase().includes('checkout') ? 'Checkout' :
-                         selectedLog.details?.toLowerCase().includes('checkin') ? 'Check-in' :
-                         selectedLog.details?.toLowerCase().includes('stock') ? 'Stock Update' :
-                         'Activity'}
+                      <span className="text-lg">{getActivityIcon(selectedLog)}</span>
+                      <Badge variant={getActivityVariant(selectedLog)}>
+                        {TRANSACTION_TYPE_LABELS[getTransactionType(selectedLog)]}
                       </Badge>
                     </div>
                   </div>
@@ -602,20 +668,50 @@ export function EmployeeLogsView({ className = "" }: EmployeeLogsViewProps) {
                 </div>
               </div>
 
-              {/* Item References */}
-              {selectedLog.item_no && (
+              {/* Line Items */}
+              {selectedTransaction && selectedTransaction.items.length > 0 && (
                 <div className="industrial-card metallic-texture p-6 rounded-xl">
                   <h4 className="text-lg font-semibold mb-4 flex items-center gap-2">
                     <Package className="w-5 h-5 text-primary" />
-                    Item References
+                    Line Items
+                    <Badge variant="outline" className="ml-1">{selectedTransaction.totalItems}</Badge>
                   </h4>
-                  <div className="flex flex-wrap gap-2">
-                    {selectedLog.item_no.split(',').map((item, i) => (
-                      <Badge key={i} variant="secondary" className="text-sm px-3 py-1">
-                        #{item.trim()}
-                      </Badge>
-                    ))}
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-muted-foreground uppercase tracking-wide border-b">
+                          <th className="py-2 pr-3">Item</th>
+                          <th className="py-2 pr-3 text-right">Qty</th>
+                          <th className="py-2 pr-3">Unit</th>
+                          <th className="py-2 pr-3 text-right">Before</th>
+                          <th className="py-2 pr-3 text-right">After</th>
+                          {selectedTransaction.type === "return" && <th className="py-2">Condition</th>}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                        {selectedTransaction.items.map((item, i) => (
+                          <tr key={`${item.id}-${i}`}>
+                            <td className="py-2 pr-3">
+                              <div className="font-medium">{item.name}</div>
+                              <div className="text-xs text-muted-foreground">#{item.id}{item.brand ? ` · ${item.brand}` : ""}</div>
+                            </td>
+                            <td className="py-2 pr-3 text-right">{item.quantity}</td>
+                            <td className="py-2 pr-3">{item.unit}</td>
+                            <td className="py-2 pr-3 text-right">{item.balanceBefore ?? "—"}</td>
+                            <td className="py-2 pr-3 text-right">{item.balanceAfter ?? "—"}</td>
+                            {selectedTransaction.type === "return" && (
+                              <td className="py-2 capitalize">{item.condition ?? "—"}</td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
+                  {selectedTransaction.isLegacy && (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Reconstructed from a legacy text entry; quantities may be approximate and balances were not recorded.
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -5,6 +5,7 @@ import { Badge } from './ui/badge'
 import { Plus, Eye, Package } from 'lucide-react'
 import type { Product } from '../lib/barcode-scanner'
 import { apiService } from '../lib/api_service'
+import { useReservedQuantity } from '../hooks/use-stock-reservations'
 import { IndustrialTooltip } from './ui/tooltip'
 
 // Global image cache for faster loading
@@ -44,6 +45,8 @@ export const EnhancedItemCard = React.memo<EnhancedItemCardProps>(({
   const [imageError, setImageError] = useState(false)
   const [imageLoaded, setImageLoaded] = useState(false)
   const [imageUrl, setImageUrl] = useState<string | null>(null)
+  // Units held in other kiosks' carts
+  const reserved = useReservedQuantity(product.id)
   
   // Simplified image loading - use generated URL directly
   useEffect(() => {
@@ -82,7 +85,8 @@ export const EnhancedItemCard = React.memo<EnhancedItemCardProps>(({
     }
   }, [product?.id])
 
-  const isAddDisabled = product.status === 'out-of-stock' || (typeof product.balance === 'number' && product.balance <= 0)
+  const available = typeof product.balance === 'number' ? Math.max(0, product.balance - reserved) : undefined
+  const isAddDisabled = product.status === 'out-of-stock' || (available !== undefined && available <= 0)
 
   const getStatusStyle = () => {
     if (product.status === 'out-of-stock') return 'bg-destructive/10 text-destructive'
@@ -127,6 +131,11 @@ export const EnhancedItemCard = React.memo<EnhancedItemCardProps>(({
               <span className={`text-xs font-medium px-2 py-1 rounded-md ${getStatusStyle()}`}>
                 {product.balance || 0}
               </span>
+              {reserved > 0 && (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0.5 text-amber-600 dark:text-amber-400 border-amber-500/40">
+                  {reserved} reserved
+                </Badge>
+              )}
               <IndustrialTooltip content="Add item to cart">
                 <Button
                   size="sm"
@@ -183,10 +192,15 @@ export const EnhancedItemCard = React.memo<EnhancedItemCardProps>(({
           )}
           
           {/* Stock Badge */}
-          <div className="absolute top-2 right-2">
+          <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
             <span className={`text-xs font-medium px-2 py-1 rounded-md ${getStatusStyle()}`}>
               {product.balance || 0}
             </span>
+            {reserved > 0 && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0.5 bg-background/90 text-amber-600 dark:text-amber-400 border-amber-500/40">
+                {reserved} reserved
+              </Badge>
+            )}
           </div>
 
           {/* Hover Actions */}
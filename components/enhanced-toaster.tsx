@@ -1,7 +1,8 @@
 "use client"
 
 import { useEffect, useRef } from 'react'
-import { useToast } from '../hooks/use-toast'
+import { useToast, toast } from '../hooks/use-toast'
+import { describeApiError, isApiError } from '../lib/api-errors'
 import { Toast, ToastClose, ToastDescription, ToastProvider, ToastTitle, ToastViewport } from './ui/toast'
 import { CheckCircle, AlertCircle, XCircle, Info, Loader2 } from 'lucide-react'
 
@@ -96,7 +97,6 @@ export function EnhancedToaster() {
 // Enhanced toast helper functions using custom props
 export const enhancedToast = {
   success: (title: string, description?: string) => {
-    const { toast } = useToast()
     return toast({
       title,
       description,
@@ -106,7 +106,6 @@ export const enhancedToast = {
   },
   
   error: (title: string, description?: string) => {
-    const { toast } = useToast()
     return toast({
       title,
       description,
@@ -117,7 +116,6 @@ export const enhancedToast = {
   },
   
   warning: (title: string, description?: string) => {
-    const { toast } = useToast()
     return toast({
       title,
       description,
@@ -127,7 +125,6 @@ export const enhancedToast = {
   },
   
   info: (title: string, description?: string) => {
-    const { toast } = useToast()
     return toast({
       title,
       description,
@@ -137,13 +134,25 @@ export const enhancedToast = {
   },
   
   loading: (title: string, description?: string) => {
-    const { toast } = useToast()
     return toast({
       title,
       description,
       toastType: 'loading',
       duration: 0, // Don't auto-dismiss loading toasts
     } as any)
+  },
+
+  // Explain an API failure (network, timeout, HTTP status...) in user terms
+  apiError: (error: unknown, fallbackTitle?: string) => {
+    const { title, description } = describeApiError(error)
+    const isTransient = isApiError(error) && error.retryable
+    return toast({
+      title: isApiError(error) ? title : fallbackTitle || title,
+      description,
+      variant: isTransient ? 'default' : 'destructive',
+      toastType: isTransient ? 'warning' : 'error',
+      duration: 6000,
+    } as any)
   }
 }
 
@@ -155,8 +164,6 @@ export const createActionToast = (
   onAction: () => void,
   toastType: EnhancedToastType = 'info'
 ) => {
-  const { toast } = useToast()
-  
   return toast({
     title,
     description,
@@ -4,6 +4,7 @@ import React from "react"
 import { AlertTriangle, RefreshCw } from "lucide-react"
 import { Button } from "./ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { describeApiError, isApiError } from "../lib/api-errors"
 
 interface ErrorBoundaryState {
   hasError: boolean
@@ -73,6 +74,9 @@ export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoun
         return <FallbackComponent error={this.state.error as Error | undefined} resetError={this.resetError} />
       }
 
+      // API failures get a specific explanation instead of the generic message
+      const apiErrorInfo = isApiError(this.state.error) ? describeApiError(this.state.error) : null
+
       // Default fallback UI - Minimalist Flat Illustration with Retro Vibes
       return (
         <div className="flex items-center justify-center min-h-screen industrial-gradient p-6">
@@ -84,10 +88,10 @@ export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoun
                 </div>
               </div>
               <CardTitle className="text-2xl font-light text-foreground mb-2">
-                Something went wrong
+                {apiErrorInfo?.title ?? "Something went wrong"}
               </CardTitle>
               <p className="text-muted-foreground text-sm leading-relaxed">
-                An unexpected error occurred. This might be a temporary issue.
+                {apiErrorInfo?.description ?? "An unexpected error occurred. This might be a temporary issue."}
               </p>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -170,9 +174,11 @@ export function AsyncErrorBoundary({ children, onError }: AsyncErrorBoundaryProp
     // Handle unhandled promise rejections
     const handleUnhandledRejection = (event: PromiseRejectionEvent) => {
       console.error("[AsyncErrorBoundary] Unhandled promise rejection:", event.reason)
-      handleError(new Error(event.reason))
+      // Keep typed errors (e.g., ApiError) intact so handlers can inspect them
+      const error = event.reason instanceof Error ? event.reason : new Error(event.reason)
+      handleError(error)
       if (onError) {
-        onError(new Error(event.reason))
+        onError(error)
       }
     }
 
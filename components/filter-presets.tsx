@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { Bookmark, Link2, Save, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { useToast } from '../hooks/use-toast'
+import {
+  buildFiltersUrl,
+  deleteFilterPreset,
+  loadFilterPresets,
+  saveFilterPreset,
+} from '../lib/dashboard-filters'
+import type { DashboardFilters, FilterPreset } from '../lib/dashboard-filters'
+
+interface FilterPresetsProps {
+  filters: DashboardFilters
+  onApply: (filters: DashboardFilters) => void
+}
+
+/**
+ * Named filter presets saved on this kiosk, plus a shareable link to the current view
+ */
+export function FilterPresets({ filters, onApply }: FilterPresetsProps) {
+  const [presets, setPresets] = useState<FilterPreset[]>(loadFilterPresets)
+  const [presetName, setPresetName] = useState('')
+  const { toast } = useToast()
+
+  const handleSave = () => {
+    const name = presetName.trim()
+    if (!name) return
+
+    setPresets(saveFilterPreset(name, filters))
+    setPresetName('')
+    toast({ title: 'View Saved', description: `"${name}" is available from Saved Views on this kiosk` })
+  }
+
+  const handleDelete = (preset: FilterPreset) => {
+    setPresets(deleteFilterPreset(preset.id))
+  }
+
+  const handleCopyLink = async () => {
+    const url = buildFiltersUrl(filters)
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: 'Link Copied', description: 'Anyone opening it sees the dashboard with these filters' })
+    } catch (error) {
+      console.warn('[FilterPresets] Clipboard unavailable:', error)
+      toast({ title: 'Copy Failed', description: url, variant: 'destructive' })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Saved Views</h3>
+
+      {presets.length > 0 && (
+        <div className="space-y-1">
+          {presets.map(preset => (
+            <div key={preset.id} className="flex items-center gap-1 group">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex-1 justify-start h-8 px-2 text-sm font-normal min-w-0"
+                onClick={() => onApply(preset.filters)}
+              >
+                <Bookmark className="w-3.5 h-3.5 mr-2 shrink-0 text-muted-foreground" />
+                <span className="truncate">{preset.name}</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 opacity-60 hover:opacity-100"
+                onClick={() => handleDelete(preset)}
+                aria-label={`Delete ${preset.name}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-1">
+        <Input
+          placeholder="Name this view..."
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleSave()
+            }
+          }}
+          className="h-8 text-sm"
+          maxLength={40}
+        />
+        <Button size="icon" variant="outline" className="h-8 w-8 shrink-0" onClick={handleSave} disabled={!presetName.trim()} aria-label="Save view">
+          <Save className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <Button variant="outline" size="sm" className="w-full h-8 gap-2" onClick={handleCopyLink}>
+        <Link2 className="w-3.5 h-3.5" />
+        Copy Link to This View
+      </Button>
+    </div>
+  )
+}
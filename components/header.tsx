@@ -1,24 +1,38 @@
 import React, { useState, useEffect } from "react"
-import { Search, Package, ShoppingCart, X, FileText } from "lucide-react"
+import { Search, Package, ShoppingCart, X, FileText, RotateCcw } from "lucide-react"
 import { Button } from "./ui/button"
 import { Input } from "./ui/input"
 import { Badge } from "./ui/badge"
 import { ThemeToggle } from "./theme-toggle"
 import { TipsAndTricks } from "./tips-and-tricks"
+import { OfflineStatusPanel } from "./offline-status"
 import { IndustrialTooltip } from "./ui/tooltip"
 import type { ViewType } from "../app/page"
+import { ProductSearchIndex } from "../lib/search-index"
+import type { SearchableProduct, SearchSuggestion } from "../lib/search-index"
+
+const SUGGESTION_KIND_LABELS: Record<SearchSuggestion['kind'], string | null> = {
+  item: null,
+  brand: "Brand",
+  type: "Category",
+  location: "Location",
+  name: null,
+  id: null,
+}
 
 interface HeaderProps {
   cartItemCount: number
   currentView: ViewType
   onViewChange: (view: ViewType) => void
   onSearch?: (query: string) => void
+  // Search set from outside the input (shared link or saved view)
+  query?: string
 }
 
-export function Header({ cartItemCount, currentView, onViewChange, onSearch }: HeaderProps) {
-  const [searchQuery, setSearchQuery] = useState("")
+export function Header({ cartItemCount, currentView, onViewChange, onSearch, query = "" }: HeaderProps) {
+  const [searchQuery, setSearchQuery] = useState(query)
   const [showSuggestions, setShowSuggestions] = useState(false)
-  const [products, setProducts] = useState<Array<{id: string, name: string, brand: string, itemType: string}>>([])
+  const [products, setProducts] = useState<SearchableProduct[]>([])
   
   // Load products for autocomplete
   useEffect(() => {
@@ -31,7 +45,10 @@ export function Header({ cartItemCount, currentView, onViewChange, onSearch }: H
             id: p.id || p.item_no,
             name: p.name || p.item_name || 'Unknown',
             brand: p.brand || 'Unknown',
-            itemType: p.itemType || p.item_type || 'General'
+            itemType: p.itemType || p.item_type || 'General',
+            location: p.location || '',
+            balance: typeof p.balance === 'number' ? p.balance : undefined,
+            status: p.status
           })))
         }
       } catch (error) {
@@ -41,27 +58,18 @@ export function Header({ cartItemCount, currentView, onViewChange, onSearch }: H
     loadProductsForSearch()
   }, [])
   
+  // Same index and ranking as the dashboard grid
+  const searchIndex = React.useMemo(() => new ProductSearchIndex(products), [products])
+
   // Generate smart suggestions
   const suggestions = React.useMemo(() => {
     if (searchQuery.length < 2) return []
-    
-    const query = searchQuery.toLowerCase()
-    const matches = new Set<string>()
-    
-    products.forEach(product => {
-      if (product.name.toLowerCase().includes(query)) {
-        matches.add(product.name)
-      }
-      if (product.brand.toLowerCase().includes(query)) {
-        matches.add(`${product.brand} (Brand)`)
-      }
-      if (product.itemType.toLowerCase().includes(query)) {
-        matches.add(`${product.itemType} (Category)`)
-      }
-    })
-    
-    return Array.from(matches).slice(0, 5)
-  }, [searchQuery, products])
+    return searchIndex.suggest(searchQuery, 5)
+  }, [searchQuery, searchIndex])
+
+  useEffect(() => {
+    setSearchQuery(current => current === query ? current : query)
+  }, [query])
 
   useEffect(() => {
     const delayedSearch = setTimeout(() => {
@@ -86,12 +94,11 @@ export function Header({ cartItemCount, currentView, onViewChange, onSearch }: H
     }
   }
 
-  const selectSuggestion = (suggestion: string) => {
-    const cleanSuggestion = suggestion.replace(/\s*\([^)]*\)\s*$/, '')
-    setSearchQuery(cleanSuggestion)
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    setSearchQuery(suggestion.query)
     setShowSuggestions(false)
     if (onSearch) {
-      onSearch(cleanSuggestion)
+      onSearch(suggestion.query)
     }
   }
 
@@ -129,7 +136,7 @@ export function Header({ cartItemCount, currentView, onViewChange, onSearch }: H
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
             <Input
-              placeholder="Search items, brands, categories..."
+              placeholder="Search items, brands, categories... (brand:dell stock:<5)"
               value={searchQuery}
               onChange={(e) => handleSearchChange(e.target.value)}
               onFocus={() => setShowSuggestions(searchQuery.length > 0)}
@@ -151,14 +158,17 @@ export function Header({ cartItemCount, currentView, onViewChange, onSearch }: H
           {/* Search Suggestions */}
           {showSuggestions && suggestions.length > 0 && (
             <div className="absolute top-full left-0 right-0 mt-2 bg-slate-800 rounded-xl shadow-xl border border-slate-600/50 overflow-hidden z-50">
-              {suggestions.map((suggestion, index) => (
+              {suggestions.map((suggestion) => (
                 <button
-                  key={index}
+                  key={`${suggestion.kind}:${suggestion.label}`}
                   onClick={() => selectSuggestion(suggestion)}
                   className="w-full px-4 py-2.5 text-left text-sm text-slate-200 hover:bg-slate-700/50 transition-colors flex items-center gap-3"
                 >
                   <Search className="w-4 h-4 text-slate-400" />
-                  <span>{suggestion}</span>
+                  <span className="truncate">{suggestion.label}</span>
+                  {SUGGESTION_KIND_LABELS[suggestion.kind] && (
+                    <span className="ml-auto text-xs text-slate-400 shrink-0">{SUGGESTION_KIND_LABELS[suggestion.kind]}</span>
+                  )}
                 </button>
               ))}
             </div>
@@ -178,6 +188,8 @@ export function Header({ cartItemCount, currentView, onViewChange, onSearch }: H
               <TipsAndTricks />
             </div>
           </IndustrialTooltip>
+
+          <OfflineStatusPanel />
           
           {/* Navigation */}
           <div className="flex items-center bg-slate-800/60 rounded-full p-1 gap-0.5 border border-slate-700/50">
@@ -213,6 +225,22 @@ export function Header({ cartItemCount, currentView, onViewChange, onSearch }: H
               </Button>
             </IndustrialTooltip>
 
+            <IndustrialTooltip content="Check tools back in from an employee">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onViewChange("returns")}
+                className={`rounded-full px-3 sm:px-4 h-8 text-sm font-medium transition-all ${
+                  currentView === "returns" 
+                    ? "fabrication-gradient text-white shadow-md" 
+                    : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                }`}
+              >
+                <RotateCcw className="w-4 h-4 sm:mr-1.5" />
+                <span className="hidden sm:inline">Returns</span>
+              </Button>
+            </IndustrialTooltip>
+
             <IndustrialTooltip content={`View cart (${cartItemCount} items)`}>
               <Button
                 variant="ghost"
@@ -19,10 +19,14 @@ import {
   AlertCircle,
   CheckCircle,
   Cloud,
-  CloudOff
+  CloudOff,
+  RotateCcw
 } from 'lucide-react'
 import { useOfflineManager } from '../hooks/use-offline-manager'
+import { DEAD_LETTER_REASON_LABELS } from '../lib/offline-outbox'
+import type { OutboxEntry } from '../lib/offline-outbox'
 import { useToast } from '../hooks/use-toast'
+import env from '../lib/env'
 
 interface OfflineStatusProps {
   className?: string
@@ -33,6 +37,11 @@ export function OfflineStatus({ className = "", showDetails = false }: OfflineSt
   const { 
     syncStatus, 
     offlineQueue, 
+    pendingActions,
+    deadLetters,
+    processOfflineQueue,
+    retryDeadLetter,
+    discardDeadLetter,
     getCacheStatus, 
     clearOfflineData, 
     prefetchData,
@@ -57,6 +66,20 @@ export function OfflineStatus({ className = "", showDetails = false }: OfflineSt
     await prefetchData()
   }
 
+  const handleRetryDeadLetter = async (id: string) => {
+    await retryDeadLetter(id)
+    toast({
+      title: "🔄 Retrying Checkout",
+      description: "The checkout has been moved back into the sync queue.",
+    })
+  }
+
+  const { syncProgress } = syncStatus
+  const syncSourceLabel = syncProgress?.source === 'service-worker' ? 'in background' : 'from this page'
+
+  const describeEntry = (entry: OutboxEntry) =>
+    `${entry.type === 'return' ? 'Return log · ' : ''}${entry.payload.transaction.username} · ${entry.payload.transaction.totalItems} items · ${new Date(entry.createdAt).toLocaleString()}`
+
   // Status indicator component
   const StatusIndicator = () => (
     <div className={`flex items-center space-x-2 ${className}`}>
@@ -79,7 +102,11 @@ export function OfflineStatus({ className = "", showDetails = false }: OfflineSt
       {syncStatus.syncInProgress && (
         <div className="flex items-center space-x-1">
           <RefreshCw className="w-3 h-3 animate-spin text-blue-500" />
-          <span className="text-xs text-blue-600 dark:text-blue-400">Syncing...</span>
+          <span className="text-xs text-blue-600 dark:text-blue-400">
+            {syncProgress && syncProgress.total > 0
+              ? `Syncing ${syncProgress.sent + syncProgress.failed}/${syncProgress.total}...`
+              : 'Syncing...'}
+          </span>
         </div>
       )}
       
@@ -88,6 +115,12 @@ export function OfflineStatus({ className = "", showDetails = false }: OfflineSt
           {offlineQueue} queued
         </Badge>
       )}
+
+      {deadLetters.length > 0 && (
+        <Badge variant="destructive">
+          {deadLetters.length} failed
+        </Badge>
+      )}
     </div>
   )
 
@@ -152,12 +185,27 @@ export function OfflineStatus({ className = "", showDetails = false }: OfflineSt
                   ) : (
                     <>
                       <AlertCircle className="w-4 h-4 text-orange-500" />
-                      <span className="text-sm text-orange-600 dark:text-orange-400">Loading</span>
+                      <span className="text-sm text-orange-600 dark:text-orange-400">
+                        {env.ENABLE_SERVICE_WORKER ? 'Loading' : 'Disabled'}
+                      </span>
                     </>
                   )}
                 </div>
               </div>
 
+              {syncStatus.lastOutboxSync && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Last Checkout Sync:</span>
+                  <div className="flex items-center space-x-2">
+                    <Clock className="w-4 h-4 text-gray-400" />
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      {syncStatus.lastOutboxSync.toLocaleTimeString()}
+                      {syncProgress && ` (${syncProgress.sent} sent, ${syncProgress.failed} failed)`}
+                    </span>
+                  </div>
+                </div>
+              )}
+
               {syncStatus.lastSync && (
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Last Sync:</span>
@@ -222,23 +270,106 @@ export function OfflineStatus({ className = "", showDetails = false }: OfflineSt
                   <span>Pending Sync</span>
                 </CardTitle>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <span className="text-sm">Queued Actions:</span>
+                  <span className="text-sm">Queued Checkouts:</span>
                   <Badge variant="outline" className="border-yellow-300 text-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 dark:text-yellow-400 dark:border-yellow-800">
                     {offlineQueue} pending
                   </Badge>
                 </div>
+                <div className="space-y-1">
+                  {pendingActions.map(entry => (
+                    <div key={entry.id} className="text-xs text-gray-600 dark:text-gray-400">
+                      <p>{describeEntry(entry)}</p>
+                      {entry.lastError && (
+                        <p className="text-orange-600 dark:text-orange-400">
+                          Attempt {entry.attempts} failed: {entry.lastError}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={processOfflineQueue}
+                  disabled={isOffline || syncStatus.syncInProgress}
+                  className="w-full flex items-center space-x-2"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  <span>Sync Now</span>
+                </Button>
                 {syncStatus.syncInProgress && (
                   <div className="mt-2 flex items-center space-x-2 text-sm text-blue-600 dark:text-blue-400">
                     <RefreshCw className="w-3 h-3 animate-spin" />
-                    <span>Syncing changes...</span>
+                    <span>
+                      Syncing {syncSourceLabel}
+                      {syncProgress && syncProgress.total > 0 && ` (${syncProgress.sent + syncProgress.failed}/${syncProgress.total})`}...
+                    </span>
                   </div>
                 )}
               </CardContent>
             </Card>
           )}
 
+          {/* Dead Letters */}
+          {deadLetters.length > 0 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center space-x-2">
+                  <AlertCircle className="w-4 h-4 text-red-500" />
+                  <span>Failed Checkouts</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {deadLetters.map(entry => (
+                  <div key={entry.id} className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="text-xs space-y-1">
+                        <p className="font-medium text-sm">{DEAD_LETTER_REASON_LABELS[entry.reason]}</p>
+                        <p className="text-gray-600 dark:text-gray-400">{describeEntry(entry)}</p>
+                        {entry.lastError && (
+                          <p className="text-red-600 dark:text-red-400">{entry.lastError}</p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRetryDeadLetter(entry.id)}
+                          disabled={isOffline}
+                          title="Retry"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => discardDeadLetter(entry.id)}
+                          title="Discard"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {entry.conflicts && entry.conflicts.length > 0 && (
+                      <div className="text-xs space-y-0.5">
+                        {entry.conflicts.map(conflict => (
+                          <div key={conflict.itemId} className="flex justify-between">
+                            <span>{conflict.name}</span>
+                            <span className="font-mono">
+                              {conflict.requested} requested / {conflict.available} available
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           <Separator />
 
           {/* Action Buttons */}
@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { ArrowLeft, RefreshCw, Download, Search, Package, AlertTriangle, User } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Card } from "./ui/card"
+import { Badge } from "./ui/badge"
+import { Checkbox } from "./ui/checkbox"
+import { useToast } from "../hooks/use-toast"
+import { apiService } from "../lib/api_service"
+import { exportLedgerToXLSX } from "../lib/export-utils"
+import { getDaysOnLoan, getLoanPeriodDays, isHeldItemOverdue, saveLoanPeriodDays } from "../lib/holdings"
+import type { LedgerEntry } from "../lib/holdings"
+
+interface OutstandingItemsViewProps {
+  onBack: () => void
+  className?: string
+}
+
+export function OutstandingItemsView({ onBack, className = "" }: OutstandingItemsViewProps) {
+  const [ledger, setLedger] = useState<LedgerEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false)
+  const [loanPeriodDays, setLoanPeriodDays] = useState(getLoanPeriodDays)
+  const { toast } = useToast()
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setLedger(await apiService.fetchHoldingsLedger())
+    } catch (err: any) {
+      console.error("[OutstandingItems] Fetch error:", err)
+      setError(err?.message || "Failed to load outstanding items")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLedger()
+  }, [fetchLedger])
+
+  const handleLoanPeriodChange = (value: string) => {
+    const days = parseInt(value)
+    if (!Number.isFinite(days) || days <= 0) return
+    setLoanPeriodDays(days)
+    saveLoanPeriodDays(days)
+  }
+
+  const visibleLedger = useMemo(() => {
+    const query = searchTerm.trim().toLowerCase()
+    return ledger
+      .filter(entry => !query ||
+        entry.username.toLowerCase().includes(query) ||
+        entry.idNumber.toLowerCase().includes(query) ||
+        entry.items.some(item => item.name.toLowerCase().includes(query)))
+      .map(entry => showOverdueOnly
+        ? { ...entry, items: entry.items.filter(item => isHeldItemOverdue(item, loanPeriodDays)) }
+        : entry)
+      .filter(entry => entry.items.length > 0)
+      .sort((a, b) => a.username.localeCompare(b.username))
+  }, [ledger, searchTerm, showOverdueOnly, loanPeriodDays])
+
+  const totals = useMemo(() => {
+    const items = ledger.flatMap(entry => entry.items)
+    return {
+      employees: ledger.length,
+      units: items.reduce((sum, item) => sum + item.quantity, 0),
+      overdue: items.filter(item => isHeldItemOverdue(item, loanPeriodDays)).length,
+    }
+  }, [ledger, loanPeriodDays])
+
+  // One row per employee and item still on loan
+  const handleExport = () => {
+    const itemCount = visibleLedger.reduce((sum, entry) => sum + entry.items.length, 0)
+    if (itemCount === 0) {
+      toast({ title: "No Data", description: "No outstanding items to export", variant: "destructive" })
+      return
+    }
+    exportLedgerToXLSX(visibleLedger, loanPeriodDays, {
+      filename: `outstanding-items-${new Date().toISOString().split("T")[0]}`,
+      sheetName: "Outstanding Items",
+    })
+    toast({ title: "Export Successful", description: "Outstanding items exported to Excel" })
+  }
+
+  return (
+    <div className={`flex flex-col min-h-[calc(100vh-5rem)] industrial-card metallic-texture ${className}`}>
+      {/* Header */}
+      <div className="p-4 border-b flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-9 w-9" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <Package className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">Outstanding Items</h2>
+          <Badge variant="outline" className="ml-1">{totals.units}</Badge>
+          {totals.overdue > 0 && (
+            <Badge variant="destructive">{totals.overdue} overdue</Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={fetchLedger} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={visibleLedger.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export to Excel
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="p-4 border-b flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-[12rem] max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Employee, ID or item..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9 h-9"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={showOverdueOnly}
+            onCheckedChange={(checked) => setShowOverdueOnly(checked === true)}
+          />
+          Overdue only
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Loan period (days)</span>
+          <Input
+            type="number"
+            min={1}
+            value={loanPeriodDays}
+            onChange={(e) => handleLoanPeriodChange(e.target.value)}
+            className="w-20 h-9"
+          />
+        </label>
+        <span className="text-xs text-muted-foreground">
+          {totals.employees} employees holding items
+        </span>
+      </div>
+
+      {/* Ledger */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {isLoading && ledger.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : error ? (
+          <Card className="p-6 text-center">
+            <p className="text-destructive">{error}</p>
+            <Button variant="outline" size="sm" onClick={fetchLedger} className="mt-3">
+              Try Again
+            </Button>
+          </Card>
+        ) : visibleLedger.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Package className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p>{ledger.length === 0 ? "No items are checked out" : "No matching items"}</p>
+          </div>
+        ) : (
+          visibleLedger.map(entry => (
+            <Card key={entry.idNumber} className="p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <User className="w-4 h-4 text-muted-foreground" />
+                <span className="font-medium">{entry.username}</span>
+                <Badge variant="secondary" className="text-xs">{entry.idNumber}</Badge>
+              </div>
+              <div className="divide-y">
+                {entry.items.map(item => {
+                  const days = getDaysOnLoan(item.oldestCheckedOut)
+                  const isOverdue = isHeldItemOverdue(item, loanPeriodDays)
+                  return (
+                    <div key={item.itemId} className="flex items-center justify-between gap-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Item #{item.itemId}{item.oldestCheckedOut ? ` · out since ${item.oldestCheckedOut}` : ""}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge variant="outline">x{item.quantity}</Badge>
+                        {isOverdue ? (
+                          <Badge variant="destructive" className="gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            {days} days
+                          </Badge>
+                        ) : item.oldestCheckedOut ? (
+                          <span className="text-xs text-muted-foreground">{days} days</span>
+                        ) : null}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,387 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import { RotateCcw, UserCheck, Package, Trash2, RefreshCw, AlertCircle, X, ScanLine } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Card, CardContent } from "./ui/card"
+import { Badge } from "./ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { useToast } from "../hooks/use-toast"
+import useGlobalBarcodeScanner from "../hooks/use-global-barcode-scanner"
+import { apiService } from "../lib/api_service"
+import { createIdempotencyKey, offlineOutbox } from "../lib/offline-outbox"
+import { processBarcodeInput } from "../lib/barcode-scanner"
+import type { Product } from "../lib/barcode-scanner"
+import { RETURN_CONDITION_LABELS, RESTOCKED_CONDITIONS } from "../lib/holdings"
+import type { HeldItem, ReturnCondition, ReturnLine } from "../lib/holdings"
+import type { Employee } from "../lib/Services/employees.service"
+
+interface ReturnViewProps {
+  products: Product[]
+  onRefreshData?: (() => void) | undefined
+  className?: string
+}
+
+export function ReturnView({ products, onRefreshData, className = "" }: ReturnViewProps) {
+  const [employee, setEmployee] = useState<Employee | null>(null)
+  const [holdings, setHoldings] = useState<HeldItem[]>([])
+  const [returnLines, setReturnLines] = useState<ReturnLine[]>([])
+  const [employeeInput, setEmployeeInput] = useState("")
+  const [itemInput, setItemInput] = useState("")
+  const [notes, setNotes] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isLoadingHoldings, setIsLoadingHoldings] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const loadHoldings = useCallback(async (target: Employee) => {
+    setIsLoadingHoldings(true)
+    try {
+      setHoldings(await apiService.fetchEmployeeHoldings(target))
+    } catch (err) {
+      console.error("[ReturnView] Failed to load holdings:", err)
+      setError("Could not load the items this employee holds")
+      setHoldings([])
+    } finally {
+      setIsLoadingHoldings(false)
+    }
+  }, [])
+
+  // Returns are accepted from inactive employees too - tools still have to come back
+  const resolveEmployee = useCallback(async (code: string) => {
+    const trimmed = code.trim()
+    if (!trimmed) return
+
+    setError(null)
+    try {
+      const found = await apiService.findEmployeeByIdBarcode(trimmed) ?? await apiService.findEmployeeByIdNumber(trimmed)
+      if (!found) {
+        setError(`No employee found for "${trimmed}"`)
+        return
+      }
+      setEmployee(found)
+      setEmployeeInput("")
+      setReturnLines([])
+      await loadHoldings(found)
+    } catch (err) {
+      console.error("[ReturnView] Employee lookup failed:", err)
+      setError("Employee lookup failed. Check the connection and try again.")
+    }
+  }, [loadHoldings])
+
+  const addReturnLine = useCallback((itemId: string, name: string) => {
+    const held = holdings.find(item => item.itemId === itemId)
+    const queued = returnLines.find(line => line.itemId === itemId)
+
+    if (held && queued && queued.quantity >= held.quantity) {
+      toast({ title: "Already Queued", description: `All ${held.quantity} of ${name} are already being returned`, variant: "destructive" })
+      return
+    }
+    if (!held) {
+      toast({ title: "Not On Record", description: `${name} is not checked out to ${employee?.fullName}. It will still be recorded.` })
+    }
+
+    setReturnLines(prev => queued
+      ? prev.map(line => line.itemId === itemId ? { ...line, quantity: line.quantity + 1 } : line)
+      : [...prev, { itemId, name, quantity: 1, condition: 'good', balance: products.find(product => product.id === itemId)?.balance }]
+    )
+  }, [holdings, returnLines, employee, products, toast])
+
+  const handleItemCode = useCallback((code: string) => {
+    const result = processBarcodeInput(code, products)
+    if (!result.success || !result.product) {
+      toast({ title: "Item Not Found", description: result.error || `Barcode ${code} not found in inventory`, variant: "destructive" })
+      return
+    }
+    addReturnLine(result.product.id, result.product.name)
+  }, [products, addReturnLine, toast])
+
+  // First scan identifies the employee by badge, later scans are items being returned
+  const handleReturnScan = useCallback((barcode: string) => {
+    if (isSubmitting) return true
+    if (!employee) {
+      resolveEmployee(barcode)
+    } else {
+      handleItemCode(barcode)
+    }
+    return true
+  }, [employee, isSubmitting, resolveEmployee, handleItemCode])
+
+  useGlobalBarcodeScanner(handleReturnScan, { owner: 'returns' })
+
+  const updateLine = (itemId: string, updates: Partial<Pick<ReturnLine, 'quantity' | 'condition'>>) => {
+    setReturnLines(prev => prev.map(line => line.itemId === itemId ? { ...line, ...updates } : line))
+  }
+
+  const removeLine = (itemId: string) => {
+    setReturnLines(prev => prev.filter(line => line.itemId !== itemId))
+  }
+
+  const resetEmployee = () => {
+    setEmployee(null)
+    setHoldings([])
+    setReturnLines([])
+    setNotes("")
+    setError(null)
+  }
+
+  const handleConfirmReturn = async () => {
+    if (!employee || returnLines.length === 0) return
+
+    setIsSubmitting(true)
+    try {
+      // Shared with the outbox, so replaying a log the server did record is ignored
+      const idempotencyKey = createIdempotencyKey()
+      const { failedItems, unlogged } = await apiService.processReturn(employee, returnLines, notes, { idempotencyKey })
+      const totalItems = returnLines.reduce((sum, line) => sum + line.quantity, 0)
+
+      if (unlogged) {
+        // Stock is already back; retry the log rather than asking for the items again
+        await offlineOutbox.enqueueReturn(unlogged.transaction, idempotencyKey)
+        toast({
+          title: "Return Not Yet Logged",
+          description: `Stock was updated${failedItems.length > 0 ? ` (except ${failedItems.join(', ')})` : ''}, but the return could not be logged and has been queued for sync. Until it syncs the items still show as on loan; do not return them again.`,
+          variant: "destructive",
+        })
+      } else if (failedItems.length > 0) {
+        toast({
+          title: "Return Partially Recorded",
+          description: `Stock could not be updated for: ${failedItems.join(', ')}. These items are still on loan; try returning them again.`,
+          variant: "destructive",
+        })
+      } else {
+        toast({ title: "Return Recorded", description: `${totalItems} items checked in from ${employee.fullName}` })
+      }
+
+      setReturnLines([])
+      setNotes("")
+      await loadHoldings(employee)
+      onRefreshData?.()
+    } catch (err) {
+      console.error("[ReturnView] Return failed:", err)
+      toast({ title: "Return Failed", description: "Could not record the return. Please try again.", variant: "destructive" })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const getQueuedQuantity = (itemId: string) => returnLines.find(line => line.itemId === itemId)?.quantity ?? 0
+
+  return (
+    <div className={`py-4 space-y-4 ${className}`}>
+      <div className="flex items-center gap-3">
+        <div className="flex items-center justify-center w-10 h-10 rounded-xl bg-secondary/10">
+          <RotateCcw className="w-5 h-5 text-secondary" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-foreground">Tool Returns</h2>
+          <p className="text-sm text-muted-foreground">
+            {employee ? "Scan items to check them back in" : "Scan an employee badge to start a return"}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-destructive/30 bg-destructive/10">
+          <CardContent className="p-4 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 mt-0.5 shrink-0 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!employee ? (
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div className="text-center">
+              <div className="inline-flex items-center justify-center w-12 h-12 rounded-xl bg-secondary/10 mb-3">
+                <UserCheck className="w-6 h-6 text-secondary" />
+              </div>
+              <h3 className="text-lg font-semibold text-foreground">Identify Employee</h3>
+              <p className="text-sm text-muted-foreground mt-1">Scan the ID badge or enter the ID number</p>
+            </div>
+            <form
+              className="flex gap-2 max-w-md mx-auto"
+              onSubmit={(e) => {
+                e.preventDefault()
+                resolveEmployee(employeeInput)
+              }}
+            >
+              <Input
+                placeholder="Employee ID number..."
+                value={employeeInput}
+                onChange={(e) => setEmployeeInput(e.target.value)}
+                className="h-11 text-center font-mono"
+                autoComplete="off"
+              />
+              <Button type="submit" className="h-11" disabled={!employeeInput.trim()}>
+                Find
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Employee */}
+          <Card className="bg-success/10 border-success/30">
+            <CardContent className="p-4 flex items-center gap-4">
+              <div className="flex items-center justify-center w-12 h-12 rounded-full bg-success text-success-foreground font-bold text-lg shrink-0">
+                {employee.fullName[0] ?? 'E'}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-success truncate">{employee.fullName}</p>
+                <p className="text-sm text-success/80 truncate">{employee.department}</p>
+                <p className="text-xs text-success/70 mt-1">ID: {employee.idNumber}</p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={resetEmployee} disabled={isSubmitting}>
+                <X className="w-4 h-4 mr-1" />
+                Change
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {/* Currently held */}
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-foreground">Currently Held</h3>
+                  <Button variant="ghost" size="sm" onClick={() => loadHoldings(employee)} disabled={isLoadingHoldings}>
+                    <RefreshCw className={`w-4 h-4 ${isLoadingHoldings ? "animate-spin" : ""}`} />
+                  </Button>
+                </div>
+                {isLoadingHoldings && holdings.length === 0 ? (
+                  <div className="flex items-center justify-center h-20">
+                    <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                  </div>
+                ) : holdings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4 text-center">No items on record for this employee</p>
+                ) : (
+                  <div className="space-y-2">
+                    {holdings.map(item => {
+                      const queued = getQueuedQuantity(item.itemId)
+                      return (
+                        <div key={item.itemId} className="flex items-center gap-3 p-2 rounded-lg border border-border">
+                          <Package className="w-4 h-4 text-muted-foreground shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">{item.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Qty {item.quantity}{item.oldestCheckedOut ? ` · since ${item.oldestCheckedOut}` : ""}
+                            </p>
+                          </div>
+                          {queued > 0 && <Badge variant="secondary">{queued} queued</Badge>}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => addReturnLine(item.itemId, item.name)}
+                            disabled={queued >= item.quantity || isSubmitting}
+                          >
+                            Return
+                          </Button>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Items being returned */}
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <h3 className="font-semibold text-foreground">Returning</h3>
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    if (itemInput.trim()) handleItemCode(itemInput.trim())
+                    setItemInput("")
+                  }}
+                >
+                  <Input
+                    placeholder="Scan or enter item barcode..."
+                    value={itemInput}
+                    onChange={(e) => setItemInput(e.target.value)}
+                    className="font-mono"
+                    autoComplete="off"
+                  />
+                  <Button type="submit" variant="outline" disabled={!itemInput.trim()}>
+                    <ScanLine className="w-4 h-4" />
+                  </Button>
+                </form>
+
+                {returnLines.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4 text-center">Scan items to add them to this return</p>
+                ) : (
+                  <div className="space-y-2">
+                    {returnLines.map(line => {
+                      const held = holdings.find(item => item.itemId === line.itemId)
+                      return (
+                        <div key={line.itemId} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border border-border">
+                          <div className="flex-1 min-w-[8rem]">
+                            <p className="text-sm font-medium truncate">{line.name}</p>
+                            {!held && <p className="text-xs text-amber-600 dark:text-amber-400">Not on record</p>}
+                          </div>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={held?.quantity}
+                            value={line.quantity}
+                            onChange={(e) => {
+                              const quantity = Math.max(1, parseInt(e.target.value) || 1)
+                              updateLine(line.itemId, { quantity: held ? Math.min(quantity, held.quantity) : quantity })
+                            }}
+                            className="w-20 h-9"
+                          />
+                          <Select
+                            value={line.condition}
+                            onValueChange={(value) => updateLine(line.itemId, { condition: value as ReturnCondition })}
+                          >
+                            <SelectTrigger className="w-28 h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(RETURN_CONDITION_LABELS) as ReturnCondition[]).map(condition => (
+                                <SelectItem key={condition} value={condition}>
+                                  {RETURN_CONDITION_LABELS[condition]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button variant="ghost" size="sm" onClick={() => removeLine(line.itemId)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+
+                {returnLines.some(line => !RESTOCKED_CONDITIONS.includes(line.condition)) && (
+                  <p className="text-xs text-muted-foreground">
+                    Damaged and lost items are logged but not added back to stock.
+                  </p>
+                )}
+
+                <Input
+                  placeholder="Notes (optional)"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+                <Button
+                  className="w-full"
+                  onClick={handleConfirmReturn}
+                  disabled={returnLines.length === 0 || isSubmitting}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  {isSubmitting ? "Recording..." : "Confirm Return"}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { getSortOptions, isSortOptionId, SORT_REGISTRY } from '../lib/sort-registry'
+import type { SortOptionId, SortScope } from '../lib/sort-registry'
+
+// Select value standing for "no secondary order"
+const NO_SORT = 'none'
+
+interface SortSelectProps {
+  scope: SortScope
+  value: SortOptionId | null
+  onChange: (value: SortOptionId | null) => void
+  // Offer "None" (for secondary orders)
+  allowNone?: boolean
+  // Left out of the menu, e.g. the primary order in a "Then By" select
+  exclude?: SortOptionId | undefined
+  // Short labels, for narrow toolbars
+  compact?: boolean
+  className?: string
+  placeholder?: string
+}
+
+/**
+ * Sort order picker listing the registry's options for one part of the app
+ */
+export function SortSelect({
+  scope,
+  value,
+  onChange,
+  allowNone = false,
+  exclude,
+  compact = false,
+  className = 'w-full',
+  placeholder,
+}: SortSelectProps) {
+  const options = getSortOptions(scope).filter(id => id !== exclude)
+  const itemClassName = compact ? 'text-xs' : undefined
+
+  return (
+    <Select
+      value={value ?? NO_SORT}
+      onValueChange={(next) => onChange(isSortOptionId(next) ? next : null)}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowNone && <SelectItem value={NO_SORT} className={itemClassName}>None</SelectItem>}
+        {options.map(id => (
+          <SelectItem key={id} value={id} className={itemClassName}>
+            {compact ? SORT_REGISTRY[id].shortLabel : SORT_REGISTRY[id].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
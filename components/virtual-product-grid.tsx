@@ -0,0 +1,185 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Check } from 'lucide-react'
+import type { Product } from '../lib/barcode-scanner'
+import { useGridColumns, useWindowVirtualizer } from '../hooks/use-window-virtualizer'
+
+interface VirtualProductGridProps {
+  products: Product[]
+  viewMode: 'grid' | 'list'
+  renderProduct: (product: Product) => React.ReactNode
+  onOpenProduct: (product: Product) => void
+  isSelected: (productId: string) => boolean
+  onToggleSelected: (productId: string) => void
+  // False while the dashboard is hidden behind another view
+  isActive?: boolean
+}
+
+// Starting guesses until a real row is measured (card plus the gap below it)
+const ESTIMATED_ROW_HEIGHT = { grid: 340, list: 92 }
+
+/**
+ * Product grid/list that only mounts the rows near the viewport, so catalogues with
+ * thousands of items stay responsive. Arrow keys, Home/End and Page Up/Down move between
+ * items, Enter opens one and Space adds it to (or removes it from) the bulk selection.
+ */
+export function VirtualProductGrid({
+  products,
+  viewMode,
+  renderProduct,
+  onOpenProduct,
+  isSelected,
+  onToggleSelected,
+  isActive = true,
+}: VirtualProductGridProps) {
+  const columns = useGridColumns(viewMode)
+  const {
+    containerRef,
+    measureRowRef,
+    startRow,
+    endRow,
+    rowCount,
+    rowHeight,
+    totalHeight,
+    rowsPerPage,
+    scrollToIndex,
+  } = useWindowVirtualizer({
+    itemCount: products.length,
+    columns,
+    estimatedRowHeight: ESTIMATED_ROW_HEIGHT[viewMode],
+    isActive,
+  })
+
+  // Roving focus: only the active item is in the tab order
+  const [activeIndex, setActiveIndex] = useState(0)
+  const pendingFocusRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    if (activeIndex >= products.length) setActiveIndex(0)
+  }, [products.length, activeIndex])
+
+  // Focus a keyboard target once its row has been rendered
+  useEffect(() => {
+    const index = pendingFocusRef.current
+    if (index === null) return
+
+    const cell = containerRef.current?.querySelector<HTMLElement>(`[data-index="${index}"]`)
+    if (cell) {
+      cell.focus({ preventScroll: true })
+      pendingFocusRef.current = null
+    }
+  }, [activeIndex, startRow, endRow, containerRef])
+
+  const moveTo = (index: number) => {
+    const target = Math.max(0, Math.min(products.length - 1, index))
+    pendingFocusRef.current = target
+    setActiveIndex(target)
+    scrollToIndex(target)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement
+    if (target.closest('input, textarea, select') || !target.closest('[role="gridcell"]')) return
+
+    switch (e.key) {
+      case 'ArrowRight':
+        moveTo(activeIndex + 1)
+        break
+      case 'ArrowLeft':
+        moveTo(activeIndex - 1)
+        break
+      case 'ArrowDown':
+        moveTo(activeIndex + columns)
+        break
+      case 'ArrowUp':
+        moveTo(activeIndex - columns)
+        break
+      case 'PageDown':
+        moveTo(activeIndex + rowsPerPage * columns)
+        break
+      case 'PageUp':
+        moveTo(activeIndex - rowsPerPage * columns)
+        break
+      case 'Home':
+        moveTo(0)
+        break
+      case 'End':
+        moveTo(products.length - 1)
+        break
+      case 'Enter':
+      case ' ': {
+        // Buttons inside the card keep their own Enter/Space behaviour
+        if (target.getAttribute('role') !== 'gridcell') return
+        const product = products[activeIndex]
+        if (!product) return
+        if (e.key === 'Enter') {
+          onOpenProduct(product)
+        } else {
+          onToggleSelected(product.id)
+        }
+        break
+      }
+      default:
+        return
+    }
+    e.preventDefault()
+  }
+
+  const rows: number[] = []
+  for (let row = startRow; row < endRow; row++) rows.push(row)
+
+  return (
+    <div className="pb-6">
+      <div
+        ref={containerRef}
+        role="grid"
+        aria-rowcount={rowCount}
+        aria-colcount={columns}
+        aria-multiselectable="true"
+        onKeyDown={handleKeyDown}
+        className="relative"
+        style={{ height: totalHeight }}
+      >
+        <div className="absolute inset-x-0 top-0" style={{ transform: `translateY(${startRow * rowHeight}px)` }}>
+          {rows.map(row => (
+            <div
+              key={row}
+              ref={row === startRow ? measureRowRef : undefined}
+              role="row"
+              aria-rowindex={row + 1}
+              className={viewMode === 'grid' ? 'grid gap-3 md:gap-4 pb-3 md:pb-4' : 'grid pb-3'}
+              style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            >
+              {products.slice(row * columns, (row + 1) * columns).map((product, column) => {
+                const index = row * columns + column
+                const selected = isSelected(product.id)
+                return (
+                  <div
+                    key={product.id}
+                    role="gridcell"
+                    data-index={index}
+                    tabIndex={index === activeIndex ? 0 : -1}
+                    aria-selected={selected}
+                    aria-label={product.name}
+                    onFocus={() => setActiveIndex(index)}
+                    className={`relative rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-teal-500 focus-visible:ring-offset-2 ${
+                      selected ? 'ring-2 ring-teal-500' : ''
+                    }`}
+                  >
+                    {renderProduct(product)}
+                    {selected && (
+                      <div className="absolute top-2 left-2 z-10 w-5 h-5 rounded-full bg-teal-500 text-white flex items-center justify-center shadow pointer-events-none">
+                        <Check className="w-3 h-3" />
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
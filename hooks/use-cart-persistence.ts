@@ -17,6 +17,7 @@ import {
   importCartData
 } from '../lib/cart-persistence'
 import type { Product } from '../lib/barcode-scanner'
+import { tabSync } from '../lib/tab-sync'
 import { useToast } from './use-toast'
 
 export interface UseCartPersistenceReturn {
@@ -243,6 +244,11 @@ export function useCartPersistence(): UseCartPersistenceReturn {
     setHistory(updatedHistory)
   }, [])
 
+  // Another tab edited the cart
+  useEffect(() => {
+    return tabSync.subscribe('cart_changed', refreshCart)
+  }, [refreshCart])
+
   const getCartSummary = useCallback(() => {
     if (!cartState) {
       return { itemCount: 0, totalValue: 0, sessionAge: 'No active cart' }
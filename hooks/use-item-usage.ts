@@ -0,0 +1,38 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { apiService } from '../lib/api_service'
+import type { ItemUsageMap } from '../lib/item-usage'
+import { useInventorySync } from './useInventorySync'
+
+/**
+ * Checkout history per item for the history-based sort orders. Only loaded once `enabled`
+ * (one of those orders is selected), then refreshed whenever a checkout is logged.
+ * Null until loaded; items are sorted without history in the meantime.
+ */
+export function useItemUsage(enabled: boolean): ItemUsageMap | null {
+  const [usage, setUsage] = useState<ItemUsageMap | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let isCurrent = true
+    apiService.fetchItemUsage()
+      .then(result => {
+        if (isCurrent) setUsage(result)
+      })
+      .catch(error => {
+        console.error('[ItemUsage] Failed to load checkout history:', error)
+      })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [enabled, refreshKey])
+
+  const handleCheckout = useCallback(() => setRefreshKey(key => key + 1), [])
+  useInventorySync({ onCheckout: handleCheckout, enabled })
+
+  return usage
+}
@@ -2,6 +2,10 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useToast } from './use-toast'
+import { offlineOutbox, OUTBOX_CHANGED_EVENT } from '../lib/offline-outbox'
+import type { DeadLetterEntry, OutboxEntry, OutboxSnapshot, OutboxSyncProgress } from '../lib/offline-outbox'
+import env from '../lib/env'
+import type { EnhancedTransactionData } from '../lib/Services/transactions.service'
 
 interface OfflineData {
   products: any[]
@@ -16,6 +20,9 @@ interface SyncStatus {
   hasOfflineData: boolean
   lastSync: Date | null
   syncInProgress: boolean
+  // Replay of queued checkouts, by the page or the service worker
+  syncProgress: OutboxSyncProgress | null
+  lastOutboxSync: Date | null
   cacheStatus: {
     api: number
     static: number
@@ -24,17 +31,33 @@ interface SyncStatus {
   } | null
 }
 
-interface OfflineQueue {
-  id: string
-  type: 'cart_add' | 'cart_update' | 'cart_remove' | 'checkout'
-  data: any
-  timestamp: number
-  retries: number
-}
-
 const OFFLINE_STORAGE_KEY = 'toolbox-offline-data'
-const OFFLINE_QUEUE_KEY = 'toolbox-offline-queue'
-const MAX_RETRIES = 3
+// Queue from before the IndexedDB outbox; its entries were never sent and are discarded
+const LEGACY_OFFLINE_QUEUE_KEY = 'toolbox-offline-queue'
+const SERVICE_WORKER_URL = '/sw.js'
+
+// Shared by every hook instance so the worker is registered once per page
+let serviceWorkerRegistration: Promise<ServiceWorkerRegistration | null> | null = null
+
+/**
+ * Register public/sw.js, which caches API responses and replays queued checkouts in the background
+ */
+function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (serviceWorkerRegistration) return serviceWorkerRegistration
+
+  serviceWorkerRegistration = navigator.serviceWorker.register(SERVICE_WORKER_URL)
+    .then(() => navigator.serviceWorker.ready)
+    .then(async (registration) => {
+      console.log('[Offline] Service worker ready:', registration.scope)
+      await offlineOutbox.registerPeriodicSync(registration)
+      return registration
+    })
+    .catch((error) => {
+      console.error('[Offline] Service worker registration failed:', error)
+      return null
+    })
+  return serviceWorkerRegistration
+}
 
 export function useOfflineManager() {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
@@ -43,10 +66,13 @@ export function useOfflineManager() {
     hasOfflineData: false,
     lastSync: null,
     syncInProgress: false,
+    syncProgress: null,
+    lastOutboxSync: null,
     cacheStatus: null
   })
   
-  const [offlineQueue, setOfflineQueue] = useState<OfflineQueue[]>([])
+  const [pendingActions, setPendingActions] = useState<OutboxEntry[]>([])
+  const [deadLetters, setDeadLetters] = useState<DeadLetterEntry[]>([])
   const { toast } = useToast()
 
   // Check if we're online/offline
@@ -79,14 +105,28 @@ export function useOfflineManager() {
     window.addEventListener('online', updateOnlineStatus)
     window.addEventListener('offline', updateOnlineStatus)
 
-    // Register service worker - DISABLED due to API connection issues
-    // if ('serviceWorker' in navigator) {
-    //   registerServiceWorker()
-    // }
-    console.log('[Offline] Service worker disabled to fix API connection issues')
+    // Service worker is opt-in (NEXT_PUBLIC_ENABLE_SERVICE_WORKER): its API caching caused connection issues
+    if (env.ENABLE_SERVICE_WORKER && 'serviceWorker' in navigator) {
+      registerServiceWorker().then((registration) => {
+        setSyncStatus(prev => ({ ...prev, isServiceWorkerReady: registration !== null }))
+      })
+    }
 
-    // Load offline queue from localStorage
-    loadOfflineQueue()
+    // Mirror the outbox, which lives outside React and may change from any view
+    const applySnapshot = (snapshot: OutboxSnapshot) => {
+      setPendingActions(snapshot.pending)
+      setDeadLetters(snapshot.deadLetters)
+      setSyncStatus(prev => ({
+        ...prev,
+        syncInProgress: snapshot.isFlushing,
+        syncProgress: snapshot.progress,
+        lastOutboxSync: snapshot.lastSyncedAt ? new Date(snapshot.lastSyncedAt) : null
+      }))
+    }
+    const handleOutboxChanged = (event: Event) => applySnapshot((event as CustomEvent<OutboxSnapshot>).detail)
+    window.addEventListener(OUTBOX_CHANGED_EVENT, handleOutboxChanged)
+    offlineOutbox.getSnapshot().then(applySnapshot)
+    localStorage.removeItem(LEGACY_OFFLINE_QUEUE_KEY)
 
     // Check for existing offline data
     checkOfflineDataStatus()
@@ -94,11 +134,10 @@ export function useOfflineManager() {
     return () => {
       window.removeEventListener('online', updateOnlineStatus)
       window.removeEventListener('offline', updateOnlineStatus)
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, handleOutboxChanged)
     }
   }, [updateOnlineStatus])
 
-  // Service worker disabled to fix API connection issues
-
   // Store data for offline use
   const storeOfflineData = useCallback((type: 'products' | 'employees', data: any[]) => {
     try {
@@ -143,115 +182,31 @@ export function useOfflineManager() {
     }
   }, [])
 
-  // Add action to offline queue
-  const queueOfflineAction = useCallback((
-    type: OfflineQueue['type'],
-    data: any
-  ) => {
-    const queueItem: OfflineQueue = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      type,
-      data,
-      timestamp: Date.now(),
-      retries: 0
-    }
-
-    const newQueue = [...offlineQueue, queueItem]
-    setOfflineQueue(newQueue)
-    
-    try {
-      localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(newQueue))
-      console.log('[Offline] Queued action:', type, queueItem.id)
-    } catch (error) {
-      console.error('[Offline] Failed to save queue:', error)
-    }
-  }, [offlineQueue])
+  // Queue a checkout to be sent when the connection returns
+  const queueCheckout = useCallback(async (transaction: EnhancedTransactionData) => {
+    const entry = await offlineOutbox.enqueueCheckout(transaction)
+    console.log('[Offline] Queued checkout:', entry.id)
+    return entry
+  }, [])
 
-  // Process offline queue when connection returns
+  // Send queued checkouts now (also happens automatically when back online)
   const processOfflineQueue = useCallback(async () => {
-    if (!syncStatus.isOnline || offlineQueue.length === 0 || syncStatus.syncInProgress) {
-      return
-    }
-
-    setSyncStatus(prev => ({ ...prev, syncInProgress: true }))
-
-    try {
-      const processedIds: string[] = []
-      
-      for (const item of offlineQueue) {
-        try {
-          await processQueueItem(item)
-          processedIds.push(item.id)
-          console.log('[Offline] Processed queue item:', item.id, item.type)
-        } catch (error) {
-          console.error('[Offline] Failed to process queue item:', item.id, error)
-          
-          // Increment retry count
-          item.retries++
-          
-          // Remove if max retries reached
-          if (item.retries >= MAX_RETRIES) {
-            processedIds.push(item.id)
-            console.log('[Offline] Max retries reached for:', item.id)
-          }
-        }
-      }
-
-      // Remove processed items from queue
-      const remainingQueue = offlineQueue.filter(item => !processedIds.includes(item.id))
-      setOfflineQueue(remainingQueue)
-      localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(remainingQueue))
-
-      if (processedIds.length > 0) {
-        toast({
-          title: "✅ Sync Complete",
-          description: `Processed ${processedIds.length} offline actions.`,
-        })
-      }
+    const { sent, delegated } = await offlineOutbox.flush()
 
-    } finally {
-      setSyncStatus(prev => ({ ...prev, syncInProgress: false }))
-    }
-  }, [syncStatus.isOnline, syncStatus.syncInProgress, offlineQueue, toast])
-
-  // Process individual queue item
-  const processQueueItem = async (item: OfflineQueue) => {
-    switch (item.type) {
-      case 'cart_add':
-        // Process cart addition - would integrate with your cart system
-        console.log('[Offline] Processing cart add:', item.data)
-        break
-        
-      case 'cart_update':
-        // Process cart update
-        console.log('[Offline] Processing cart update:', item.data)
-        break
-        
-      case 'cart_remove':
-        // Process cart removal
-        console.log('[Offline] Processing cart remove:', item.data)
-        break
-        
-      case 'checkout':
-        // Process checkout - would need API integration
-        console.log('[Offline] Processing checkout:', item.data)
-        break
+    // Service worker replays report back through syncStatus.syncProgress instead
+    if (!delegated && sent > 0) {
+      toast({
+        title: "✅ Sync Complete",
+        description: `Sent ${sent} queued checkout${sent === 1 ? '' : 's'}.`,
+      })
     }
-  }
+  }, [toast])
 
-  // Load offline queue from storage
-  const loadOfflineQueue = () => {
-    try {
-      const stored = localStorage.getItem(OFFLINE_QUEUE_KEY)
-      if (stored) {
-        const queue = JSON.parse(stored)
-        setOfflineQueue(queue)
-        console.log(`[Offline] Loaded ${queue.length} queued actions`)
-      }
-    } catch (error) {
-      console.error('[Offline] Failed to load offline queue:', error)
-    }
-  }
+  // Move a failed checkout back into the queue
+  const retryDeadLetter = useCallback((id: string) => offlineOutbox.retryDeadLetter(id), [])
+
+  // Drop a failed checkout for good
+  const discardDeadLetter = useCallback((id: string) => offlineOutbox.discardDeadLetter(id), [])
 
   // Check if offline data exists
   const checkOfflineDataStatus = () => {
@@ -300,7 +255,7 @@ export function useOfflineManager() {
     try {
       // Clear localStorage
       localStorage.removeItem(OFFLINE_STORAGE_KEY)
-      localStorage.removeItem(OFFLINE_QUEUE_KEY)
+      await offlineOutbox.clear()
       
       // Clear service worker caches
       if (navigator.serviceWorker.controller) {
@@ -321,7 +276,6 @@ export function useOfflineManager() {
       }
 
       // Reset state
-      setOfflineQueue([])
       setSyncStatus(prev => ({
         ...prev,
         hasOfflineData: false,
@@ -368,15 +322,19 @@ export function useOfflineManager() {
   return {
     // Status
     syncStatus,
-    offlineQueue: offlineQueue.length,
+    offlineQueue: pendingActions.length,
+    pendingActions,
+    deadLetters,
     
     // Data management
     storeOfflineData,
     getOfflineData,
     
     // Queue management  
-    queueOfflineAction,
+    queueCheckout,
     processOfflineQueue,
+    retryDeadLetter,
+    discardDeadLetter,
     
     // Cache management
     getCacheStatus,
@@ -1,5 +1,11 @@
 import { useEffect, useState, useCallback, useRef } from 'react'
 import env from '../lib/env'
+import { apiService } from '../lib/api_service'
+import { tabSync } from '../lib/tab-sync'
+import { REALTIME_EVENTS, diffItems, diffLogs, getLogKey, indexItems } from '../lib/realtime-events'
+import type { ItemSnapshot, RealtimeChange } from '../lib/realtime-events'
+import { RECENT_LOGS_LIMIT } from '../lib/Services/realtime.service'
+import type { ConditionalValidators } from '../lib/Services/realtime.service'
 
 interface RealtimeEventData {
   [key: string]: any
@@ -11,17 +17,102 @@ interface RealtimeEvent {
   timestamp: number
 }
 
-// Mock polling manager for Toolbox Demo
+// Polling backs off to this interval after repeated failures
+const MAX_POLL_INTERVAL_MS = 5 * 60 * 1000
+
+// After the event stream fails, polling takes over and the stream is retried on a backoff
+const STREAM_RETRY_BASE_MS = 30 * 1000
+const STREAM_RETRY_MAX_MS = 15 * 60 * 1000
+
+// 'tab': another tab is the leader and relays its events to this one
+export type RealtimeTransport = 'idle' | 'sse' | 'polling' | 'tab'
+
+export interface RealtimeConnectionStatus {
+  connected: boolean
+  transport: RealtimeTransport
+  error: string | null
+}
+
+/**
+ * Live update transport: Server-Sent Events from the API when available, otherwise
+ * conditional polling of /api/items and /api/employee-logs diffed into the same events
+ * (item_created / item_updated / item_deleted / stock_updated / log_created).
+ * With several tabs open only the leader tab (see tabSync) connects; it relays events to the others.
+ */
 class ToolboxPollingManager {
+  private apiUrl: string | undefined
   private isReady = false
+  private isLeader = false
+  private tabUnsubscribers: (() => void)[] = []
   private eventListeners: Map<string, ((data: any) => void)[]> = new Map()
-
-  constructor(_apiUrl: string) { /* apiUrl unused in demo mode */ }
+  private statusListeners: Set<(status: RealtimeConnectionStatus) => void> = new Set()
+  private status: RealtimeConnectionStatus = { connected: false, transport: 'idle', error: null }
+
+  private eventSource: EventSource | null = null
+  private streamEvents: Set<string> = new Set()
+  private streamFailures = 0
+  private streamRetryAt = 0
+
+  private pollTimer: ReturnType<typeof setTimeout> | null = null
+  private isPolling = false
+  private pollFailures = 0
+  private itemSnapshot: ItemSnapshot | null = null
+  private seenLogKeys: Set<string> | null = null
+  private itemValidators: ConditionalValidators = {}
+  private logValidators: ConditionalValidators = {}
+
+  constructor(apiUrl?: string) {
+    this.apiUrl = apiUrl
+  }
 
   initialize() {
     if (this.isReady) return
     this.isReady = true
-    console.log('📡 [Demo] Mock polling manager initialized')
+    console.log('[Realtime] Starting live updates')
+
+    this.tabUnsubscribers = [
+      tabSync.subscribe('realtime_event', ({ event, data }) => {
+        if (!this.isLeader) this.notifyListeners(event, data)
+      }),
+      tabSync.subscribe('realtime_status', ({ connected, error }) => {
+        if (!this.isLeader) this.setStatus({ connected, transport: 'tab', error })
+      }),
+      // Another tab changed stock itself; reload without waiting for the next poll
+      tabSync.subscribe('inventory_changed', ({ reason }) => {
+        this.notifyListeners(REALTIME_EVENTS.inventoryRefresh, { reason, timestamp: Date.now() })
+      }),
+      tabSync.onLeadershipChange(isLeader => this.handleLeadershipChange(isLeader)),
+    ]
+  }
+
+  private handleLeadershipChange(isLeader: boolean) {
+    this.isLeader = isLeader
+    if (isLeader) {
+      console.log('[Realtime] Leader tab, connecting')
+      this.poll()
+      return
+    }
+
+    this.stopTransport()
+    this.setStatus({ connected: false, transport: 'tab', error: null })
+  }
+
+  /**
+   * Start over against a different API server (snapshots from the old one are meaningless)
+   */
+  setApiUrl(apiUrl: string) {
+    if (apiUrl === this.apiUrl) return
+    this.apiUrl = apiUrl
+
+    const wasReady = this.isReady
+    this.disconnect()
+    this.itemSnapshot = null
+    this.seenLogKeys = null
+    this.itemValidators = {}
+    this.logValidators = {}
+    this.streamFailures = 0
+    this.streamRetryAt = 0
+    if (wasReady) this.initialize()
   }
 
   private notifyListeners(event: string, data: any) {
@@ -35,11 +126,28 @@ class ToolboxPollingManager {
     })
   }
 
+  /**
+   * Deliver an event received from the transport, here and in every follower tab
+   */
+  private emit(event: string, data: any) {
+    this.notifyListeners(event, data)
+    tabSync.publish({ type: 'realtime_event', event, data })
+  }
+
+  private setStatus(status: RealtimeConnectionStatus) {
+    this.status = status
+    this.statusListeners.forEach(listener => listener(status))
+    if (this.isLeader && status.transport !== 'idle') {
+      tabSync.publish({ type: 'realtime_status', connected: status.connected, error: status.error })
+    }
+  }
+
   subscribeToUpdates(event: string, callback: (data: any) => void) {
     if (!this.eventListeners.has(event)) {
       this.eventListeners.set(event, [])
     }
     this.eventListeners.get(event)!.push(callback)
+    this.listenOnStream(event)
 
     return () => {
       const listeners = this.eventListeners.get(event) || []
@@ -50,25 +158,187 @@ class ToolboxPollingManager {
     }
   }
 
-  disconnect() {/* No-op in demo mode */}
+  subscribeToStatus(callback: (status: RealtimeConnectionStatus) => void) {
+    this.statusListeners.add(callback)
+    callback(this.status)
+    return () => {
+      this.statusListeners.delete(callback)
+    }
+  }
+
+  /**
+   * Ask every listener in this tab to reload, and poll immediately when polling
+   */
+  refresh() {
+    this.notifyListeners(REALTIME_EVENTS.inventoryRefresh, { reason: 'manual', timestamp: Date.now() })
+    if (this.status.transport === 'polling') this.poll()
+  }
+
+  disconnect() {
+    this.isReady = false
+    this.tabUnsubscribers.forEach(unsubscribe => unsubscribe())
+    this.tabUnsubscribers = []
+    this.stopTransport()
+    this.setStatus({ connected: false, transport: 'idle', error: null })
+    this.isLeader = false
+  }
+
+  private stopTransport() {
+    this.eventSource?.close()
+    this.eventSource = null
+    this.streamEvents.clear()
+    if (this.pollTimer) clearTimeout(this.pollTimer)
+    this.pollTimer = null
+  }
 
   get isSocketConnected() {
-    return true // Always "connected" in demo mode
+    return this.status.connected
   }
 
-  // Mock method to simulate events for demo purposes
-  simulateEvent(event: string, data: any) {
-    console.log(`📡 [Demo] Simulating event: ${event}`, data)
-    this.notifyListeners(event, data)
+  // ========================================
+  // SERVER-SENT EVENTS
+  // ========================================
+
+  private getEventStreamUrl(): string | null {
+    if (Date.now() < this.streamRetryAt || typeof EventSource === 'undefined' || !apiService.isConnected()) return null
+    return apiService.getEventStreamUrl()
+  }
+
+  private connectEventStream(url: string) {
+    console.log('[Realtime] Connecting to event stream:', url)
+    // EventSource cannot send auth headers; the stream relies on cookies (withCredentials)
+    const source = new EventSource(url, { withCredentials: true })
+    let hasOpened = false
+
+    source.onopen = () => {
+      // After an interruption (or a spell of polling) events may have been missed
+      if (hasOpened || this.streamFailures > 0) this.emit(REALTIME_EVENTS.inventoryRefresh, { reason: 'reconnected', timestamp: Date.now() })
+      hasOpened = true
+      this.streamFailures = 0
+      this.setStatus({ connected: true, transport: 'sse', error: null })
+    }
+    // Unnamed messages carry { event, data }
+    source.onmessage = (message) => this.handleStreamMessage(undefined, message.data)
+    source.onerror = () => {
+      if (hasOpened && source.readyState !== EventSource.CLOSED) {
+        // EventSource reconnects by itself
+        this.setStatus({ connected: false, transport: 'sse', error: 'Event stream interrupted, reconnecting' })
+        return
+      }
+
+      this.streamFailures++
+      const retryDelay = Math.min(STREAM_RETRY_BASE_MS * 2 ** (this.streamFailures - 1), STREAM_RETRY_MAX_MS)
+      console.warn(`[Realtime] Event stream unavailable, polling and retrying the stream in ${Math.round(retryDelay / 1000)}s`)
+      source.close()
+      this.eventSource = null
+      this.streamEvents.clear()
+      this.streamRetryAt = Date.now() + retryDelay
+      this.setStatus({ connected: false, transport: 'polling', error: null })
+      this.poll()
+    }
+
+    this.eventSource = source
+    Object.values(REALTIME_EVENTS).forEach(event => this.listenOnStream(event))
+    this.eventListeners.forEach((_listeners, event) => this.listenOnStream(event))
+  }
+
+  /**
+   * Named SSE events are only delivered to explicit listeners
+   */
+  private listenOnStream(event: string) {
+    if (!this.eventSource || this.streamEvents.has(event)) return
+    this.streamEvents.add(event)
+    this.eventSource.addEventListener(event, (message) => this.handleStreamMessage(event, (message as MessageEvent).data))
+  }
+
+  private handleStreamMessage(event: string | undefined, raw: string) {
+    let payload: any
+    try {
+      payload = raw ? JSON.parse(raw) : {}
+    } catch {
+      console.warn('[Realtime] Ignoring malformed event:', raw)
+      return
+    }
+
+    if (event) {
+      this.emit(event, payload)
+    } else if (typeof payload?.event === 'string') {
+      this.emit(payload.event, payload.data ?? {})
+    }
+  }
+
+  // ========================================
+  // POLLING FALLBACK
+  // ========================================
+
+  private schedulePoll() {
+    if (this.pollTimer) clearTimeout(this.pollTimer)
+    const delay = Math.min(env.REALTIME_POLL_INTERVAL_MS * 2 ** this.pollFailures, MAX_POLL_INTERVAL_MS)
+    this.pollTimer = setTimeout(() => this.poll(), delay)
+  }
+
+  private async poll() {
+    if (!this.isReady || !this.isLeader || this.isPolling || this.eventSource) return
+    if (this.pollTimer) clearTimeout(this.pollTimer)
+    this.pollTimer = null
+
+    // Prefer the event stream once the API is reachable
+    const streamUrl = this.getEventStreamUrl()
+    if (streamUrl) {
+      this.connectEventStream(streamUrl)
+      return
+    }
+
+    // Nothing to poll until the API is configured, and no point while the tab is hidden
+    if ((!env.DEMO_MODE && !apiService.isConnected()) || (typeof document !== 'undefined' && document.hidden)) {
+      this.setStatus({ ...this.status, transport: 'polling' })
+      this.schedulePoll()
+      return
+    }
+
+    this.isPolling = true
+    try {
+      const [items, logs] = await Promise.all([
+        apiService.fetchItemsIfChanged(this.itemValidators),
+        apiService.fetchRecentLogsIfChanged(this.logValidators),
+      ])
+
+      // The first poll only records a baseline
+      const changes: RealtimeChange[] = []
+      if (!items.notModified) {
+        if (this.itemSnapshot) changes.push(...diffItems(this.itemSnapshot, items.data))
+        this.itemSnapshot = indexItems(items.data)
+        this.itemValidators = items.validators
+      }
+      if (!logs.notModified) {
+        if (this.seenLogKeys) changes.push(...diffLogs(this.seenLogKeys, logs.data, RECENT_LOGS_LIMIT))
+        this.seenLogKeys = new Set(logs.data.map(getLogKey))
+        this.logValidators = logs.validators
+      }
+
+      if (changes.length > 0) console.log(`[Realtime] Poll found ${changes.length} changes`)
+      changes.forEach(({ event, data }) => this.emit(event, data))
+      this.pollFailures = 0
+      this.setStatus({ connected: true, transport: 'polling', error: null })
+    } catch (error) {
+      this.pollFailures++
+      console.warn('[Realtime] Poll failed:', error instanceof Error ? error.message : error)
+      this.setStatus({ connected: false, transport: 'polling', error: error instanceof Error ? error.message : String(error) })
+    } finally {
+      this.isPolling = false
+      if (this.isReady && this.isLeader && !this.eventSource) this.schedulePoll()
+    }
   }
 }
 
 // Create a singleton instance
 let toolboxPollingManager: ToolboxPollingManager | null = null
 
-export function getToolboxPollingManager(apiUrl: string) {
+export function getToolboxPollingManager(apiUrl?: string) {
   if (!toolboxPollingManager) {
     toolboxPollingManager = new ToolboxPollingManager(apiUrl)
+  } else if (apiUrl) {
+    toolboxPollingManager.setApiUrl(apiUrl)
   }
   return toolboxPollingManager
 }
@@ -86,11 +356,8 @@ export function useRealtimeEvent(
   apiUrl?: string
 ) {
   useEffect(() => {
-    const manager = getToolboxPollingManager(apiUrl || 'http://localhost:3000')
-
-    if (!manager.isSocketConnected) {
-      manager.initialize()
-    }
+    const manager = getToolboxPollingManager(apiUrl)
+    manager.initialize()
 
     const unsubscribe = manager.subscribeToUpdates(event, callback)
 
@@ -110,11 +377,8 @@ export function useRealtimeEvents(
   apiUrl?: string
 ) {
   useEffect(() => {
-    const manager = getToolboxPollingManager(apiUrl || 'http://localhost:3000')
-
-    if (!manager.isSocketConnected) {
-      manager.initialize()
-    }
+    const manager = getToolboxPollingManager(apiUrl)
+    manager.initialize()
 
     const unsubscribers = Object.entries(eventHandlers).map(([event, handler]) => {
       return manager.subscribeToUpdates(event, handler)
@@ -153,17 +417,19 @@ export function useRealtimeEventHistory(
 }
 
 /**
- * Hook to track connection status
+ * Hook to track connection status (and whether updates arrive by SSE or polling)
  */
 export function useConnectionStatus(apiUrl?: string) {
-  const [status, setStatus] = useState({
-    connected: true, // Always connected in demo mode
-    error: null as string | null
+  const [status, setStatus] = useState<RealtimeConnectionStatus>({
+    connected: false,
+    transport: 'idle',
+    error: null
   })
 
-  // In demo mode, always show as connected
   useEffect(() => {
-    setStatus({ connected: true, error: null })
+    const manager = getToolboxPollingManager(apiUrl)
+    manager.initialize()
+    return manager.subscribeToStatus(setStatus)
   }, [apiUrl])
 
   return status
@@ -171,7 +437,7 @@ export function useConnectionStatus(apiUrl?: string) {
 
 /**
  * Hook for Item real-time updates
- * Automatically refreshes data when updates occur
+ * Reports items created, updated or deleted on the server
  */
 export function useItemRealtime(
   onUpdate?: (update: { type: string; data: any }) => void,
@@ -179,34 +445,31 @@ export function useItemRealtime(
 ) {
   const [lastUpdate, setLastUpdate] = useState<any>(null)
 
-  // Simulate occasional item updates in demo mode
   useEffect(() => {
-    if (!env.DEMO_MODE) return
-
-    const interval = setInterval(() => {
-      if (Math.random() < 0.05) { // 5% chance every 30 seconds
-        const mockData = {
-          id: `DEMO-${Math.floor(Math.random() * 1000)}`,
-          name: `Demo Item ${Math.floor(Math.random() * 100)}`,
-          quantity: Math.floor(Math.random() * 50) + 1
-        }
+    const manager = getToolboxPollingManager(apiUrl)
+    manager.initialize()
 
-        const updateType = ['updated', 'created', 'inventory_updated'][Math.floor(Math.random() * 3)]
-        console.log(`📦 [Demo] Mock item ${updateType}:`, mockData)
-
-        setLastUpdate({ type: updateType, data: mockData, timestamp: Date.now() })
-        onUpdate?.({ type: updateType, data: mockData })
-      }
-    }, 30000)
+    const updateTypes = {
+      [REALTIME_EVENTS.itemCreated]: 'created',
+      [REALTIME_EVENTS.itemUpdated]: 'updated',
+      [REALTIME_EVENTS.itemDeleted]: 'deleted',
+    }
+    const unsubscribers = Object.entries(updateTypes).map(([event, type]) =>
+      manager.subscribeToUpdates(event, (data) => {
+        setLastUpdate({ type, data, timestamp: Date.now() })
+        onUpdate?.({ type, data })
+      })
+    )
 
-    return () => clearInterval(interval)
-  }, [onUpdate])
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [onUpdate, apiUrl])
 
   return lastUpdate
 }
 
 /**
  * Hook for Transaction real-time updates
+ * Reports new log entries (checkouts, returns, adjustments) as they are recorded
  */
 export function useTransactionRealtime(
   onUpdate?: (update: { type: string; data: any }) => void,
@@ -214,28 +477,15 @@ export function useTransactionRealtime(
 ) {
   const [lastUpdate, setLastUpdate] = useState<any>(null)
 
-  // Listen for checkout transactions from localStorage
   useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'demo-transactions' && e.newValue) {
-        try {
-          const transactions = JSON.parse(e.newValue)
-          const latestTransaction = transactions[transactions.length - 1]
-
-          if (latestTransaction) {
-            console.log('💰 [Demo] Transaction detected:', latestTransaction)
-            setLastUpdate({ type: 'created', data: latestTransaction, timestamp: Date.now() })
-            onUpdate?.({ type: 'created', data: latestTransaction })
-          }
-        } catch (error) {
-          console.warn('💰 [Demo] Error parsing demo transactions:', error)
-        }
-      }
-    }
+    const manager = getToolboxPollingManager(apiUrl)
+    manager.initialize()
 
-    window.addEventListener('storage', handleStorageChange)
-    return () => window.removeEventListener('storage', handleStorageChange)
-  }, [onUpdate])
+    return manager.subscribeToUpdates(REALTIME_EVENTS.logCreated, (data) => {
+      setLastUpdate({ type: 'created', data, timestamp: Date.now() })
+      onUpdate?.({ type: 'created', data })
+    })
+  }, [onUpdate, apiUrl])
 
   return lastUpdate
 }
@@ -263,38 +513,26 @@ export function useAutoRefresh(
     }
 
     timeoutRef.current = setTimeout(() => {
-      console.log('🔄 [Demo] Auto-refresh triggered')
+      console.log('🔄 [Realtime] Auto-refresh triggered')
       refreshFn()
     }, debounce)
   }, [refreshFn, debounce, enabled])
 
-  // Simulate events triggering refresh in demo mode
   useEffect(() => {
-    if (!enabled || !env.DEMO_MODE) return
-
-    const manager = getToolboxPollingManager(apiUrl || 'http://localhost:3000')
-    if (!manager.isSocketConnected) {
-      manager.initialize()
-    }
+    if (!enabled) return
 
-    // Simulate random events for demo purposes
-    const interval = setInterval(() => {
-      if (Math.random() < 0.1 && events.length > 0) { // 10% chance every 20 seconds
-        const randomEvent = events[Math.floor(Math.random() * events.length)]
-        manager.simulateEvent(randomEvent, { demo: true, timestamp: Date.now() })
-      }
-    }, 20000)
+    const manager = getToolboxPollingManager(apiUrl)
+    manager.initialize()
 
     const unsubscribers = events.map(event => {
       return manager.subscribeToUpdates(event, debouncedRefresh)
     })
 
     return () => {
-      clearInterval(interval)
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current)
       }
       unsubscribers.forEach(unsubscribe => unsubscribe())
     }
   }, [events, debouncedRefresh, enabled, apiUrl])
-}
\ No newline at end of file
+}
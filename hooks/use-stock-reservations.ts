@@ -0,0 +1,25 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { stockReservations, RESERVATIONS_CHANGED_EVENT } from '../lib/stock-reservations'
+
+/**
+ * Units of an item held in other kiosks' carts, kept fresh while the component is mounted
+ */
+export function useReservedQuantity(itemId: string): number {
+  const [reserved, setReserved] = useState(() => stockReservations.getReservedByOthers(itemId))
+
+  useEffect(() => {
+    const update = () => setReserved(stockReservations.getReservedByOthers(itemId))
+    update()
+
+    window.addEventListener(RESERVATIONS_CHANGED_EVENT, update)
+    const stopWatching = stockReservations.watch()
+    return () => {
+      window.removeEventListener(RESERVATIONS_CHANGED_EVENT, update)
+      stopWatching()
+    }
+  }, [itemId])
+
+  return reserved
+}
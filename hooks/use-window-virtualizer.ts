@@ -0,0 +1,188 @@
+'use client'
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+
+// Tailwind breakpoints (min-width) and the product grid's column count at each
+const GRID_COLUMN_BREAKPOINTS: Array<[minWidth: number, columns: number]> = [
+  [1536, 6],
+  [1280, 5],
+  [1024, 4],
+  [640, 3],
+  [0, 2],
+]
+
+/**
+ * Columns the product grid shows at a viewport width (grid-cols-2 sm:3 lg:4 xl:5 2xl:6)
+ */
+export function getGridColumns(viewportWidth: number): number {
+  return GRID_COLUMN_BREAKPOINTS.find(([minWidth]) => viewportWidth >= minWidth)?.[1] ?? 2
+}
+
+/**
+ * Grid columns for the current viewport, or 1 in list mode
+ */
+export function useGridColumns(viewMode: 'grid' | 'list'): number {
+  const [viewportWidth, setViewportWidth] = useState(() => typeof window === 'undefined' ? 1024 : window.innerWidth)
+
+  useEffect(() => {
+    const handleResize = () => setViewportWidth(window.innerWidth)
+    window.addEventListener('resize', handleResize)
+    return () => window.removeEventListener('resize', handleResize)
+  }, [])
+
+  return viewMode === 'list' ? 1 : getGridColumns(viewportWidth)
+}
+
+interface WindowVirtualizerOptions {
+  itemCount: number
+  columns: number
+  // Used until the first rendered row has been measured
+  estimatedRowHeight: number
+  // Rows rendered above and below the viewport
+  overscanRows?: number
+  // Hidden lists (display: none) are not measured; their scroll position is restored when shown again
+  isActive?: boolean
+}
+
+export interface WindowVirtualizer {
+  containerRef: RefObject<HTMLDivElement>
+  // Attach to one rendered row so the real row height replaces the estimate
+  measureRowRef: (element: HTMLDivElement | null) => void
+  startRow: number
+  endRow: number
+  rowCount: number
+  rowHeight: number
+  totalHeight: number
+  // Rows that fit in the viewport (for Page Up / Page Down)
+  rowsPerPage: number
+  scrollToIndex: (index: number) => void
+}
+
+/**
+ * Height of the sticky app header, which covers the top of the viewport
+ */
+function getStickyOffset(): number {
+  return document.querySelector('header')?.getBoundingClientRect().height ?? 0
+}
+
+/**
+ * Windowed rendering for a list laid out in rows of equal height, scrolled by the page itself.
+ * Only the rows near the viewport are rendered; the container keeps the full height.
+ */
+export function useWindowVirtualizer({
+  itemCount,
+  columns,
+  estimatedRowHeight,
+  overscanRows = 3,
+  isActive = true,
+}: WindowVirtualizerOptions): WindowVirtualizer {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight)
+  const [range, setRange] = useState({ start: 0, end: 0 })
+  const [viewportHeight, setViewportHeight] = useState(() => typeof window === 'undefined' ? 800 : window.innerHeight)
+  const rowObserverRef = useRef<ResizeObserver | null>(null)
+  const frameRef = useRef<number | null>(null)
+  const isActiveRef = useRef(isActive)
+  const savedScrollRef = useRef(0)
+  isActiveRef.current = isActive
+
+  const rowCount = Math.ceil(itemCount / Math.max(1, columns))
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current
+    if (!container || !isActiveRef.current) return
+
+    // How far the viewport has scrolled past the top of the list
+    const offset = -container.getBoundingClientRect().top
+    const start = Math.max(0, Math.floor(offset / rowHeight) - overscanRows)
+    const end = Math.min(rowCount, Math.ceil((offset + window.innerHeight) / rowHeight) + overscanRows)
+
+    setRange(previous => previous.start === start && previous.end === end ? previous : { start, end })
+  }, [rowHeight, rowCount, overscanRows])
+
+  useLayoutEffect(() => {
+    updateRange()
+  }, [updateRange, isActive])
+
+  useEffect(() => {
+    const scheduleUpdate = () => {
+      if (isActiveRef.current) savedScrollRef.current = window.scrollY
+      if (frameRef.current !== null) return
+      frameRef.current = requestAnimationFrame(() => {
+        frameRef.current = null
+        updateRange()
+      })
+    }
+    const handleResize = () => {
+      setViewportHeight(window.innerHeight)
+      scheduleUpdate()
+    }
+
+    window.addEventListener('scroll', scheduleUpdate, { passive: true })
+    window.addEventListener('resize', handleResize)
+    return () => {
+      window.removeEventListener('scroll', scheduleUpdate)
+      window.removeEventListener('resize', handleResize)
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current)
+        frameRef.current = null
+      }
+    }
+  }, [updateRange])
+
+  // Returning from another view (e.g. item details): put the list back where it was
+  const wasActiveRef = useRef(isActive)
+  useLayoutEffect(() => {
+    if (isActive && !wasActiveRef.current && savedScrollRef.current > 0) {
+      window.scrollTo(0, savedScrollRef.current)
+      updateRange()
+    }
+    wasActiveRef.current = isActive
+  }, [isActive, updateRange])
+
+  const measureRowRef = useCallback((element: HTMLDivElement | null) => {
+    rowObserverRef.current?.disconnect()
+    rowObserverRef.current = null
+    if (!element || typeof ResizeObserver === 'undefined') return
+
+    const observer = new ResizeObserver(() => {
+      const height = element.offsetHeight
+      if (height > 0) {
+        setRowHeight(previous => Math.abs(previous - height) < 1 ? previous : height)
+      }
+    })
+    observer.observe(element)
+    rowObserverRef.current = observer
+  }, [])
+
+  useEffect(() => () => rowObserverRef.current?.disconnect(), [])
+
+  const scrollToIndex = useCallback((index: number) => {
+    const container = containerRef.current
+    if (!container) return
+
+    const row = Math.floor(index / Math.max(1, columns))
+    const rowTop = container.getBoundingClientRect().top + window.scrollY + row * rowHeight
+    const stickyOffset = getStickyOffset()
+
+    if (rowTop < window.scrollY + stickyOffset) {
+      window.scrollTo(0, rowTop - stickyOffset)
+    } else if (rowTop + rowHeight > window.scrollY + window.innerHeight) {
+      window.scrollTo(0, rowTop + rowHeight - window.innerHeight)
+    }
+    updateRange()
+  }, [columns, rowHeight, updateRange])
+
+  return {
+    containerRef,
+    measureRowRef,
+    startRow: range.start,
+    endRow: Math.min(range.end, rowCount),
+    rowCount,
+    rowHeight,
+    totalHeight: rowCount * rowHeight,
+    rowsPerPage: Math.max(1, Math.floor(viewportHeight / rowHeight)),
+    scrollToIndex,
+  }
+}
@@ -1,9 +1,11 @@
 // ============================================================================
 // hooks/useInventorySync.ts
-// Mock real-time inventory synchronization hook for Toolbox Demo
+// Real-time inventory synchronization hook (SSE or polling via ToolboxPollingManager)
 // ============================================================================
-import { useEffect, useCallback, useRef, useState } from 'react'
-import env from '../lib/env'
+import { useEffect, useCallback, useState } from 'react'
+import { getToolboxPollingManager } from './use-realtime'
+import { REALTIME_EVENTS } from '../lib/realtime-events'
+import { getTransactionType } from '../lib/transaction-records'
 
 interface InventoryChangeEvent {
   type: 'update' | 'insert' | 'remove' | 'create' | 'delete' | 'checkout' | 'po_received'
@@ -21,6 +23,9 @@ interface UseInventorySyncOptions {
   enabled?: boolean
 }
 
+// Sent by the event stream only; polling cannot see purchase orders
+const PO_EVENT = 'po_received'
+
 export function useInventorySync(options: UseInventorySyncOptions = {}) {
   const {
     onInventoryChange,
@@ -31,90 +36,77 @@ export function useInventorySync(options: UseInventorySyncOptions = {}) {
     enabled = true
   } = options
 
-  const [isConnected, setIsConnected] = useState(true) // Always "connected" in demo mode
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const [isConnected, setIsConnected] = useState(false)
 
-  // Mock polling behavior - simulate periodic inventory checks
+  // Item changes
   useEffect(() => {
-    if (!enabled || !env.DEMO_MODE) return
-
-    // Simulate periodic inventory refresh (every 30 seconds in demo)
-    intervalRef.current = setInterval(() => {
-      // Randomly trigger inventory change events for demo purposes
-      if (Math.random() < 0.1) { // 10% chance every 30 seconds
-        const mockEvent: InventoryChangeEvent = {
-          type: 'update',
-          itemNo: `DEMO-${Math.floor(Math.random() * 1000)}`,
-          quantity: Math.floor(Math.random() * 10) + 1
-        }
-        console.log('📦 [Demo] Mock inventory change:', mockEvent)
-        onInventoryChange?.(mockEvent)
-      }
-    }, 30000)
+    if (!enabled) return
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
-      }
-    }
-  }, [enabled, onInventoryChange])
+    const manager = getToolboxPollingManager()
+    manager.initialize()
 
-  // Listen for checkout events from localStorage (simulates real-time updates)
+    const itemEvents: Record<string, InventoryChangeEvent['type']> = {
+      [REALTIME_EVENTS.itemCreated]: 'create',
+      [REALTIME_EVENTS.itemUpdated]: 'update',
+      [REALTIME_EVENTS.itemDeleted]: 'delete',
+    }
+    const unsubscribers = Object.entries(itemEvents).map(([event, type]) =>
+      manager.subscribeToUpdates(event, (data) => {
+        const item = data?.item ?? {}
+        const quantity = Number(item.balance)
+        onInventoryChange?.({
+          type,
+          itemNo: data?.item_no,
+          ...(Number.isFinite(quantity) && { quantity }),
+        })
+        onItemChange?.(data)
+      })
+    )
+    unsubscribers.push(manager.subscribeToUpdates(REALTIME_EVENTS.inventoryRefresh, () => {
+      onInventoryChange?.({ type: 'update' })
+    }))
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [enabled, onInventoryChange, onItemChange])
+
+  // New log entries (checkouts, returns, adjustments)
   useEffect(() => {
     if (!enabled) return
 
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'demo-transactions' && e.newValue) {
-        try {
-          const transactions = JSON.parse(e.newValue)
-          const latestTransaction = transactions[transactions.length - 1]
-
-          if (latestTransaction) {
-            console.log('📦 [Demo] Checkout detected:', latestTransaction)
-            onCheckout?.(latestTransaction)
-            onLogCreated?.(latestTransaction)
-          }
-        } catch (error) {
-          console.warn('📦 [Demo] Error parsing demo transactions:', error)
-        }
-      }
-    }
+    const manager = getToolboxPollingManager()
+    manager.initialize()
 
-    window.addEventListener('storage', handleStorageChange)
-    return () => window.removeEventListener('storage', handleStorageChange)
+    return manager.subscribeToUpdates(REALTIME_EVENTS.logCreated, (log) => {
+      if (getTransactionType(log) === 'checkout') {
+        onCheckout?.(log)
+      }
+      onLogCreated?.(log)
+    })
   }, [enabled, onCheckout, onLogCreated])
 
-  // Mock PO changes (less frequent)
+  // Purchase order changes
   useEffect(() => {
-    if (!enabled || !env.DEMO_MODE) return
-
-    const poInterval = setInterval(() => {
-      if (Math.random() < 0.05) { // 5% chance every 60 seconds
-        const mockPOEvent = {
-          type: 'po_received',
-          poId: `PO-${Date.now()}`,
-          status: 'received'
-        }
-        console.log('📦 [Demo] Mock PO change:', mockPOEvent)
-        onPOChange?.(mockPOEvent)
-      }
-    }, 60000)
+    if (!enabled) return
+
+    const manager = getToolboxPollingManager()
+    manager.initialize()
 
-    return () => clearInterval(poInterval)
+    return manager.subscribeToUpdates(PO_EVENT, (event) => {
+      onPOChange?.({ type: PO_EVENT, ...event })
+    })
   }, [enabled, onPOChange])
 
-  // Manual refresh trigger (mock implementation)
+  // Connection state of the underlying transport
+  useEffect(() => {
+    if (!enabled) return
+    return getToolboxPollingManager().subscribeToStatus(status => setIsConnected(status.connected))
+  }, [enabled])
+
+  // Manual refresh: notify every listener and poll now
   const triggerRefresh = useCallback(() => {
-    console.log('📦 [Demo] Manual refresh triggered')
-    // Simulate an immediate inventory refresh
-    const mockEvent: InventoryChangeEvent = {
-      type: 'update',
-      itemNo: 'REFRESH_TRIGGERED',
-      quantity: 0
-    }
-    onInventoryChange?.(mockEvent)
-  }, [onInventoryChange])
+    console.log('📦 [Realtime] Manual refresh triggered')
+    getToolboxPollingManager().refresh()
+  }, [])
 
   return {
     isConnected,
@@ -0,0 +1,155 @@
+import { rateLimiter, sanitizeForLog } from '../validation'
+import type { ApiAuthConfig, ApiConfig } from '../api-config'
+import { API_ENDPOINTS } from '../api-config'
+import { HttpError, RateLimitError, ValidationError } from '../api-errors'
+import { HttpClient } from './http-client'
+
+// localStorage key for the kiosk's provisioned credentials
+const API_AUTH_STORAGE_KEY = 'toolbox-api-auth'
+
+/**
+ * Load the kiosk's saved authentication settings
+ */
+export function loadStoredApiAuth(): ApiAuthConfig | null {
+  try {
+    const stored = localStorage.getItem(API_AUTH_STORAGE_KEY)
+    if (!stored) return null
+
+    const auth = JSON.parse(stored)
+    return auth && typeof auth.mode === 'string' ? auth as ApiAuthConfig : null
+  } catch (error) {
+    console.warn("[AuthService] Failed to load saved credentials:", (error as Error).message)
+    return null
+  }
+}
+
+/**
+ * Persist authentication settings so the kiosk stays provisioned across reloads
+ */
+export function saveStoredApiAuth(auth: ApiAuthConfig): void {
+  try {
+    if (auth.mode === 'none') {
+      localStorage.removeItem(API_AUTH_STORAGE_KEY)
+    } else {
+      localStorage.setItem(API_AUTH_STORAGE_KEY, JSON.stringify(auth))
+    }
+  } catch (error) {
+    console.warn("[AuthService] Failed to save credentials:", (error as Error).message)
+  }
+}
+
+/**
+ * Pull the token pair out of a login/refresh response ({ token }, { access_token } or { data: { token } })
+ */
+function extractTokens(payload: any): { token?: string; refreshToken?: string } {
+  const source = payload?.data && typeof payload.data === 'object' ? payload.data : payload
+  const token = source?.token || source?.access_token || source?.accessToken
+  const refreshToken = source?.refresh_token || source?.refreshToken
+  return {
+    ...(typeof token === 'string' && { token }),
+    ...(typeof refreshToken === 'string' && { refreshToken }),
+  }
+}
+
+/**
+ * Auth Service
+ * Handles session login and token refresh against the API server
+ */
+export class AuthService {
+  private config: ApiConfig
+  private http: HttpClient
+  // Kept in memory only so a session can be re-established after it expires
+  private password: string | null = null
+
+  constructor(config: ApiConfig) {
+    this.config = config
+    this.http = new HttpClient('AuthService', config)
+  }
+
+  updateConfig(config: ApiConfig) {
+    this.config = config
+    this.http.updateConfig(config)
+  }
+
+  /**
+   * POST credentials to an auth endpoint and return the token pair
+   */
+  private async post(path: string, body: Record<string, unknown>): Promise<{ token?: string; refreshToken?: string }> {
+    if (!rateLimiter.isAllowed(`auth:${path}`, 10, 60000)) {
+      throw new RateLimitError(path)
+    }
+
+    let payload: any
+    try {
+      payload = await this.http.request(path, {
+        method: "POST",
+        body: JSON.stringify(body),
+        skipAuth: true,
+      })
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 401) {
+        throw new HttpError(path, error.status, error.body, 'Invalid username or password')
+      }
+      throw error
+    }
+
+    const tokens = extractTokens(payload)
+    if (!tokens.token) {
+      throw new ValidationError(path, 'Authentication response did not contain a token')
+    }
+    return tokens
+  }
+
+  /**
+   * Sign in with a username and password (session mode)
+   * @returns The auth config to apply, including the new session token
+   */
+  async login(username: string, password: string): Promise<ApiAuthConfig> {
+    const loginEndpoint = this.config.auth.loginEndpoint || API_ENDPOINTS.authLogin
+    const tokens = await this.post(loginEndpoint, { username, password })
+
+    this.password = password
+    console.log(`[AuthService] Signed in as ${sanitizeForLog(username)}`)
+
+    const { refreshToken: _previousRefreshToken, ...auth } = this.config.auth
+    return {
+      ...auth,
+      mode: 'session',
+      username,
+      ...tokens,
+    }
+  }
+
+  /**
+   * Obtain a new token after the API rejected the current one
+   * @returns The updated auth config, or null if the credentials cannot be refreshed
+   */
+  async refresh(): Promise<ApiAuthConfig | null> {
+    const auth = this.config.auth
+
+    if (auth.refreshToken) {
+      const refreshEndpoint = auth.refreshEndpoint || API_ENDPOINTS.authRefresh
+      const tokens = await this.post(refreshEndpoint, { refresh_token: auth.refreshToken })
+      console.log("[AuthService] Token refreshed")
+      return { ...auth, ...tokens }
+    }
+
+    if (auth.mode === 'session' && auth.username && this.password) {
+      console.log("[AuthService] Session expired, signing in again")
+      return this.login(auth.username, this.password)
+    }
+
+    console.warn(`[AuthService] Cannot refresh credentials for auth mode "${auth.mode}"`)
+    return null
+  }
+
+  /**
+   * Forget tokens and the in-memory password
+   * @returns The auth config with credentials removed
+   */
+  clearCredentials(): ApiAuthConfig {
+    this.password = null
+    const { token: _token, refreshToken: _refreshToken, ...auth } = this.config.auth
+    return auth
+  }
+}
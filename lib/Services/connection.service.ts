@@ -1,6 +1,8 @@
 import { validateApiUrl, rateLimiter, sanitizeForLog } from '../validation'
 import type { ApiConfig } from '../api-config'
 import { API_ENDPOINTS } from '../api-config'
+import { NetworkError, TimeoutError } from '../api-errors'
+import { HttpClient } from './http-client'
 
 /**
  * Connection Service
@@ -8,9 +10,11 @@ import { API_ENDPOINTS } from '../api-config'
  */
 export class ConnectionService {
   private config: ApiConfig
+  private http: HttpClient
 
   constructor(config: ApiConfig) {
     this.config = config
+    this.http = new HttpClient('ConnectionService', config)
   }
 
   updateConfig(newConfig: Partial<ApiConfig>) {
@@ -23,9 +27,11 @@ export class ConnectionService {
     }
     
     this.config = { ...this.config, ...newConfig }
+    this.http.updateConfig(this.config)
     console.log("[ConnectionService] API config updated:", {
       baseUrl: this.config.baseUrl,
-      isConnected: this.config.isConnected
+      isConnected: this.config.isConnected,
+      authMode: this.config.auth.mode
     })
   }
 
@@ -52,14 +58,8 @@ export class ConnectionService {
         return this.config.isConnected
       }
 
-      const response = await fetch(`${this.config.baseUrl}${API_ENDPOINTS.items}`, {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        mode: "cors",
-        signal: AbortSignal.timeout(5000),
-      })
+      // Single quick attempt - the caller decides when to test again
+      const response = await this.http.fetch(API_ENDPOINTS.items, { timeoutMs: 5000, retries: 0 })
 
       const isConnected = response.ok
       this.config.isConnected = isConnected
@@ -82,9 +82,9 @@ export class ConnectionService {
     } catch (error) {
       console.error("[ConnectionService] API connection test failed:", sanitizeForLog(error))
 
-      if (error instanceof TypeError && error.message.includes("Failed to fetch")) {
+      if (error instanceof NetworkError) {
         console.error("[ConnectionService] This is likely a CORS issue or the API server is not running")
-      } else if (error instanceof DOMException && error.name === 'AbortError') {
+      } else if (error instanceof TimeoutError) {
         console.error("[ConnectionService] Connection test timed out")
       }
 
@@ -1,4 +1,10 @@
+import { ApiEmployeeSchema, sanitizeForLog } from '../validation'
 import type { ApiConfig } from '../api-config'
+import { API_ENDPOINTS } from '../api-config'
+import { ValidationError } from '../api-errors'
+import env from '../env'
+import { HttpClient } from './http-client'
+import type { UnauthorizedHandler } from './http-client'
 import { getDemoEmployees } from '../mock-data'
 
 /**
@@ -33,38 +39,166 @@ export interface Employee {
   tinNumber: string | null
 }
 
+/**
+ * Statuses that may not check items out. Everything else is treated as active.
+ */
+export const INACTIVE_EMPLOYEE_STATUSES = ['Inactive', 'Disabled'] as const
+
+/**
+ * Check whether an employee is allowed to transact
+ */
+export function isEmployeeActive(employee: Pick<Employee, 'status'>): boolean {
+  const status = (employee.status || '').trim().toLowerCase()
+  return !INACTIVE_EMPLOYEE_STATUSES.some(inactive => inactive.toLowerCase() === status)
+}
+
+/**
+ * PIN every demo employee uses when checkout asks for one
+ */
+export const DEMO_CHECKOUT_PIN = '1234'
+
+/**
+ * Normalise a scanned or typed identifier for comparison
+ */
+function normalizeIdentifier(value: string | number | null | undefined): string {
+  return String(value ?? '').trim().toUpperCase()
+}
+
+/**
+ * Map a demo employee record onto the full Employee shape
+ */
+function toEmployeeFromDemo(demo: { id: string; name: string; department: string; status?: string }, index: number): Employee {
+  const nameParts = demo.name.split(' ')
+  return {
+    id: index + 1,
+    fullName: demo.name,
+    firstName: nameParts[0] || demo.name,
+    middleName: '',
+    lastName: nameParts.slice(1).join(' '),
+    age: null,
+    birthDate: '',
+    contactNumber: null,
+    createdAt: '',
+    department: demo.department,
+    document: null,
+    email: '',
+    hireDate: '',
+    idBarcode: demo.id,
+    idNumber: demo.id,
+    isNewHire: false,
+    position: 'Employee',
+    profilePicture: null,
+    salary: null,
+    status: demo.status || 'Active',
+    address: null,
+    civilStatus: null,
+    pagibigNumber: null,
+    philhealthNumber: null,
+    sssNumber: null,
+    tinNumber: null,
+  }
+}
+
 /**
  * Employees Service
  * Handles all employee-related API operations
  */
 export class EmployeesService {
-  private config: ApiConfig
+  private http: HttpClient
 
   constructor(config: ApiConfig) {
-    this.config = config
+    this.http = new HttpClient('EmployeesService', config)
   }
 
   updateConfig(config: ApiConfig) {
-    this.config = config
+    this.http.updateConfig(config)
+  }
+
+  /**
+   * Register the callback used to refresh credentials when the API answers 401
+   */
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+    this.http.setUnauthorizedHandler(handler)
   }
 
   /**
    * Fetch all employees from the API
    * @param includeAllStatuses - If true, fetch all employees including Inactive/Disabled ones
    */
-  async fetchEmployees(includeAllStatuses: boolean = true): Promise<any[]> {
-    // Demo mode only - return mock employees
-    console.log("[EmployeesService] Demo mode: Returning mock employees")
-    const mockEmployees = getDemoEmployees()
-    return mockEmployees.map(employee => ({
-      id: employee.id,
-      fullName: employee.name,
-      firstName: employee.name.split(' ')[0],
-      lastName: employee.name.split(' ').slice(1).join(' '),
-      department: employee.department,
-      status: 'Active',
-      idBarcode: employee.id,
-      idNumber: employee.id
-    }))
+  async fetchEmployees(includeAllStatuses: boolean = true): Promise<Employee[]> {
+    if (env.DEMO_MODE) {
+      console.log("[EmployeesService] Demo mode: Returning mock employees")
+      const employees: Employee[] = getDemoEmployees().map(toEmployeeFromDemo)
+      return includeAllStatuses ? employees : employees.filter(isEmployeeActive)
+    }
+
+    // Without a status filter the API returns every employee
+    const query = includeAllStatuses ? '' : `?${new URLSearchParams({ status: 'Active' })}`
+
+    const payload = await this.http.request(`${API_ENDPOINTS.employees}${query}`)
+
+    // Accept either a bare array or the { success, data } envelope
+    const rawEmployees = Array.isArray(payload) ? payload : payload?.data
+    if (!Array.isArray(rawEmployees)) {
+      throw new ValidationError(API_ENDPOINTS.employees, "API did not return an array of employees")
+    }
+
+    const employees: Employee[] = []
+    for (const rawEmployee of rawEmployees) {
+      try {
+        employees.push(ApiEmployeeSchema.parse(rawEmployee) as Employee)
+      } catch (error) {
+        console.warn("[EmployeesService] Skipping invalid employee:", sanitizeForLog(rawEmployee?.id), (error as Error).message)
+      }
+    }
+
+    // Older API versions ignore the status flag, so filter client-side as well
+    return includeAllStatuses ? employees : employees.filter(isEmployeeActive)
+  }
+
+  /**
+   * Find an employee by the barcode printed on their ID badge.
+   * Inactive/Disabled employees are returned too so callers can explain the rejection.
+   */
+  async findByIdBarcode(idBarcode: string): Promise<Employee | null> {
+    const needle = normalizeIdentifier(idBarcode)
+    if (!needle) return null
+
+    const employees = await this.fetchEmployees(true)
+    return employees.find(employee => normalizeIdentifier(employee.idBarcode) === needle) || null
+  }
+
+  /**
+   * Find an employee by their ID number (typed at the kiosk).
+   * Inactive/Disabled employees are returned too so callers can explain the rejection.
+   */
+  async findByIdNumber(idNumber: string): Promise<Employee | null> {
+    const needle = normalizeIdentifier(idNumber)
+    if (!needle) return null
+
+    const employees = await this.fetchEmployees(true)
+    return employees.find(employee => normalizeIdentifier(employee.idNumber) === needle) || null
   }
-}
\ No newline at end of file
+
+  /**
+   * Check the PIN an employee entered to confirm a checkout.
+   * The PIN never leaves the API; it only answers whether it matches.
+   */
+  async verifyPin(employeeId: number, pin: string): Promise<boolean> {
+    if (env.DEMO_MODE) {
+      console.log("[EmployeesService] Demo mode: Verifying PIN against demo PIN")
+      return pin === DEMO_CHECKOUT_PIN
+    }
+
+    const path = `${API_ENDPOINTS.employees}/${employeeId}/verify-pin`
+    const payload = await this.http.request(path, {
+      method: "POST",
+      body: JSON.stringify({ pin }),
+    })
+
+    if (typeof payload?.valid !== 'boolean') {
+      throw new ValidationError(path, "API did not return a PIN verification result")
+    }
+    return payload.valid
+  }
+}
@@ -0,0 +1,174 @@
+import { rateLimiter, sanitizeForLog } from '../validation'
+import type { ApiAuthConfig, ApiConfig } from '../api-config'
+import { DEFAULT_API_KEY_HEADER } from '../api-config'
+import { HttpError, NetworkError, RateLimitError, TimeoutError, ValidationError } from '../api-errors'
+import env from '../env'
+
+// Only requests that are safe to repeat are retried automatically
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS']
+const DEFAULT_MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+const RETRY_MAX_DELAY_MS = 5000
+
+export interface HttpRequestOptions extends Omit<RequestInit, 'signal'> {
+  // Overrides env.API_TIMEOUT for this request
+  timeoutMs?: number
+  // Overrides the retry count (non-idempotent requests default to 0)
+  retries?: number
+  // Send without auth headers and skip the 401 refresh (used by the auth endpoints themselves)
+  skipAuth?: boolean
+}
+
+/**
+ * Called by the client when the API answers 401.
+ * Resolves true when credentials were refreshed and the request may be retried.
+ */
+export type UnauthorizedHandler = () => Promise<boolean>
+
+/**
+ * Build the request headers for the configured authentication mode
+ */
+export function getAuthHeaders(auth: ApiAuthConfig | undefined): Record<string, string> {
+  if (!auth) return {}
+
+  switch (auth.mode) {
+    case 'bearer':
+    case 'session':
+      return auth.token ? { Authorization: `Bearer ${auth.token}` } : {}
+    case 'apiKey':
+      return auth.apiKey ? { [auth.apiKeyHeader || DEFAULT_API_KEY_HEADER]: auth.apiKey } : {}
+    case 'none':
+    default:
+      return {}
+  }
+}
+
+/**
+ * Exponential backoff with jitter: ~500ms, ~1s, ~2s ... capped at 5s
+ */
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * HTTP Client
+ * Shared fetch wrapper for all services: timeouts, rate limiting, auth headers,
+ * retries with backoff and typed errors (see lib/api-errors.ts)
+ */
+export class HttpClient {
+  private config: ApiConfig
+  private scope: string
+  private onUnauthorized: UnauthorizedHandler | null = null
+
+  /**
+   * @param scope - Name used in log messages and rate limiter keys (e.g., "ItemsService")
+   */
+  constructor(scope: string, config: ApiConfig) {
+    this.scope = scope
+    this.config = config
+  }
+
+  updateConfig(config: ApiConfig) {
+    this.config = config
+  }
+
+  /**
+   * Register the callback used to refresh credentials when the API answers 401
+   */
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+    this.onUnauthorized = handler
+  }
+
+  /**
+   * Perform a request and return the raw Response (non-2xx responses are returned, not thrown)
+   */
+  async fetch(path: string, options: HttpRequestOptions = {}): Promise<Response> {
+    const { timeoutMs = env.API_TIMEOUT, retries, skipAuth = false, ...init } = options
+    const method = (init.method || 'GET').toUpperCase()
+    const maxRetries = retries ?? (IDEMPOTENT_METHODS.includes(method) ? DEFAULT_MAX_RETRIES : 0)
+
+    if (!rateLimiter.isAllowed(`${this.scope}:${path.split('?')[0]}`, env.RATE_LIMIT_REQUESTS, env.RATE_LIMIT_WINDOW_MS)) {
+      throw new RateLimitError(path)
+    }
+
+    let refreshedAuth = skipAuth
+    for (let attempt = 0; ; attempt++) {
+      let response: Response
+      try {
+        response = await fetch(`${this.config.baseUrl}${path}`, {
+          ...init,
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            ...(!skipAuth && getAuthHeaders(this.config.auth)),
+            ...init.headers,
+          },
+          mode: "cors",
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+      } catch (error) {
+        const isTimeout = error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')
+        const typedError = isTimeout ? new TimeoutError(path, timeoutMs) : new NetworkError(path, error)
+
+        if (attempt < maxRetries) {
+          console.warn(`[${this.scope}] ${method} ${path} failed (${typedError.kind}), retrying (${attempt + 1}/${maxRetries})`)
+          await sleep(retryDelay(attempt))
+          continue
+        }
+        console.error(`[${this.scope}] ${method} ${path} failed:`, typedError.message)
+        throw typedError
+      }
+
+      // Expired credentials: refresh once and replay the request
+      if (response.status === 401 && !refreshedAuth && this.onUnauthorized) {
+        refreshedAuth = true
+        if (await this.onUnauthorized()) {
+          attempt--
+          continue
+        }
+      }
+
+      const shouldRetry = response.status === 408 || response.status === 429 || response.status >= 500
+      if (shouldRetry && attempt < maxRetries) {
+        console.warn(`[${this.scope}] ${method} ${path} returned ${response.status}, retrying (${attempt + 1}/${maxRetries})`)
+        await sleep(retryDelay(attempt))
+        continue
+      }
+
+      return response
+    }
+  }
+
+  /**
+   * Perform a JSON request; throws HttpError for non-2xx responses
+   * @returns The parsed body, or null for 204 No Content
+   */
+  async request<T = any>(path: string, options: HttpRequestOptions = {}): Promise<T> {
+    const response = await this.fetch(path, options)
+
+    if (!response.ok) {
+      let errorText = ''
+      try {
+        errorText = await response.text()
+      } catch {
+        // Ignore if can't read response
+      }
+      console.error(`[${this.scope}] ${options.method || 'GET'} ${path} failed:`, response.status, sanitizeForLog(errorText))
+      throw new HttpError(path, response.status, errorText)
+    }
+
+    // Some endpoints reply with 204 No Content
+    if (response.status === 204) return null as T
+
+    try {
+      return await response.json() as T
+    } catch {
+      throw new ValidationError(path, `API returned an invalid JSON response for ${path}`)
+    }
+  }
+}
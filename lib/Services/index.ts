@@ -1,8 +1,14 @@
 // Services index - Re-export all services for cleaner imports
 export { ItemsService } from './items.service'
-export { EmployeesService } from './employees.service'
+export { EmployeesService, isEmployeeActive } from './employees.service'
 export { TransactionsService } from './transactions.service'
 export { ConnectionService } from './connection.service'
+export { ReservationsService } from './reservations.service'
+export { AuthService, loadStoredApiAuth, saveStoredApiAuth } from './auth.service'
+export { HttpClient, getAuthHeaders } from './http-client'
 
 // Re-export types
-export type { ApiConfig, TransactionFilters, TransactionResponse, TransactionStats } from '../api-config'
\ No newline at end of file
+export type { Employee } from './employees.service'
+export type { StockReservation, ReservationLine } from './reservations.service'
+export type { UnauthorizedHandler, HttpRequestOptions } from './http-client'
+export type { ApiConfig, ApiAuthConfig, ApiAuthMode, TransactionFilters, TransactionResponse, TransactionStats } from '../api-config'
\ No newline at end of file
@@ -1,45 +1,114 @@
-import { ApiItemSchema, rateLimiter, sanitizeForLog } from '../validation'
+import { ApiItemSchema, sanitizeForLog } from '../validation'
 import type { ApiConfig } from '../api-config'
-import { getDemoProducts, updateDemoProductBalance, addDemoTransaction } from '../mock-data'
+import { API_ENDPOINTS } from '../api-config'
+import { ValidationError } from '../api-errors'
+import env from '../env'
+import { HttpClient } from './http-client'
+import type { UnauthorizedHandler } from './http-client'
+import { getDemoProducts, updateDemoProductBalance, addDemoTransaction, addDemoProductCode } from '../mock-data'
+import { createTransaction, toTransactionLogData, DEFAULT_UNIT } from '../transaction-records'
+import type { AlternateCode } from '../barcode-scanner'
+
+// Stock endpoint suffix for each quantity update type (/api/items/stock/{id}/{action})
+const STOCK_ACTIONS = {
+  set_balance: 'set',
+  adjust_in: 'in',
+  adjust_out: 'out',
+  manual: 'manual',
+} as const
 
 /**
  * Items Service
  * Handles all item-related API operations
  */
 export class ItemsService {
-  private config: ApiConfig
+  private http: HttpClient
 
   constructor(config: ApiConfig) {
-    this.config = config
+    this.http = new HttpClient('ItemsService', config)
   }
 
   updateConfig(config: ApiConfig) {
-    this.config = config
+    this.http.updateConfig(config)
+  }
+
+  /**
+   * Register the callback used to refresh credentials when the API answers 401
+   */
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+    this.http.setUnauthorizedHandler(handler)
   }
 
   /**
    * Fetch all items from the API
    */
   async fetchItems(): Promise<any[]> {
-    // Demo mode only - return mock products
-    console.log("[ItemsService] Demo mode: Returning mock products")
-    const mockProducts = getDemoProducts()
-    return mockProducts.map(product => ({
-      id: product.id,
-      item_no: product.id,
-      item_name: product.name,
-      brand: product.brand,
-      item_type: product.itemType,
-      location: product.location,
-      balance: product.balance,
-      status: product.status
-    }))
+    if (env.DEMO_MODE) {
+      console.log("[ItemsService] Demo mode: Returning mock products")
+      const mockProducts = getDemoProducts()
+      return mockProducts.map(product => ({
+        id: product.id,
+        item_no: product.id,
+        item_name: product.name,
+        brand: product.brand,
+        item_type: product.itemType,
+        location: product.location,
+        balance: product.balance,
+        status: product.status,
+        alternate_codes: product.alternateCodes ?? [],
+        unit_cost: product.unitCost,
+        currency: product.currency
+      }))
+    }
+
+    const payload = await this.http.request(API_ENDPOINTS.items)
+
+    // Accept either a bare array or the { success, data } envelope
+    const rawItems = Array.isArray(payload) ? payload : payload?.data
+    if (!Array.isArray(rawItems)) {
+      throw new ValidationError(API_ENDPOINTS.items, "API did not return an array of items")
+    }
+
+    const items: any[] = []
+    for (const rawItem of rawItems) {
+      try {
+        items.push(ApiItemSchema.parse(rawItem))
+      } catch (error) {
+        console.warn("[ItemsService] Skipping invalid item:", sanitizeForLog(rawItem), (error as Error).message)
+      }
+    }
+
+    console.log(`[ItemsService] Fetched ${items.length} of ${rawItems.length} items`)
+    return items
   }
 
   /**
    * Commit item changes to the API
    */
   async commitItemChanges(items: any[]): Promise<boolean> {
+    if (!env.DEMO_MODE) {
+      const payload = {
+        items: items.map(item => ({
+          item_no: item.item_no || item.id,
+          quantity: item.quantity || 1,
+        })),
+      }
+
+      const result = await this.http.request(API_ENDPOINTS.checkout, {
+        method: "POST",
+        body: JSON.stringify(payload),
+      })
+
+      // Treat an explicit { success: false } as failure, anything else as accepted
+      if (result && result.success === false) {
+        console.error("[ItemsService] Checkout rejected by API:", sanitizeForLog(result))
+        return false
+      }
+
+      console.log(`[ItemsService] Committed ${payload.items.length} item changes`)
+      return true
+    }
+
     // Demo mode only - update mock product balances and add transactions
     console.log("[ItemsService] Demo mode: Updating mock product balances and adding transactions")
 
@@ -57,17 +126,21 @@ export class ItemsService {
         updateDemoProductBalance(productId, newBalance)
 
         // Add transaction log
-        const transaction = {
+        addDemoTransaction(toTransactionLogData(createTransaction({
+          type: 'checkout',
           username: "Demo User",
-          details: `Checked out ${item.item_name || item.name || 'Unknown Item'} x${quantity}`,
+          idNumber: "DEMO001",
+          idBarcode: "DEMO001",
           purpose: "Demo checkout",
-          id_number: "DEMO001",
-          id_barcode: "DEMO001",
-          item_no: productId,
-          log_date: new Date().toISOString().split('T')[0],
-          log_time: new Date().toTimeString().split(' ')[0]
-        }
-        addDemoTransaction(transaction)
+          items: [{
+            id: productId,
+            name: item.item_name || item.name || 'Unknown Item',
+            quantity,
+            unit: DEFAULT_UNIT,
+            balanceBefore: product.balance,
+            balanceAfter: newBalance,
+          }],
+        })))
 
         console.log(`[ItemsService] Demo: Updated ${productId} balance: ${product.balance} → ${newBalance}`)
       }
@@ -77,9 +150,23 @@ export class ItemsService {
   }
 
   /**
-   * Update item quantity using the PUT /api/items/:id/quantity endpoint
+   * Update item quantity using the PUT /api/items/stock/:id/:action endpoint
    */
   async updateItemQuantity(itemId: number, updateType: 'set_balance' | 'adjust_in' | 'adjust_out' | 'manual', value: number, notes?: string): Promise<any> {
+    if (!env.DEMO_MODE) {
+      const path = `${API_ENDPOINTS.itemStock}/${encodeURIComponent(String(itemId))}/${STOCK_ACTIONS[updateType]}`
+      const result = await this.http.request(path, {
+        method: "PUT",
+        body: JSON.stringify({
+          quantity: value,
+          ...(notes !== undefined && { notes }),
+        }),
+      })
+
+      console.log(`[ItemsService] Updated item ${itemId} (${updateType} ${value})`)
+      return result ?? { success: true }
+    }
+
     // Demo mode only - update mock product balance
     console.log(`[ItemsService] Demo mode: Updating quantity for item ${itemId}`)
 
@@ -113,4 +200,25 @@ export class ItemsService {
     return { success: true, data: { balance: newBalance } }
   }
 
+  /**
+   * Attach an alternate code (manufacturer barcode, legacy SKU, supplier part number) to an item
+   */
+  async assignAlternateCode(itemId: string, alternateCode: AlternateCode): Promise<void> {
+    if (!env.DEMO_MODE) {
+      await this.http.request(`${API_ENDPOINTS.items}/${encodeURIComponent(itemId)}/codes`, {
+        method: "POST",
+        body: JSON.stringify(alternateCode),
+      })
+      console.log(`[ItemsService] Assigned ${alternateCode.type} code to item ${itemId}`)
+      return
+    }
+
+    // Demo mode only - store the code on the mock product
+    const product = getDemoProducts().find(p => p.id === itemId)
+    if (!product) {
+      throw new Error(`Demo product with ID ${itemId} not found`)
+    }
+    addDemoProductCode(itemId, alternateCode)
+    console.log(`[ItemsService] Demo: Assigned ${alternateCode.type} code to item ${itemId}`)
+  }
 }
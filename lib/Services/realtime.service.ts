@@ -0,0 +1,127 @@
+import type { ApiConfig } from '../api-config'
+import { API_ENDPOINTS } from '../api-config'
+import { HttpError, ValidationError } from '../api-errors'
+import env from '../env'
+import { HttpClient } from './http-client'
+import type { UnauthorizedHandler } from './http-client'
+import { getDemoProducts, getDemoTransactions } from '../mock-data'
+
+// Newest logs fetched per poll; when none of them were seen before, older ones may have been
+// skipped and the poller asks listeners for a full refresh instead (see diffLogs)
+export const RECENT_LOGS_LIMIT = 50
+
+/**
+ * Validators from the previous response, sent back as If-None-Match / If-Modified-Since
+ */
+export interface ConditionalValidators {
+  etag?: string | undefined
+  lastModified?: string | undefined
+}
+
+export type ConditionalResult<T> =
+  | { notModified: true }
+  | { notModified: false; data: T; validators: ConditionalValidators }
+
+/**
+ * Realtime Service
+ * Transport side of live updates: the Server-Sent Events URL and conditional (ETag /
+ * Last-Modified) polling of items and logs, so unchanged resources cost a 304
+ */
+export class RealtimeService {
+  private config: ApiConfig
+  private http: HttpClient
+
+  constructor(config: ApiConfig) {
+    this.config = config
+    this.http = new HttpClient('RealtimeService', config)
+  }
+
+  updateConfig(config: ApiConfig) {
+    this.config = config
+    this.http.updateConfig(config)
+  }
+
+  /**
+   * Register the callback used to refresh credentials when the API answers 401
+   */
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+    this.http.setUnauthorizedHandler(handler)
+  }
+
+  /**
+   * Server-Sent Events endpoint, or null when SSE is disabled (demo mode or empty path)
+   */
+  getEventStreamUrl(): string | null {
+    if (env.DEMO_MODE || !env.REALTIME_EVENTS_PATH) return null
+    return `${this.config.baseUrl}${env.REALTIME_EVENTS_PATH}`
+  }
+
+  /**
+   * Fetch all items unless they are unchanged since the given validators
+   */
+  async fetchItemsIfChanged(validators: ConditionalValidators = {}): Promise<ConditionalResult<any[]>> {
+    if (env.DEMO_MODE) {
+      const items = getDemoProducts().map(product => ({
+        id: product.id,
+        item_no: product.id,
+        item_name: product.name,
+        brand: product.brand,
+        item_type: product.itemType,
+        location: product.location,
+        balance: product.balance,
+        status: product.status,
+      }))
+      return { notModified: false, data: items, validators: {} }
+    }
+
+    return this.fetchIfChanged(API_ENDPOINTS.items, validators)
+  }
+
+  /**
+   * Fetch the newest transaction logs unless they are unchanged since the given validators
+   */
+  async fetchRecentLogsIfChanged(validators: ConditionalValidators = {}): Promise<ConditionalResult<any[]>> {
+    if (env.DEMO_MODE) {
+      return { notModified: false, data: getDemoTransactions().slice(0, RECENT_LOGS_LIMIT), validators: {} }
+    }
+
+    const query = `?limit=${RECENT_LOGS_LIMIT}&sort_by=created_at&sort_order=DESC`
+    return this.fetchIfChanged(`${API_ENDPOINTS.transactions}${query}`, validators)
+  }
+
+  private async fetchIfChanged(path: string, validators: ConditionalValidators): Promise<ConditionalResult<any[]>> {
+    const response = await this.http.fetch(path, {
+      headers: {
+        ...(validators.etag && { "If-None-Match": validators.etag }),
+        ...(validators.lastModified && { "If-Modified-Since": validators.lastModified }),
+      },
+    })
+
+    if (response.status === 304) return { notModified: true }
+    if (!response.ok) {
+      throw new HttpError(path, response.status, await response.text().catch(() => ''))
+    }
+
+    let payload: any
+    try {
+      payload = await response.json()
+    } catch {
+      throw new ValidationError(path, `API returned an invalid JSON response for ${path}`)
+    }
+
+    // Accept either a bare array or the { success, data } envelope
+    const data = Array.isArray(payload) ? payload : payload?.data
+    if (!Array.isArray(data)) {
+      throw new ValidationError(path, "API did not return an array")
+    }
+
+    return {
+      notModified: false,
+      data,
+      validators: {
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+      },
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import type { ApiConfig } from '../api-config'
+import { API_ENDPOINTS } from '../api-config'
+import { ValidationError } from '../api-errors'
+import env from '../env'
+import { HttpClient } from './http-client'
+import type { UnauthorizedHandler } from './http-client'
+import { getDemoReservations, saveDemoReservations } from '../mock-data'
+
+// PUT and DELETE of a holder's reservations are idempotent, so they may be retried
+const IDEMPOTENT_WRITE_RETRIES = 2
+
+/**
+ * Units of an item held by one cart until it is checked out, emptied or the hold expires
+ */
+export interface StockReservation {
+  item_no: string
+  quantity: number
+  // Kiosk (cart) holding the units
+  holder_id: string
+  // ISO timestamp; the server drops the reservation after this
+  expires_at: string
+}
+
+export interface ReservationLine {
+  item_no: string
+  quantity: number
+}
+
+function isActive(reservation: StockReservation, now = Date.now()): boolean {
+  return new Date(reservation.expires_at).getTime() > now
+}
+
+/**
+ * Reservations Service
+ * Soft reservations of stock while items sit in a cart. Each kiosk replaces its whole set of
+ * reservations at once, so the server never has to merge per-item changes.
+ */
+export class ReservationsService {
+  private http: HttpClient
+
+  constructor(config: ApiConfig) {
+    this.http = new HttpClient('ReservationsService', config)
+  }
+
+  updateConfig(config: ApiConfig) {
+    this.http.updateConfig(config)
+  }
+
+  /**
+   * Register the callback used to refresh credentials when the API answers 401
+   */
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+    this.http.setUnauthorizedHandler(handler)
+  }
+
+  /**
+   * Fetch every unexpired reservation
+   */
+  async fetchReservations(): Promise<StockReservation[]> {
+    if (env.DEMO_MODE) {
+      return getDemoReservations().filter(reservation => isActive(reservation))
+    }
+
+    const payload = await this.http.request(API_ENDPOINTS.itemReservations)
+
+    // Accept either a bare array or the { success, data } envelope
+    const reservations = Array.isArray(payload) ? payload : payload?.data
+    if (!Array.isArray(reservations)) {
+      throw new ValidationError(API_ENDPOINTS.itemReservations, "API did not return an array of reservations")
+    }
+
+    const now = Date.now()
+    return reservations
+      .map(reservation => ({
+        item_no: String(reservation.item_no),
+        quantity: Number(reservation.quantity) || 0,
+        holder_id: String(reservation.holder_id),
+        expires_at: String(reservation.expires_at),
+      }))
+      .filter(reservation => reservation.quantity > 0 && isActive(reservation, now))
+  }
+
+  /**
+   * Replace all reservations held by a kiosk; every line gets a fresh expiry
+   */
+  async replaceReservations(holderId: string, lines: ReservationLine[], ttlMs: number): Promise<void> {
+    const path = `${API_ENDPOINTS.itemReservations}/${encodeURIComponent(holderId)}`
+
+    if (!env.DEMO_MODE) {
+      await this.http.request(path, {
+        method: "PUT",
+        body: JSON.stringify({
+          items: lines,
+          ttl_seconds: Math.round(ttlMs / 1000),
+        }),
+        retries: IDEMPOTENT_WRITE_RETRIES,
+      })
+      console.log(`[ReservationsService] Reserved ${lines.length} items for ${holderId}`)
+      return
+    }
+
+    // Demo mode only - keep reservations in localStorage
+    const expiresAt = new Date(Date.now() + ttlMs).toISOString()
+    const others = getDemoReservations().filter(reservation => reservation.holder_id !== holderId && isActive(reservation))
+    saveDemoReservations([
+      ...others,
+      ...lines.map(line => ({ ...line, holder_id: holderId, expires_at: expiresAt })),
+    ])
+  }
+
+  /**
+   * Drop every reservation held by a kiosk
+   */
+  async releaseReservations(holderId: string): Promise<void> {
+    if (!env.DEMO_MODE) {
+      await this.http.request(`${API_ENDPOINTS.itemReservations}/${encodeURIComponent(holderId)}`, {
+        method: "DELETE",
+        retries: IDEMPOTENT_WRITE_RETRIES,
+      })
+      console.log(`[ReservationsService] Released reservations for ${holderId}`)
+      return
+    }
+
+    saveDemoReservations(getDemoReservations().filter(reservation => reservation.holder_id !== holderId && isActive(reservation)))
+  }
+}
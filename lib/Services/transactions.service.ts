@@ -1,40 +1,155 @@
 import type { ApiConfig, TransactionFilters, TransactionResponse, TransactionStats } from '../api-config'
+import { API_ENDPOINTS } from '../api-config'
+import { HttpError, InsufficientStockError, ValidationError } from '../api-errors'
+import type { StockShortfall } from '../api-errors'
+import env from '../env'
+import { HttpClient } from './http-client'
+import type { UnauthorizedHandler } from './http-client'
 import { getDemoTransactions, addDemoTransaction } from '../mock-data'
+import { parseTransactionLog, toTransactionLogData } from '../transaction-records'
+
+// A keyed transaction POST is safe to resend: the API drops duplicates
+const IDEMPOTENT_POST_RETRIES = 2
 
 /**
- * Transaction Log Data interface matching the database schema
+ * Transaction Log Data interface matching the database schema (wire format)
  * Database fields: id (auto), log_date, log_time, username, details, purpose, id_number, id_barcode, item_no, created_at (auto)
+ * Build these with toTransactionLogData() and read them back with parseTransactionLog() (lib/transaction-records)
  */
 export interface TransactionLogData {
   username: string
-  details: string
+  details: string  // Human-readable summary generated from the line items
   purpose?: string  // Optional field for checkout purpose/reason
   id_number?: string  // Employee's ID number
   id_barcode?: string  // Employee's barcode
-  item_no?: string  // Item numbers (can be single or multiple with separators)
+  item_no?: string  // Item numbers joined with ";" (kept for older API versions)
+  items_json?: string  // JSON array of line items (item_no, item_name, quantity, unit_of_measure, balance_before, balance_after, ...)
+  transaction_type?: TransactionType  // Missing on legacy entries; inferred from details
+  idempotency_key?: string  // Lets the API ignore replays of a transaction it already recorded
+  reservation_holder?: string  // Kiosk whose cart reservations cover a checkout; other holders' reservations still count against stock
   log_date?: string  // YYYY-MM-DD format, optional (database defaults to curdate())
   log_time?: string  // HH:MM:SS format, optional (database defaults to curtime())
 }
 
+export type TransactionType = 'checkout' | 'return' | 'adjustment' | 'other'
+
+export interface LogTransactionOptions {
+  // Sent as the Idempotency-Key header; makes the POST safe to retry
+  idempotencyKey?: string | undefined
+  // Reservation holder id of the cart being checked out (see lib/stock-reservations)
+  reservationHolder?: string | undefined
+}
+
+/**
+ * One item moved by a transaction
+ */
+export interface TransactionLineItem {
+  id: string
+  name: string
+  quantity: number
+  unit: string
+  balanceBefore?: number | undefined
+  balanceAfter?: number | undefined
+  brand?: string | undefined
+  itemType?: string | undefined
+  location?: string | undefined
+  // Condition recorded on returns (good, damaged, lost)
+  condition?: string | undefined
+}
+
 /**
- * Internal interface for enhanced logging with full item details
- * Used internally before converting to TransactionLogData
+ * Structured transaction: header + line items.
+ * This is what the app logs and reads; TransactionLogData is only the storage format.
  */
 export interface EnhancedTransactionData {
-  userId: string
-  items: Array<{
-    id: string
-    name: string
-    brand?: string
-    itemType?: string
-    location?: string
-    quantity: number
-    originalBalance?: number
-    newBalance?: number
-  }>
+  type: TransactionType
   username: string
+  idNumber?: string | undefined
+  idBarcode?: string | undefined
+  purpose?: string | undefined
+  // Free-text summary; generated from the line items when omitted
+  details?: string | undefined
+  logDate?: string | undefined
+  logTime?: string | undefined
+  items: TransactionLineItem[]
   totalItems: number
-  timestamp: string
+  // Lines were reconstructed from a legacy free-text entry, so quantities and balances may be incomplete
+  isLegacy?: boolean | undefined
+}
+
+const DEFAULT_PAGE_SIZE = 50
+
+/**
+ * Convert transaction filters into query string parameters, skipping empty values
+ */
+function buildQueryString(filters: Partial<TransactionFilters> & Record<string, unknown>): string {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '' || value === false) return
+    params.set(key, String(value))
+  })
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+/**
+ * Read the shortfalls from a 409 checkout response: { "shortfalls": [{ item_no, item_name, requested, available }] }
+ * Returns an empty list when the body does not have that shape.
+ */
+function parseStockShortfalls(body: string, transaction: EnhancedTransactionData): StockShortfall[] {
+  let payload: any
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    return []
+  }
+  if (!Array.isArray(payload?.shortfalls)) return []
+
+  const shortfalls: StockShortfall[] = []
+  for (const entry of payload.shortfalls) {
+    const itemId = String(entry?.item_no ?? '')
+    const line = transaction.items.find(item => item.id === itemId)
+    const available = Number(entry?.available)
+    if (!line || !Number.isFinite(available)) continue
+    shortfalls.push({
+      itemId,
+      name: typeof entry.item_name === 'string' ? entry.item_name : line.name,
+      requested: Number.isFinite(Number(entry.requested)) ? Number(entry.requested) : line.quantity,
+      available: Math.max(0, available),
+    })
+  }
+  return shortfalls
+}
+
+/**
+ * Apply filters and pagination to demo transactions the same way the API does
+ */
+function filterDemoTransactions(transactions: TransactionLogData[], filters: TransactionFilters): TransactionLogData[] {
+  let filtered = transactions
+  const { username, date_from, date_to, search, has_details } = filters
+
+  if (username) {
+    filtered = filtered.filter(t => t.username.toLowerCase().includes(username.toLowerCase()))
+  }
+  if (date_from) {
+    filtered = filtered.filter(t => (t.log_date || '') >= date_from)
+  }
+  if (date_to) {
+    filtered = filtered.filter(t => (t.log_date || '') <= date_to)
+  }
+  if (search) {
+    const query = search.toLowerCase()
+    filtered = filtered.filter(t =>
+      t.details.toLowerCase().includes(query) ||
+      t.username.toLowerCase().includes(query) ||
+      (t.id_number || '').toLowerCase().includes(query)
+    )
+  }
+  if (has_details) {
+    filtered = filtered.filter(t => t.details.trim().length > 0)
+  }
+
+  return filtered
 }
 
 /**
@@ -42,103 +157,156 @@ export interface EnhancedTransactionData {
  * Handles all transaction and logging-related API operations
  */
 export class TransactionsService {
-  private config: ApiConfig
+  private http: HttpClient
 
   constructor(config: ApiConfig) {
-    this.config = config
+    this.http = new HttpClient('TransactionsService', config)
   }
 
   updateConfig(config: ApiConfig) {
-    this.config = config
+    this.http.updateConfig(config)
   }
 
   /**
-   * Fetch transactions with optional filters
+   * Register the callback used to refresh credentials when the API answers 401
    */
-  async fetchTransactions(filters: TransactionFilters = {}): Promise<TransactionResponse> {
-    // Demo mode only - return mock transactions with filtering
-    console.log("[TransactionsService] Demo mode: Returning mock transactions")
-    const mockTransactions = getDemoTransactions()
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+    this.http.setUnauthorizedHandler(handler)
+  }
 
-    // Apply basic filtering if provided
-    let filteredTransactions = mockTransactions
-    if (filters.username) {
-      filteredTransactions = filteredTransactions.filter(t => t.username.toLowerCase().includes(filters.username!.toLowerCase()))
-    }
-    if (filters.date_from) {
-      filteredTransactions = filteredTransactions.filter(t => t.log_date >= filters.date_from!)
+  /**
+   * Normalise a paginated log response into a TransactionResponse
+   * Accepts a bare array, { data, total } or { data, pagination: { total } }
+   */
+  private toTransactionResponse(payload: any, filters: TransactionFilters): TransactionResponse {
+    const data = Array.isArray(payload) ? payload : payload?.data
+    if (!Array.isArray(data)) {
+      throw new ValidationError(API_ENDPOINTS.transactions, "API did not return an array of transactions")
     }
-    if (filters.date_to) {
-      filteredTransactions = filteredTransactions.filter(t => t.log_date <= filters.date_to!)
+
+    const pagination = payload?.pagination ?? payload ?? {}
+    const limit = Number(pagination.limit ?? filters.limit ?? DEFAULT_PAGE_SIZE)
+    const offset = Number(pagination.offset ?? filters.offset ?? 0)
+    const total = Number(pagination.total ?? offset + data.length)
+
+    return {
+      data,
+      total: Number.isFinite(total) ? total : data.length,
+      limit,
+      offset,
+      filters: {
+        ...(filters.username && { username: filters.username }),
+        ...(filters.date_from && { date_from: filters.date_from }),
+        ...(filters.date_to && { date_to: filters.date_to }),
+        ...(filters.search && { search: filters.search }),
+      },
     }
-    if (filters.search) {
-      filteredTransactions = filteredTransactions.filter(t => 
-        t.details.toLowerCase().includes(filters.search!.toLowerCase()) ||
-        t.username.toLowerCase().includes(filters.search!.toLowerCase())
-      )
+  }
+
+  /**
+   * Fetch transactions with optional filters
+   */
+  async fetchTransactions(filters: TransactionFilters = {}): Promise<TransactionResponse> {
+    if (!env.DEMO_MODE) {
+      const payload = await this.http.request(`${API_ENDPOINTS.transactions}${buildQueryString({ ...filters })}`)
+      return this.toTransactionResponse(payload, filters)
     }
 
+    // Demo mode only - return mock transactions with filtering
+    console.log("[TransactionsService] Demo mode: Returning mock transactions")
+    const filteredTransactions = filterDemoTransactions(getDemoTransactions(), filters)
+
     // Apply limit and offset
-    const limit = filters.limit ? parseInt(filters.limit.toString()) : 50
+    const limit = filters.limit ? parseInt(filters.limit.toString()) : DEFAULT_PAGE_SIZE
     const offset = filters.offset ? parseInt(filters.offset.toString()) : 0
     const paginatedTransactions = filteredTransactions.slice(offset, offset + limit)
 
-    return {
-      success: true,
+    return this.toTransactionResponse({
       data: paginatedTransactions,
       total: filteredTransactions.length,
-      limit: limit,
-      offset: offset
-    } as TransactionResponse
+      limit,
+      offset,
+    }, filters)
   }
 
   /**
    * Fetch transaction statistics
    */
   async fetchTransactionStats(days: number = 30): Promise<TransactionStats> {
-    // Demo mode only - return mock transaction stats
+    if (!env.DEMO_MODE) {
+      const payload = await this.http.request(`${API_ENDPOINTS.transactions}/stats${buildQueryString({ days })}`)
+      const stats = payload?.data ?? payload
+      if (!stats || typeof stats !== 'object') {
+        throw new ValidationError(`${API_ENDPOINTS.transactions}/stats`, "API did not return transaction statistics")
+      }
+
+      return {
+        period_days: Number(stats.period_days ?? days),
+        total_logs: Number(stats.total_logs ?? 0),
+        recent_logs: Number(stats.recent_logs ?? 0),
+        active_users: Number(stats.active_users ?? 0),
+        logs_by_day: Array.isArray(stats.logs_by_day) ? stats.logs_by_day : [],
+        top_users: Array.isArray(stats.top_users) ? stats.top_users : [],
+      }
+    }
+
+    // Demo mode only - derive stats from mock transactions
     console.log(`[TransactionsService] Demo mode: Returning mock transaction stats for ${days} days`)
     const mockTransactions = getDemoTransactions()
+    const periodStart = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0] || ''
+    const recentTransactions = mockTransactions.filter(t => (t.log_date || '') >= periodStart)
+
+    const byDay = new Map<string, { log_count: number; users: Set<string> }>()
+    const byUser = new Map<string, { log_count: number; last_activity: string }>()
+    recentTransactions.forEach(t => {
+      const day = t.log_date || ''
+      const dayEntry = byDay.get(day) ?? { log_count: 0, users: new Set<string>() }
+      dayEntry.log_count++
+      dayEntry.users.add(t.username)
+      byDay.set(day, dayEntry)
 
-    // Calculate mock stats
-    const totalTransactions = mockTransactions.length
-    const uniqueUsers = new Set(mockTransactions.map(t => t.username)).size
-    const totalItems = mockTransactions.reduce((sum, t) => {
-      // Extract quantity from details (e.g., "Checked out Wireless Mouse Logitech x2")
-      const match = t.details.match(/x(\d+)/)
-      return sum + (match ? parseInt(match[1]) : 1)
-    }, 0)
+      const userEntry = byUser.get(t.username) ?? { log_count: 0, last_activity: '' }
+      userEntry.log_count++
+      if (day > userEntry.last_activity) userEntry.last_activity = day
+      byUser.set(t.username, userEntry)
+    })
 
     return {
-      total_transactions: totalTransactions,
-      unique_users: uniqueUsers,
-      total_items_checked_out: totalItems,
-      average_items_per_transaction: totalTransactions > 0 ? totalItems / totalTransactions : 0,
-      period_days: days
-    } as TransactionStats
+      period_days: days,
+      total_logs: mockTransactions.length,
+      recent_logs: recentTransactions.length,
+      active_users: byUser.size,
+      logs_by_day: [...byDay.entries()]
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([log_date, entry]) => ({ log_date, log_count: entry.log_count, unique_users: entry.users.size })),
+      top_users: [...byUser.entries()]
+        .sort(([, a], [, b]) => b.log_count - a.log_count)
+        .slice(0, 10)
+        .map(([username, entry]) => ({ username, ...entry })),
+    }
   }
 
   /**
    * Fetch transactions for a specific user
    */
   async fetchUserTransactions(username: string, filters: Omit<TransactionFilters, 'username'> = {}): Promise<any> {
+    if (!env.DEMO_MODE) {
+      const payload = await this.http.request(
+        `${API_ENDPOINTS.transactions}/user/${encodeURIComponent(username)}${buildQueryString({ ...filters })}`
+      )
+      return {
+        ...this.toTransactionResponse(payload, { ...filters, username }),
+        activity_summary: payload?.activity_summary ?? null,
+      }
+    }
+
     // Demo mode only - return mock transactions for user
     console.log(`[TransactionsService] Demo mode: Returning mock transactions for user ${username}`)
-    const mockTransactions = getDemoTransactions()
-
-    // Filter by username
-    let userTransactions = mockTransactions.filter(t => t.username.toLowerCase() === username.toLowerCase())
-
-    // Apply additional filters
-    if (filters.date_from) {
-      userTransactions = userTransactions.filter(t => t.log_date >= filters.date_from!)
-    }
-    if (filters.date_to) {
-      userTransactions = userTransactions.filter(t => t.log_date <= filters.date_to!)
-    }
+    const userTransactions = filterDemoTransactions(getDemoTransactions(), filters)
+      .filter(t => t.username.toLowerCase() === username.toLowerCase())
 
     // Apply limit and offset
-    const limit = filters.limit ? parseInt(filters.limit.toString()) : 50
+    const limit = filters.limit ? parseInt(filters.limit.toString()) : DEFAULT_PAGE_SIZE
     const offset = filters.offset ? parseInt(filters.offset.toString()) : 0
     const paginatedTransactions = userTransactions.slice(offset, offset + limit)
 
@@ -150,19 +318,44 @@ export class TransactionsService {
       offset: offset,
       activity_summary: {
         total_transactions: userTransactions.length,
-        total_items: userTransactions.reduce((sum, t) => {
-          const match = t.details.match(/x(\d+)/)
-          return sum + (match ? parseInt(match[1]) : 1)
-        }, 0),
-        last_activity: userTransactions.length > 0 ? userTransactions[0].log_date : null
+        total_items: userTransactions.reduce((sum, t) => sum + parseTransactionLog(t).totalItems, 0),
+        last_activity: userTransactions[0]?.log_date ?? null
       }
     }
   }
 
   /**
-   * Log a transaction to the API
+   * Log a structured transaction to the API
+   * @throws InsufficientStockError when the API refuses a checkout (409) that stock, less other carts' reservations, cannot cover
    */
-  async logTransaction(transactionData: TransactionLogData): Promise<boolean> {
+  async logTransaction(transaction: EnhancedTransactionData, options: LogTransactionOptions = {}): Promise<boolean> {
+    const { idempotencyKey, reservationHolder } = options
+    const transactionData: TransactionLogData = {
+      ...toTransactionLogData(transaction),
+      ...(idempotencyKey && { idempotency_key: idempotencyKey }),
+      ...(reservationHolder && { reservation_holder: reservationHolder }),
+    }
+
+    if (!env.DEMO_MODE) {
+      try {
+        const result = await this.http.request(API_ENDPOINTS.transactions, {
+          method: "POST",
+          body: JSON.stringify(transactionData),
+          ...(idempotencyKey && {
+            headers: { "Idempotency-Key": idempotencyKey },
+            retries: IDEMPOTENT_POST_RETRIES,
+          }),
+        })
+        return !(result && result.success === false)
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 409 && transaction.type === 'checkout') {
+          const shortfalls = parseStockShortfalls(error.body, transaction)
+          if (shortfalls.length > 0) throw new InsufficientStockError(API_ENDPOINTS.transactions, shortfalls)
+        }
+        throw error
+      }
+    }
+
     // Demo mode only - add transaction to mock data
     console.log("[TransactionsService] Demo mode: Adding transaction to mock data")
     console.log(`[TransactionsService] User: ${transactionData.username}`)
@@ -172,4 +365,4 @@ export class TransactionsService {
     addDemoTransaction(transactionData)
     return true
   }
-}
\ No newline at end of file
+}
@@ -9,18 +9,41 @@ import env from './env'
  * - lib/api_service.ts - Main service orchestrator
  */
 
+// How requests are authenticated against the API server
+export type ApiAuthMode = 'none' | 'bearer' | 'apiKey' | 'session'
+
+// Authentication settings (provisioned per kiosk from the API settings dialog)
+export interface ApiAuthConfig {
+  mode: ApiAuthMode
+  // Bearer token, or the session token obtained from the login endpoint
+  token?: string
+  // Used to obtain a new token when the API answers 401
+  refreshToken?: string
+  apiKey?: string
+  // Header the API key is sent in (defaults to X-API-Key)
+  apiKeyHeader?: string
+  // Session login settings (password is never persisted)
+  username?: string
+  loginEndpoint?: string
+  refreshEndpoint?: string
+}
+
 // Core API configuration interface
 export interface ApiConfig {
   baseUrl: string
   isConnected: boolean
+  auth: ApiAuthConfig
 }
 
 // Default configuration
 export const DEFAULT_API_CONFIG: ApiConfig = {
   baseUrl: env.API_BASE_URL,
   isConnected: false,
+  auth: { mode: 'none' },
 }
 
+export const DEFAULT_API_KEY_HEADER = 'X-API-Key'
+
 // API endpoint constants (used by services)
 export const API_ENDPOINTS = {
   items: "/api/items",
@@ -29,6 +52,11 @@ export const API_ENDPOINTS = {
   transactions: "/api/employee-logs", // Fixed: corrected endpoint with hyphen
   // Item stock operations
   itemStock: "/api/items/stock", // Base path for stock operations (/api/items/stock/{id}/out)
+  // Soft stock reservations held by carts (/api/items/reservations/{holder})
+  itemReservations: "/api/items/reservations",
+  // Session authentication (overridable per kiosk via ApiAuthConfig)
+  authLogin: "/api/auth/login",
+  authRefresh: "/api/auth/refresh",
 } as const
 
 // Transaction-related type definitions
@@ -39,6 +67,9 @@ export interface TransactionFilters {
   search?: string
   limit?: number
   offset?: number
+  sort_by?: string
+  sort_order?: 'ASC' | 'DESC'
+  has_details?: boolean
 }
 
 export interface TransactionResponse {
@@ -0,0 +1,148 @@
+/**
+ * Typed errors thrown by the shared HTTP client and the services built on it.
+ * UI code (ErrorBoundary, enhancedToast) uses describeApiError() to explain them to the user.
+ */
+
+export type ApiErrorKind = 'network' | 'timeout' | 'validation' | 'http' | 'rate_limit' | 'insufficient_stock'
+
+// Base class for every error raised while talking to the API server
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly path: string
+  // True when repeating the same request later may succeed
+  readonly retryable: boolean
+
+  constructor(kind: ApiErrorKind, path: string, message: string, retryable: boolean) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = kind
+    this.path = path
+    this.retryable = retryable
+  }
+}
+
+// The server could not be reached (offline, DNS, CORS, connection refused)
+export class NetworkError extends ApiError {
+  constructor(path: string, cause?: unknown) {
+    super('network', path, `Network request to ${path} failed${cause instanceof Error ? `: ${cause.message}` : ''}`, true)
+    this.name = 'NetworkError'
+  }
+}
+
+// The server did not answer within the configured timeout
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number
+
+  constructor(path: string, timeoutMs: number) {
+    super('timeout', path, `Request to ${path} timed out after ${timeoutMs}ms`, true)
+    this.name = 'TimeoutError'
+    this.timeoutMs = timeoutMs
+  }
+}
+
+// The server answered, but with a body we cannot use
+export class ValidationError extends ApiError {
+  constructor(path: string, message: string) {
+    super('validation', path, message, false)
+    this.name = 'ValidationError'
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpError extends ApiError {
+  readonly status: number
+  readonly body: string
+
+  constructor(path: string, status: number, body = '', message = `Request to ${path} failed with status ${status}`) {
+    super('http', path, message, status === 408 || status === 429 || status >= 500)
+    this.name = 'HttpError'
+    this.status = status
+    this.body = body
+  }
+}
+
+// The client-side rate limiter refused to send the request
+export class RateLimitError extends ApiError {
+  constructor(path: string) {
+    super('rate_limit', path, `Rate limit exceeded for ${path}`, true)
+    this.name = 'RateLimitError'
+  }
+}
+
+// A checkout line that current stock (less other carts' reservations) does not cover
+export interface StockShortfall {
+  itemId: string
+  name: string
+  requested: number
+  available: number
+}
+
+// A checkout asked for more than is available; nothing was committed
+export class InsufficientStockError extends ApiError {
+  readonly shortfalls: StockShortfall[]
+
+  constructor(path: string, shortfalls: StockShortfall[]) {
+    super('insufficient_stock', path, `Insufficient stock for ${shortfalls.map(shortfall => shortfall.name).join(', ')}`, false)
+    this.name = 'InsufficientStockError'
+    this.shortfalls = shortfalls
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+/**
+ * Turn any error into a short title and description suitable for toasts and error screens
+ */
+export function describeApiError(error: unknown): { title: string; description: string } {
+  if (error instanceof NetworkError) {
+    return {
+      title: 'Server Unreachable',
+      description: 'Could not reach the API server. Check the network connection and API URL in Settings.',
+    }
+  }
+  if (error instanceof TimeoutError) {
+    return {
+      title: 'Request Timed Out',
+      description: `The API server did not respond within ${Math.round(error.timeoutMs / 1000)} seconds. Please try again.`,
+    }
+  }
+  if (error instanceof RateLimitError) {
+    return {
+      title: 'Too Many Requests',
+      description: 'Please wait a moment before trying again.',
+    }
+  }
+  if (error instanceof InsufficientStockError) {
+    return {
+      title: 'Not Enough Stock',
+      description: error.shortfalls.map(shortfall => `${shortfall.name}: ${shortfall.available} of ${shortfall.requested} available`).join('; '),
+    }
+  }
+  if (error instanceof ValidationError) {
+    return {
+      title: 'Unexpected Server Response',
+      description: error.message,
+    }
+  }
+  if (error instanceof HttpError) {
+    if (error.status === 401 || error.status === 403) {
+      return {
+        title: 'Not Authorized',
+        description: 'The API rejected this kiosk\'s credentials. Update them under Settings → API Authentication.',
+      }
+    }
+    if (error.status === 404) {
+      return { title: 'Not Found', description: `The API does not provide ${error.path}.` }
+    }
+    if (error.status >= 500) {
+      return { title: 'Server Error', description: `The API server reported an error (status ${error.status}). Please try again later.` }
+    }
+    return { title: 'Request Failed', description: error.message }
+  }
+  return {
+    title: 'Something went wrong',
+    description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+  }
+}
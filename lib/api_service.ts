@@ -2,23 +2,49 @@ import { ItemsService } from './Services/items.service'
 import { EmployeesService } from './Services/employees.service'
 import { TransactionsService } from './Services/transactions.service'
 import { ConnectionService } from './Services/connection.service'
-import type { ApiConfig, TransactionFilters, TransactionResponse, TransactionStats } from './api-config'
-import { DEFAULT_API_CONFIG } from './api-config'
-import type { TransactionLogData } from './Services/transactions.service'
+import { AuthService, saveStoredApiAuth } from './Services/auth.service'
+import { RealtimeService } from './Services/realtime.service'
+import type { ConditionalResult, ConditionalValidators } from './Services/realtime.service'
+import { ReservationsService } from './Services/reservations.service'
+import type { ReservationLine, StockReservation } from './Services/reservations.service'
+import type { ApiAuthConfig, ApiConfig, TransactionFilters, TransactionResponse, TransactionStats } from './api-config'
+import { API_ENDPOINTS, DEFAULT_API_CONFIG } from './api-config'
+import { InsufficientStockError } from './api-errors'
+import type { EnhancedTransactionData, LogTransactionOptions, TransactionLogData } from './Services/transactions.service'
+import { toTransactionLogData } from './transaction-records'
+import type { Employee } from './Services/employees.service'
+import type { AlternateCode } from './barcode-scanner'
+import { deriveEmployeeHoldings, deriveHoldingsLedger, buildReturnTransaction, RESTOCKED_CONDITIONS } from './holdings'
+import type { HeldItem, LedgerEntry, ReturnLine } from './holdings'
+import { deriveItemUsage, ITEM_USAGE_DAYS } from './item-usage'
+import type { ItemUsageMap } from './item-usage'
 import env from './env'
+import { tabSync } from './tab-sync'
 import {
   mockProducts,
   mockEmployees,
   mockTransactions,
   getDemoProducts,
-  getDemoTransactions,
-  getDemoEmployees,
   updateDemoProductBalance,
   addDemoTransaction,
+  applyDemoCheckout,
+  findDemoShortfalls,
   simulatePayment,
   resetDemoData
 } from './mock-data'
 
+// Page size used when reading log history to derive holdings
+const HOLDINGS_LOG_LIMIT = 500
+// Most pages read per history load; keeps large histories inside the client rate limit
+const HOLDINGS_MAX_PAGES = 20
+
+export interface ProcessReturnResult {
+  // Names of items whose stock update failed; they stay on loan
+  failedItems: string[]
+  // Return log the API did not record although its stock was updated (null when logged)
+  unlogged: { transaction: EnhancedTransactionData; error: unknown } | null
+}
+
 /**
  * API Services
  * 
@@ -36,6 +62,11 @@ export class ApiServices {
   private employeesService: EmployeesService
   private transactionsService: TransactionsService
   private connectionService: ConnectionService
+  private authService: AuthService
+  private realtimeService: RealtimeService
+  private reservationsService: ReservationsService
+  // Shared so concurrent 401s trigger a single refresh
+  private pendingRefresh: Promise<boolean> | null = null
 
   constructor(config: ApiConfig = DEFAULT_API_CONFIG) {
     this.config = config
@@ -45,6 +76,17 @@ export class ApiServices {
     this.employeesService = new EmployeesService(config)
     this.transactionsService = new TransactionsService(config)
     this.connectionService = new ConnectionService(config)
+    this.authService = new AuthService(config)
+    this.realtimeService = new RealtimeService(config)
+    this.reservationsService = new ReservationsService(config)
+
+    // Let services recover from expired credentials
+    const handleUnauthorized = () => this.refreshAuth()
+    this.itemsService.setUnauthorizedHandler(handleUnauthorized)
+    this.employeesService.setUnauthorizedHandler(handleUnauthorized)
+    this.transactionsService.setUnauthorizedHandler(handleUnauthorized)
+    this.realtimeService.setUnauthorizedHandler(handleUnauthorized)
+    this.reservationsService.setUnauthorizedHandler(handleUnauthorized)
   }
 
   /**
@@ -58,6 +100,13 @@ export class ApiServices {
     this.itemsService.updateConfig(this.config)
     this.employeesService.updateConfig(this.config)
     this.transactionsService.updateConfig(this.config)
+    this.authService.updateConfig(this.config)
+    this.realtimeService.updateConfig(this.config)
+    this.reservationsService.updateConfig(this.config)
+
+    if (newConfig.auth) {
+      saveStoredApiAuth(this.config.auth)
+    }
   }
 
   /**
@@ -81,6 +130,49 @@ export class ApiServices {
     return this.connectionService.testConnection()
   }
 
+  // ========================================
+  // AUTHENTICATION OPERATIONS
+  // ========================================
+
+  /**
+   * Sign in with a username and password and apply the session token to all services
+   */
+  async login(username: string, password: string): Promise<ApiAuthConfig> {
+    const auth = await this.authService.login(username, password)
+    this.updateConfig({ auth })
+    return auth
+  }
+
+  /**
+   * Drop the current token (the configured auth mode and username are kept)
+   */
+  logout(): void {
+    this.updateConfig({ auth: this.authService.clearCredentials() })
+  }
+
+  /**
+   * Refresh credentials after a 401 response
+   * @returns true if new credentials were applied and the request can be retried
+   */
+  async refreshAuth(): Promise<boolean> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.authService.refresh()
+        .then(auth => {
+          if (!auth) return false
+          this.updateConfig({ auth })
+          return true
+        })
+        .catch(error => {
+          console.error("[ApiServices] Failed to refresh credentials:", (error as Error).message)
+          return false
+        })
+        .finally(() => {
+          this.pendingRefresh = null
+        })
+    }
+    return this.pendingRefresh
+  }
+
   // ========================================
   // ITEMS OPERATIONS
   // ========================================
@@ -99,7 +191,16 @@ export class ApiServices {
    * Commit item changes to the API
    */
   async commitItemChanges(items: any[]): Promise<boolean> {
-    return this.itemsService.commitItemChanges(items)
+    const committed = await this.itemsService.commitItemChanges(items)
+    if (committed) this.notifyInventoryChanged('checkout')
+    return committed
+  }
+
+  /**
+   * Attach an alternate code (manufacturer barcode, legacy SKU, supplier part number) to an item
+   */
+  async assignItemCode(itemId: string, alternateCode: AlternateCode): Promise<void> {
+    return this.itemsService.assignAlternateCode(itemId, alternateCode)
   }
 
   /**
@@ -126,9 +227,12 @@ export class ApiServices {
         }
         updateDemoProductBalance(product.id, newBalance)
       }
+      this.notifyInventoryChanged('adjustment')
       return { success: true }
     }
-    return this.itemsService.updateItemQuantity(itemId, updateType, value, notes)
+    const result = await this.itemsService.updateItemQuantity(itemId, updateType, value, notes)
+    this.notifyInventoryChanged('adjustment')
+    return result
   }
 
   /**
@@ -198,12 +302,31 @@ export class ApiServices {
 
   /**
    * Fetch all employees from the API
+   * @param includeAllStatuses - If true, include Inactive/Disabled employees
    */
-  async fetchEmployees(): Promise<any[]> {
-    if (env.DEMO_MODE) {
-      return getDemoEmployees()
-    }
-    return this.employeesService.fetchEmployees()
+  async fetchEmployees(includeAllStatuses: boolean = true): Promise<Employee[]> {
+    return this.employeesService.fetchEmployees(includeAllStatuses)
+  }
+
+  /**
+   * Resolve a scanned ID badge barcode to an employee
+   */
+  async findEmployeeByIdBarcode(idBarcode: string): Promise<Employee | null> {
+    return this.employeesService.findByIdBarcode(idBarcode)
+  }
+
+  /**
+   * Resolve a typed ID number to an employee
+   */
+  async findEmployeeByIdNumber(idNumber: string): Promise<Employee | null> {
+    return this.employeesService.findByIdNumber(idNumber)
+  }
+
+  /**
+   * Check an employee's checkout PIN
+   */
+  async verifyEmployeePin(employeeId: number, pin: string): Promise<boolean> {
+    return this.employeesService.verifyPin(employeeId, pin)
   }
 
   // ========================================
@@ -214,15 +337,6 @@ export class ApiServices {
    * Fetch transactions with optional filters
    */
   async fetchTransactions(filters: TransactionFilters = {}): Promise<TransactionResponse> {
-    if (env.DEMO_MODE) {
-      const transactions = getDemoTransactions()
-      return {
-        data: transactions,
-        total: transactions.length,
-        page: 1,
-        limit: transactions.length
-      }
-    }
     return this.transactionsService.fetchTransactions(filters)
   }
 
@@ -241,14 +355,178 @@ export class ApiServices {
   }
 
   /**
-   * Log a transaction to the API
+   * Checkout counts and latest checkout per item over the last `days` days
    */
-  async logTransaction(transactionData: TransactionLogData): Promise<boolean> {
+  async fetchItemUsage(days: number = ITEM_USAGE_DAYS): Promise<ItemUsageMap> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const logs = await this.fetchLogHistory({ date_from: since.toISOString().slice(0, 10) })
+    return deriveItemUsage(logs)
+  }
+
+  /**
+   * Log a structured transaction (header + line items) to the API
+   * @throws InsufficientStockError when a checkout is refused for lack of stock
+   */
+  async logTransaction(transaction: EnhancedTransactionData, options: LogTransactionOptions = {}): Promise<boolean> {
     if (env.DEMO_MODE) {
-      addDemoTransaction(transactionData)
+      if (transaction.type === 'checkout') {
+        const shortfalls = findDemoShortfalls(transaction, options.reservationHolder)
+        if (shortfalls.length > 0) throw new InsufficientStockError(API_ENDPOINTS.transactions, shortfalls)
+        applyDemoCheckout(transaction)
+      }
+      addDemoTransaction(toTransactionLogData(transaction))
+      this.notifyInventoryChanged(transaction.type)
       return true
     }
-    return this.transactionsService.logTransaction(transactionData)
+    const logged = await this.transactionsService.logTransaction(transaction, options)
+    if (logged) this.notifyInventoryChanged(transaction.type)
+    return logged
+  }
+
+  /**
+   * Let other tabs on this kiosk refetch products after a stock change made here
+   */
+  private notifyInventoryChanged(reason: string) {
+    tabSync.publish({ type: 'inventory_changed', reason })
+  }
+
+  // ========================================
+  // REALTIME OPERATIONS
+  // ========================================
+
+  /**
+   * Server-Sent Events endpoint for live updates, or null when only polling is available
+   */
+  getEventStreamUrl(): string | null {
+    return this.realtimeService.getEventStreamUrl()
+  }
+
+  /**
+   * Conditionally fetch all items (304 when unchanged since the validators)
+   */
+  async fetchItemsIfChanged(validators?: ConditionalValidators): Promise<ConditionalResult<any[]>> {
+    return this.realtimeService.fetchItemsIfChanged(validators)
+  }
+
+  /**
+   * Conditionally fetch the newest transaction logs (304 when unchanged since the validators)
+   */
+  async fetchRecentLogsIfChanged(validators?: ConditionalValidators): Promise<ConditionalResult<any[]>> {
+    return this.realtimeService.fetchRecentLogsIfChanged(validators)
+  }
+
+  // ========================================
+  // RESERVATION OPERATIONS
+  // ========================================
+
+  /**
+   * Fetch all unexpired cart reservations
+   */
+  async fetchReservations(): Promise<StockReservation[]> {
+    return this.reservationsService.fetchReservations()
+  }
+
+  /**
+   * Replace the reservations held by a kiosk's cart
+   */
+  async replaceReservations(holderId: string, lines: ReservationLine[], ttlMs: number): Promise<void> {
+    return this.reservationsService.replaceReservations(holderId, lines, ttlMs)
+  }
+
+  /**
+   * Release every reservation held by a kiosk's cart
+   */
+  async releaseReservations(holderId: string): Promise<void> {
+    return this.reservationsService.releaseReservations(holderId)
+  }
+
+  // ========================================
+  // RETURN OPERATIONS
+  // ========================================
+
+  /**
+   * Items an employee currently holds, derived from their checkout and return logs
+   */
+  async fetchEmployeeHoldings(employee: Employee): Promise<HeldItem[]> {
+    // search is a free-text match, so it can also return other employees' logs
+    const idNumber = employee.idNumber.trim().toUpperCase()
+    const logs = (await this.fetchLogHistory({ search: employee.idNumber }))
+      .filter(log => (log.id_number || '').trim().toUpperCase() === idNumber)
+    return deriveEmployeeHoldings(logs, employee.idNumber)
+  }
+
+  /**
+   * Outstanding items for every employee, derived from the full checkout and return history
+   */
+  async fetchHoldingsLedger(): Promise<LedgerEntry[]> {
+    return deriveHoldingsLedger(await this.fetchLogHistory())
+  }
+
+  /**
+   * Log entries matching the filters, newest first, read page by page up to HOLDINGS_MAX_PAGES
+   */
+  private async fetchLogHistory(filters: Omit<TransactionFilters, 'limit' | 'offset'> = {}): Promise<TransactionLogData[]> {
+    const logs: TransactionLogData[] = []
+    let total = Infinity
+    for (let pagesRead = 0; logs.length < total; pagesRead++) {
+      if (pagesRead === HOLDINGS_MAX_PAGES) {
+        console.warn(`[ApiServices] Log history truncated to the newest ${logs.length} of ${total} entries`)
+        break
+      }
+      const page = await this.fetchTransactions({
+        ...filters,
+        limit: HOLDINGS_LOG_LIMIT,
+        offset: logs.length,
+        sort_by: 'created_at',
+        sort_order: 'DESC',
+      })
+      if (page.data.length === 0) break
+      logs.push(...page.data)
+      total = page.total
+    }
+    return logs
+  }
+
+  /**
+   * Check items back in: restock good items with adjust_in and log the return with conditions.
+   * Pass an idempotency key so a return log that fails here can be queued and replayed safely.
+   */
+  async processReturn(employee: Employee, lines: ReturnLine[], notes?: string, options: LogTransactionOptions = {}): Promise<ProcessReturnResult> {
+    const failedItems: string[] = []
+    const failedLines = new Set<ReturnLine>()
+
+    for (const line of lines) {
+      if (!RESTOCKED_CONDITIONS.includes(line.condition)) continue
+      try {
+        await this.updateItemQuantity(
+          parseInt(line.itemId),
+          'adjust_in',
+          line.quantity,
+          `Returned by ${employee.fullName} (${employee.idNumber})`
+        )
+      } catch (error) {
+        console.error(`[ApiServices] Failed to restock returned item ${line.itemId}:`, error)
+        failedItems.push(line.name)
+        failedLines.add(line)
+      }
+    }
+
+    // Lines whose restock failed are left out of the log, so they stay outstanding and can be returned again
+    const returnedLines = lines.filter(line => !failedLines.has(line))
+    let unlogged: ProcessReturnResult['unlogged'] = null
+    if (returnedLines.length > 0) {
+      const transaction = buildReturnTransaction(employee, returnedLines, notes)
+      try {
+        await this.logTransaction(transaction, options)
+      } catch (error) {
+        // Stock for the returned lines is already updated; until the log is recorded they still show as on loan
+        console.error('[ApiServices] Failed to log return transaction:', error)
+        unlogged = { transaction, error }
+      }
+    }
+
+    console.log(`[ApiServices] Return processed for ${employee.idNumber}: ${lines.length} lines, ${failedItems.length} failed${unlogged ? ', log failed' : ''}`)
+    return { failedItems, unlogged }
   }
 
   // ========================================
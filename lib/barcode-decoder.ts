@@ -0,0 +1,410 @@
+/**
+ * Barcode Decoder
+ * Reads barcodes from camera frames and still images. Uses the browser's BarcodeDetector
+ * when available and falls back to a built-in JS decoder for Code-128 and EAN-13/UPC-A.
+ * Decoded values go through processBarcodeInput() like keyboard-wedge scans.
+ */
+
+import { isValidGtinCheckDigit } from "./barcode-formats"
+
+export interface DecodedBarcode {
+  rawValue: string
+  // BarcodeDetector format name (e.g., "code_128", "ean_13")
+  format: string
+  // "native" when BarcodeDetector decoded it, "js" for the fallback decoder
+  decoder: "native" | "js"
+}
+
+// Minimal shape of ImageData so still images can be decoded outside the browser
+export interface GrayscaleSource {
+  width: number
+  height: number
+  data: Uint8ClampedArray | number[]
+}
+
+// Formats requested from BarcodeDetector
+const NATIVE_FORMATS = ["code_128", "ean_13", "upc_a", "ean_8"]
+// Frames are scaled down to this width before JS decoding
+const MAX_DECODE_WIDTH = 1024
+// Rows with less contrast than this are skipped
+const MIN_ROW_CONTRAST = 48
+// Average per-element deviation (in modules) accepted when matching bar patterns
+const MAX_PATTERN_ERROR = 0.38
+// No single bar or space may be off by more than this (in modules)
+const MAX_ELEMENT_ERROR = 0.7
+
+// ========================================
+// CODE 128
+// ========================================
+
+// Bar/space widths for symbol values 0-105 (each sums to 11 modules)
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232",
+].map(pattern => pattern.split("").map(Number))
+
+const CODE128_STOP_PATTERN = [2, 3, 3, 1, 1, 1, 2]
+const CODE128_START_A = 103
+const CODE128_START_C = 105
+const CODE128_SHIFT = 98
+const CODE128_CODE_C = 99
+const CODE128_CODE_B = 100 // FNC4 in code set B
+const CODE128_CODE_A = 101 // FNC4 in code set A
+const CODE128_FNC1 = 102
+
+/**
+ * Average deviation between measured run widths and a pattern, in modules
+ */
+function patternError(runs: number[], offset: number, pattern: number[]): number {
+  const modules = pattern.reduce((sum, width) => sum + width, 0)
+  let total = 0
+  for (let i = 0; i < pattern.length; i++) {
+    total += runs[offset + i] ?? 0
+  }
+  if (total === 0) return Infinity
+
+  const unit = total / modules
+  let error = 0
+  for (let i = 0; i < pattern.length; i++) {
+    const elementError = Math.abs((runs[offset + i] ?? 0) / unit - pattern[i]!)
+    if (elementError > MAX_ELEMENT_ERROR) return Infinity
+    error += elementError
+  }
+  return error / pattern.length
+}
+
+/**
+ * Index of the best matching pattern at offset, or -1 if nothing matches closely enough
+ */
+function bestPatternMatch(runs: number[], offset: number, patterns: number[][]): number {
+  let best = -1
+  let bestError = MAX_PATTERN_ERROR
+  patterns.forEach((pattern, index) => {
+    const error = patternError(runs, offset, pattern)
+    if (error < bestError) {
+      bestError = error
+      best = index
+    }
+  })
+  return best
+}
+
+/**
+ * Turn Code-128 symbol values (without start/checksum) into text.
+ * A leading FNC1 is reported as the GS1 symbology identifier "]C1", later ones as GS.
+ */
+function translateCode128(startCode: number, values: number[]): string | null {
+  let codeSet: "A" | "B" | "C" = startCode === CODE128_START_A ? "A" : startCode === CODE128_START_C ? "C" : "B"
+  let shifted = false
+  let text = ""
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]!
+    const activeSet = shifted ? (codeSet === "A" ? "B" : "A") : codeSet
+    shifted = false
+
+    if (value === CODE128_FNC1) {
+      text += i === 0 ? "]C1" : "\u001d"
+      continue
+    }
+
+    if (activeSet === "C") {
+      if (value < 100) text += value.toString().padStart(2, "0")
+      else if (value === CODE128_CODE_B) codeSet = "B"
+      else if (value === CODE128_CODE_A) codeSet = "A"
+      else return null
+      continue
+    }
+
+    if (value < 96) {
+      // Set A: 0-63 are ASCII 32-95, 64-95 are control characters; set B: ASCII 32-127
+      text += String.fromCharCode(activeSet === "A" && value >= 64 ? value - 64 : value + 32)
+    } else if (value === CODE128_SHIFT) {
+      shifted = true
+    } else if (value === CODE128_CODE_C) {
+      codeSet = "C"
+    } else if (value === CODE128_CODE_B && activeSet === "A") {
+      codeSet = "B"
+    } else if (value === CODE128_CODE_A && activeSet === "B") {
+      codeSet = "A"
+    }
+    // FNC2-4 carry no data for our labels
+  }
+
+  return text
+}
+
+/**
+ * Decode a Code-128 symbol from alternating dark/light run widths (runs[0] is dark)
+ */
+function decodeCode128(runs: number[]): string | null {
+  for (let start = 0; start + 6 <= runs.length; start += 2) {
+    const startCode = bestPatternMatch(runs, start, CODE128_PATTERNS)
+    if (startCode < CODE128_START_A || startCode > CODE128_START_C) continue
+
+    const symbols = [startCode]
+    let offset = start + 6
+    let stopped = false
+    while (offset + 6 <= runs.length && symbols.length < 80) {
+      if (offset + 7 <= runs.length && patternError(runs, offset, CODE128_STOP_PATTERN) < MAX_PATTERN_ERROR) {
+        stopped = true
+        break
+      }
+      const value = bestPatternMatch(runs, offset, CODE128_PATTERNS)
+      if (value === -1 || value >= CODE128_START_A) break
+      symbols.push(value)
+      offset += 6
+    }
+
+    // Need start, at least one data symbol and the checksum
+    if (!stopped || symbols.length < 3) continue
+
+    const checksum = symbols[symbols.length - 1]!
+    const data = symbols.slice(1, -1)
+    const expected = data.reduce((sum, value, index) => sum + value * (index + 1), startCode) % 103
+    if (expected !== checksum) continue
+
+    const text = translateCode128(startCode, data)
+    if (text) return text
+  }
+  return null
+}
+
+// ========================================
+// EAN-13 / UPC-A
+// ========================================
+
+// L-code widths (space, bar, space, bar); R-codes share the widths, G-codes are reversed
+const EAN_L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+]
+const EAN_G_PATTERNS = EAN_L_PATTERNS.map(pattern => [...pattern].reverse())
+// Parity of the six left-hand digits encodes the first digit
+const EAN_FIRST_DIGIT_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"]
+const EAN_GUARD = [1, 1, 1]
+const EAN_MIDDLE_GUARD = [1, 1, 1, 1, 1]
+// Guard (3) + 6 digits (24) + middle guard (5) + 6 digits (24) + guard (3)
+const EAN13_RUN_COUNT = 59
+
+/**
+ * Decode an EAN-13 symbol (UPC-A is EAN-13 with a leading 0)
+ */
+function decodeEan13(runs: number[]): string | null {
+  for (let start = 0; start + EAN13_RUN_COUNT <= runs.length; start += 2) {
+    if (patternError(runs, start, EAN_GUARD) > MAX_PATTERN_ERROR) continue
+
+    let offset = start + 3
+    let digits = ""
+    let parity = ""
+    let valid = true
+
+    for (let i = 0; i < 6 && valid; i++) {
+      const lDigit = bestPatternMatch(runs, offset, EAN_L_PATTERNS)
+      const gDigit = bestPatternMatch(runs, offset, EAN_G_PATTERNS)
+      if (lDigit === -1 && gDigit === -1) {
+        valid = false
+        break
+      }
+      const useG = lDigit === -1 || (gDigit !== -1 && patternError(runs, offset, EAN_G_PATTERNS[gDigit]!) < patternError(runs, offset, EAN_L_PATTERNS[lDigit]!))
+      digits += useG ? gDigit : lDigit
+      parity += useG ? "G" : "L"
+      offset += 4
+    }
+    if (!valid || patternError(runs, offset, EAN_MIDDLE_GUARD) > MAX_PATTERN_ERROR) continue
+    offset += 5
+
+    for (let i = 0; i < 6 && valid; i++) {
+      const digit = bestPatternMatch(runs, offset, EAN_L_PATTERNS)
+      if (digit === -1) valid = false
+      digits += digit
+      offset += 4
+    }
+    if (!valid || patternError(runs, offset, EAN_GUARD) > MAX_PATTERN_ERROR) continue
+
+    const firstDigit = EAN_FIRST_DIGIT_PARITY.indexOf(parity)
+    if (firstDigit === -1) continue
+
+    const code = `${firstDigit}${digits}`
+    if (isValidGtinCheckDigit(code)) return code
+  }
+  return null
+}
+
+// ========================================
+// IMAGE SCANNING
+// ========================================
+
+/**
+ * Binarise one row of luminance values into run widths, starting at the first dark pixel
+ */
+function rowToRuns(luminance: number[]): number[] | null {
+  let min = 255
+  let max = 0
+  for (const value of luminance) {
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  if (max - min < MIN_ROW_CONTRAST) return null
+
+  const threshold = (min + max) / 2
+  const runs: number[] = []
+  let current = 0
+  let isDark = true
+  let started = false
+
+  for (const value of luminance) {
+    const dark = value < threshold
+    if (!started) {
+      if (!dark) continue
+      started = true
+    }
+    if (dark === isDark) {
+      current++
+    } else {
+      runs.push(current)
+      current = 1
+      isDark = dark
+    }
+  }
+  if (isDark && current > 0) runs.push(current)
+  return runs
+}
+
+function decodeRuns(runs: number[]): Omit<DecodedBarcode, "decoder"> | null {
+  const code128 = decodeCode128(runs)
+  if (code128) return { rawValue: code128, format: "code_128" }
+
+  const ean13 = decodeEan13(runs)
+  if (ean13) {
+    return ean13.startsWith("0")
+      ? { rawValue: ean13.slice(1), format: "upc_a" }
+      : { rawValue: ean13, format: "ean_13" }
+  }
+  return null
+}
+
+/**
+ * Decode a 1D barcode from RGBA pixel data with the built-in decoder.
+ * Scans horizontal lines outward from the middle, in both directions (labels may be upside down).
+ */
+export function decodeImageData(image: GrayscaleSource): DecodedBarcode | null {
+  const { width, height, data } = image
+  if (width === 0 || height === 0) return null
+
+  // Centre first, then alternating above/below in 5% steps
+  const rowOffsets = [0]
+  for (let step = 0.05; step <= 0.4; step += 0.05) {
+    rowOffsets.push(-step, step)
+  }
+
+  for (const offset of rowOffsets) {
+    const y = Math.min(height - 1, Math.max(0, Math.round(height * (0.5 + offset))))
+    const luminance: number[] = new Array(width)
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      luminance[x] = 0.299 * (data[i] ?? 0) + 0.587 * (data[i + 1] ?? 0) + 0.114 * (data[i + 2] ?? 0)
+    }
+
+    for (const row of [luminance, [...luminance].reverse()]) {
+      const runs = rowToRuns(row)
+      if (!runs) break
+      const result = decodeRuns(runs)
+      if (result) return { ...result, decoder: "js" }
+    }
+  }
+  return null
+}
+
+// ========================================
+// BROWSER INTEGRATION
+// ========================================
+
+interface NativeBarcodeDetector {
+  detect: (source: ImageBitmapSource) => Promise<Array<{ rawValue: string; format: string }>>
+}
+
+let nativeDetectorPromise: Promise<NativeBarcodeDetector | null> | null = null
+
+/**
+ * Create the BarcodeDetector once (null when the browser lacks it or our formats)
+ */
+function getNativeDetector(): Promise<NativeBarcodeDetector | null> {
+  if (!nativeDetectorPromise) {
+    nativeDetectorPromise = (async () => {
+      const Detector = typeof window !== "undefined" ? (window as any).BarcodeDetector : undefined
+      if (!Detector) return null
+      try {
+        const supported: string[] = await Detector.getSupportedFormats()
+        const formats = NATIVE_FORMATS.filter(format => supported.includes(format))
+        if (formats.length === 0) return null
+        console.log("[BarcodeDecoder] Using native BarcodeDetector for:", formats.join(", "))
+        return new Detector({ formats }) as NativeBarcodeDetector
+      } catch (error) {
+        console.warn("[BarcodeDecoder] BarcodeDetector unavailable, using JS decoder:", error)
+        return null
+      }
+    })()
+  }
+  return nativeDetectorPromise
+}
+
+/**
+ * Whether this device can stream from a camera
+ */
+export function isCameraScanningSupported(): boolean {
+  return typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia
+}
+
+/**
+ * Decode a barcode from a video frame, canvas or bitmap
+ * @param canvas - Reused scratch canvas for the JS fallback (avoids allocating one per frame)
+ */
+export async function detectBarcode(
+  source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap,
+  canvas: HTMLCanvasElement = document.createElement("canvas")
+): Promise<DecodedBarcode | null> {
+  const native = await getNativeDetector()
+  if (native) {
+    try {
+      const [first] = await native.detect(source)
+      if (first?.rawValue) return { rawValue: first.rawValue, format: first.format, decoder: "native" }
+    } catch (error) {
+      console.warn("[BarcodeDecoder] Native detection failed, trying JS decoder:", error)
+    }
+  }
+
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height
+  if (!sourceWidth || !sourceHeight) return null
+
+  const scale = Math.min(1, MAX_DECODE_WIDTH / sourceWidth)
+  canvas.width = Math.round(sourceWidth * scale)
+  canvas.height = Math.round(sourceHeight * scale)
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) return null
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return decodeImageData(context.getImageData(0, 0, canvas.width, canvas.height))
+}
+
+/**
+ * Decode a barcode from a photo (e.g., taken with the tablet camera app)
+ */
+export async function decodeBarcodeFromImage(image: Blob): Promise<DecodedBarcode | null> {
+  const bitmap = await createImageBitmap(image)
+  try {
+    return await detectBarcode(bitmap)
+  } finally {
+    bitmap.close()
+  }
+}
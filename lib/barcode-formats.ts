@@ -0,0 +1,255 @@
+/**
+ * Barcode Format Registry
+ * Pluggable parsers for the label formats the kiosk accepts (ITM Code-128, EAN-13, UPC-A,
+ * GS1-128 and employee badges). processBarcodeInput() tries each registered format in order.
+ */
+
+import env from "./env"
+
+// What a scanned code identifies
+export type BarcodeTarget = "product" | "employee"
+
+export interface ParsedBarcode {
+  // Registered format id (e.g., "itm", "ean13")
+  format: string
+  target: BarcodeTarget
+  // Code as received from the scanner
+  raw: string
+  // Item ID for ITM codes, GTIN for retail codes, badge code for employees
+  value: string
+  // GTIN-14 (zero padded) for EAN/UPC/GS1 codes
+  gtin?: string
+  // GS1 application identifiers
+  lot?: string
+  expiry?: string // YYYY-MM-DD
+  serial?: string
+}
+
+export interface BarcodeFormat {
+  id: string
+  label: string
+  target: BarcodeTarget
+  // Shown in error messages (e.g., "ITM001")
+  example: string
+  // Return null when the code is not in this format (or fails validation)
+  parse: (code: string) => Omit<ParsedBarcode, "format" | "target" | "raw"> | null
+}
+
+// ASCII group separator - how scanners transmit FNC1 inside GS1-128 codes
+const GS1_GROUP_SEPARATOR = "\u001d"
+
+// AIs with a fixed data length; all others are variable length (terminated by FNC1)
+const GS1_FIXED_LENGTH_AIS: Record<string, number> = {
+  "00": 18, "01": 14, "02": 14, "11": 6, "12": 6, "13": 6, "15": 6, "16": 6, "17": 6, "20": 2,
+}
+const GS1_VARIABLE_LENGTH_AIS = ["10", "21", "22", "30", "37", "90"]
+
+/**
+ * Validate the GS1 mod-10 check digit used by EAN-8/13, UPC-A and GTIN-14
+ */
+export function isValidGtinCheckDigit(digits: string): boolean {
+  if (!/^\d{8,14}$/.test(digits)) return false
+
+  const body = digits.slice(0, -1)
+  let sum = 0
+  // Weights alternate 3,1,3... starting from the digit next to the check digit
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i])
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  const checkDigit = (10 - (sum % 10)) % 10
+  return checkDigit === Number(digits[digits.length - 1])
+}
+
+/**
+ * Pad any GTIN (8, 12, 13 or 14 digits) to GTIN-14 so different label types compare equal
+ */
+export function toGtin14(digits: string): string {
+  return digits.padStart(14, "0")
+}
+
+/**
+ * Convert a GS1 YYMMDD date to YYYY-MM-DD (day 00 means the last day of the month)
+ */
+function gs1DateToIso(yymmdd: string): string | undefined {
+  const match = yymmdd.match(/^(\d{2})(\d{2})(\d{2})$/)
+  if (!match) return undefined
+
+  const year = 2000 + Number(match[1])
+  const month = Number(match[2])
+  let day = Number(match[3])
+  if (month < 1 || month > 12) return undefined
+  if (day === 0) {
+    day = new Date(year, month, 0).getDate()
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+/**
+ * Split a GS1 element string into application identifiers.
+ * Accepts the raw scanner form ("]C1" prefix, FNC1 as GS) and the printed form "(01)...(10)...".
+ */
+export function parseGs1ElementString(code: string): Record<string, string> | null {
+  const elements: Record<string, string> = {}
+
+  // Human-readable form with parenthesised AIs
+  if (code.startsWith("(")) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g
+    let match: RegExpExecArray | null
+    let consumed = 0
+    while ((match = pattern.exec(code)) !== null) {
+      elements[match[1]!] = match[2]!
+      consumed += match[0].length
+    }
+    return consumed === code.length && Object.keys(elements).length > 0 ? elements : null
+  }
+
+  let data = code.replace(/^\]C1/, "")
+  while (data.length > 0) {
+    if (data.startsWith(GS1_GROUP_SEPARATOR)) {
+      data = data.slice(1)
+      continue
+    }
+
+    const ai = data.slice(0, 2)
+    const fixedLength = GS1_FIXED_LENGTH_AIS[ai]
+    if (fixedLength !== undefined) {
+      const value = data.slice(2, 2 + fixedLength)
+      if (value.length !== fixedLength) return null
+      elements[ai] = value
+      data = data.slice(2 + fixedLength)
+    } else if (GS1_VARIABLE_LENGTH_AIS.includes(ai)) {
+      const end = data.indexOf(GS1_GROUP_SEPARATOR, 2)
+      elements[ai] = end === -1 ? data.slice(2) : data.slice(2, end)
+      data = end === -1 ? "" : data.slice(end + 1)
+    } else {
+      // Unknown AI - we cannot tell where its data ends
+      return null
+    }
+  }
+
+  return Object.keys(elements).length > 0 ? elements : null
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Built-in formats, in the order they are tried
+const itmFormat: BarcodeFormat = {
+  id: "itm",
+  label: "ITM code",
+  target: "product",
+  example: "ITM001",
+  parse: (code) => {
+    // ITM followed by digits (Code-128 labels printed in-house): ITM004 -> 4
+    const match = code.toUpperCase().match(/^ITM(\d+)$/)
+    return match && match[1] ? { value: parseInt(match[1], 10).toString() } : null
+  },
+}
+
+const employeeBadgeFormat: BarcodeFormat = {
+  id: "employee-badge",
+  label: "Employee badge",
+  target: "employee",
+  example: `${env.EMPLOYEE_BADGE_PREFIX}001`,
+  parse: (code) => {
+    const pattern = new RegExp(`^${escapeRegExp(env.EMPLOYEE_BADGE_PREFIX.toUpperCase())}[A-Z0-9-]+$`)
+    const normalized = code.toUpperCase()
+    return pattern.test(normalized) ? { value: normalized } : null
+  },
+}
+
+const ean13Format: BarcodeFormat = {
+  id: "ean13",
+  label: "EAN-13",
+  target: "product",
+  example: "4006381333931",
+  parse: (code) => /^\d{13}$/.test(code) && isValidGtinCheckDigit(code)
+    ? { value: code, gtin: toGtin14(code) }
+    : null,
+}
+
+const upcaFormat: BarcodeFormat = {
+  id: "upca",
+  label: "UPC-A",
+  target: "product",
+  example: "036000291452",
+  parse: (code) => /^\d{12}$/.test(code) && isValidGtinCheckDigit(code)
+    ? { value: code, gtin: toGtin14(code) }
+    : null,
+}
+
+const gs1128Format: BarcodeFormat = {
+  id: "gs1-128",
+  label: "GS1-128",
+  target: "product",
+  example: "(01)04006381333931(17)261231(10)LOT42",
+  parse: (code) => {
+    // Must carry a symbology identifier, FNC1 separators, printed AIs or start with AI (01)
+    const looksLikeGs1 = code.startsWith("]C1") || code.startsWith("(") || code.includes(GS1_GROUP_SEPARATOR) || /^01\d{14}/.test(code)
+    if (!looksLikeGs1) return null
+
+    const elements = parseGs1ElementString(code)
+    const gtin = elements?.["01"] ?? elements?.["02"]
+    if (!elements || !gtin || !isValidGtinCheckDigit(gtin)) return null
+
+    const expiry = elements["17"] ? gs1DateToIso(elements["17"]) : undefined
+    return {
+      value: gtin,
+      gtin,
+      ...(elements["10"] && { lot: elements["10"] }),
+      ...(expiry && { expiry }),
+      ...(elements["21"] && { serial: elements["21"] }),
+    }
+  },
+}
+
+const registry: BarcodeFormat[] = [itmFormat, employeeBadgeFormat, gs1128Format, ean13Format, upcaFormat]
+
+/**
+ * Register an additional barcode format
+ * @param options.before - Id of an existing format this one should be tried before
+ */
+export function registerBarcodeFormat(format: BarcodeFormat, options: { before?: string } = {}): void {
+  unregisterBarcodeFormat(format.id)
+
+  const index = options.before ? registry.findIndex(f => f.id === options.before) : -1
+  if (index === -1) {
+    registry.push(format)
+  } else {
+    registry.splice(index, 0, format)
+  }
+}
+
+/**
+ * Remove a registered barcode format (built-in formats can be removed too)
+ */
+export function unregisterBarcodeFormat(id: string): boolean {
+  const index = registry.findIndex(f => f.id === id)
+  if (index === -1) return false
+  registry.splice(index, 1)
+  return true
+}
+
+/**
+ * Registered formats in the order they are tried
+ */
+export function getBarcodeFormats(): readonly BarcodeFormat[] {
+  return [...registry]
+}
+
+/**
+ * Parse a scanned code with the first registered format that accepts it
+ */
+export function parseBarcode(barcode: string): ParsedBarcode | null {
+  // trim() drops scanner line endings but keeps GS separators (FNC1)
+  const code = barcode.trim()
+  if (!code) return null
+
+  for (const format of registry) {
+    const parsed = format.parse(code)
+    if (parsed) {
+      return { ...parsed, format: format.id, target: format.target, raw: barcode }
+    }
+  }
+  return null
+}
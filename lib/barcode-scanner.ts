@@ -1,8 +1,26 @@
 /**
  * Simplified Barcode Scanner Utilities
- * Handles Code-128 barcode scanning and ITM to item ID conversion
+ * Maps scanned codes (any format registered in barcode-formats.ts) to products and employees
  */
 
+import { getBarcodeFormats, parseBarcode, toGtin14 } from "./barcode-formats"
+import type { ParsedBarcode } from "./barcode-formats"
+import type { Employee } from "./Services/employees.service"
+
+// Kinds of codes that can be attached to a product besides its item number
+export type AlternateCodeType = "manufacturer" | "legacy_sku" | "supplier_part"
+
+export const ALTERNATE_CODE_TYPE_LABELS: Record<AlternateCodeType, string> = {
+  manufacturer: "Manufacturer barcode",
+  legacy_sku: "Legacy SKU",
+  supplier_part: "Supplier part number",
+}
+
+export interface AlternateCode {
+  code: string
+  type: AlternateCodeType
+}
+
 // Product type definition
 // Balance and status are calculated by the database and should not be modified client-side
 export interface Product {
@@ -18,6 +36,11 @@ export interface Product {
   // "Low in Stock" -> 0 < balance < min_stock
   // "In Stock" -> balance >= min_stock
   status: "in-stock" | "low-stock" | "out-of-stock"
+  // Other codes printed on the item (manufacturer EAN, old SKU labels, supplier part numbers)
+  alternateCodes?: AlternateCode[]
+  // Cost per unit in `currency` (ISO 4217, defaults to env.DEFAULT_CURRENCY)
+  unitCost?: number | undefined
+  currency?: string | undefined
 }
 
 /**
@@ -25,17 +48,8 @@ export interface Product {
  * ITM001 -> 1, ITM004 -> 4, ITM024 -> 24, etc.
  */
 export function convertBarcodeToItemId(barcode: string): string | null {
-  const cleaned = barcode.trim().toUpperCase()
-  
-  // Match ITM followed by digits (Code-128 format)
-  const match = cleaned.match(/^ITM(\d+)$/i)
-  
-  if (match && match[1]) {
-    const itemNumber = parseInt(match[1], 10)
-    return itemNumber.toString()
-  }
-  
-  return null
+  const parsed = parseBarcode(barcode)
+  return parsed?.format === "itm" ? parsed.value : null
 }
 
 /**
@@ -48,41 +62,153 @@ export function findProductByItemId(itemId: string, products: Product[]): Produc
   }) || null
 }
 
+/**
+ * Normalise a product code for lookups: case-insensitive, and numeric GTINs
+ * (EAN-8/13, UPC-A, GTIN-14) padded so the same article matches across label types
+ */
+export function normalizeProductCode(code: string): string {
+  const cleaned = code.trim().toUpperCase()
+  return /^\d{8,14}$/.test(cleaned) ? toGtin14(cleaned) : cleaned
+}
+
+// Index per products array - rebuilt only when the array instance changes
+const productCodeIndexCache = new WeakMap<Product[], Map<string, Product>>()
+
+/**
+ * Build (or reuse) the lookup index of item numbers and alternate codes
+ */
+export function getProductCodeIndex(products: Product[]): Map<string, Product> {
+  const cached = productCodeIndexCache.get(products)
+  if (cached) return cached
+
+  const index = new Map<string, Product>()
+  for (const product of products) {
+    const codes = [String(product.id || ''), ...(product.alternateCodes ?? []).map(alt => alt.code)]
+    for (const code of codes) {
+      const key = normalizeProductCode(code)
+      // First product wins if two items share a code
+      if (key && !index.has(key)) {
+        index.set(key, product)
+      }
+    }
+  }
+
+  productCodeIndexCache.set(products, index)
+  return index
+}
+
+/**
+ * Finds product by item number or any of its alternate codes
+ */
+export function findProductByCode(code: string, products: Product[]): Product | null {
+  const key = normalizeProductCode(code)
+  return key ? getProductCodeIndex(products).get(key) ?? null : null
+}
+
+/**
+ * Finds product by GTIN (EAN-13, UPC-A or GS1-128 labels)
+ * Matches item numbers and alternate codes regardless of label type
+ */
+export function findProductByGtin(gtin: string, products: Product[]): Product | null {
+  return getProductCodeIndex(products).get(toGtin14(gtin)) ?? null
+}
+
+/**
+ * Finds employee by the code printed on their ID badge
+ */
+export function findEmployeeByBadge(badge: string, employees: Employee[]): Employee | null {
+  const needle = badge.trim().toUpperCase()
+  return employees.find(employee => String(employee.idBarcode || '').trim().toUpperCase() === needle) || null
+}
+
+export interface BarcodeProcessResult {
+  success: boolean
+  product: Product | null
+  itemId: string | null
+  // Set when an employee badge was scanned and matched
+  employee?: Employee | null
+  // Format details, including GS1 lot/expiry when present
+  parsed?: ParsedBarcode | null
+  error?: string
+}
+
 /**
  * Main barcode processing function
- * Converts ITM barcode to item ID and finds matching product
+ * Parses the barcode with the registered formats and finds the matching product or employee
+ * @param employees - Pass to resolve employee badges; without it badges are rejected as non-items
  */
 export function processBarcodeInput(
   barcode: string, 
-  products: Product[]
-): { success: boolean; product: Product | null; itemId: string | null; error?: string } {
-  // Convert barcode to item ID
-  const itemId = convertBarcodeToItemId(barcode)
+  products: Product[],
+  employees?: Employee[]
+): BarcodeProcessResult {
+  const parsed = parseBarcode(barcode)
   
-  if (!itemId) {
+  // Codes in no registered format may still be a legacy SKU or supplier part number
+  if (!parsed) {
+    const product = findProductByCode(barcode, products)
+    if (product) {
+      return { success: true, product, itemId: product.id, parsed: null }
+    }
+
+    const examples = getBarcodeFormats().map(format => `${format.label} (e.g., ${format.example})`).join(', ')
     return {
       success: false,
       product: null,
       itemId: null,
-      error: `Invalid barcode format. Expected ITM followed by numbers (e.g., ITM001, ITM004)`
+      parsed: null,
+      error: `No item found for code ${barcode.trim()}. Supported formats: ${examples}`
+    }
+  }
+  
+  if (parsed.target === 'employee') {
+    if (!employees) {
+      return {
+        success: false,
+        product: null,
+        itemId: null,
+        parsed,
+        error: `${parsed.value} is an employee badge, not an item barcode`
+      }
+    }
+
+    const employee = findEmployeeByBadge(parsed.value, employees)
+    return {
+      success: !!employee,
+      product: null,
+      itemId: null,
+      employee,
+      parsed,
+      ...(!employee && { error: `No employee found for badge ${parsed.value}` })
     }
   }
   
-  // Find product by item ID
-  const product = findProductByItemId(itemId, products)
+  // Retail codes match by GTIN, ITM codes by item ID
+  const product = (parsed.gtin
+    ? findProductByGtin(parsed.gtin, products)
+    : findProductByItemId(parsed.value, products)) ?? findProductByCode(parsed.raw, products)
+  const itemId = product?.id ?? parsed.value
   
   if (!product) {
     return {
       success: false,
       product: null,
       itemId,
-      error: `Product with item ID ${itemId} not found in inventory`
+      parsed,
+      error: parsed.gtin
+        ? `No product with ${getFormatLabel(parsed.format)} ${parsed.value} found in inventory`
+        : `Product with item ID ${itemId} not found in inventory`
     }
   }
   
   return {
     success: true,
     product,
-    itemId
+    itemId,
+    parsed
   }
-}
\ No newline at end of file
+}
+
+function getFormatLabel(formatId: string): string {
+  return getBarcodeFormats().find(format => format.id === formatId)?.label ?? 'barcode'
+}
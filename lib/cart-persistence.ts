@@ -4,6 +4,9 @@
  */
 
 import type { Product } from './barcode-scanner'
+import { calculateCartValuation } from './pricing'
+import { tabSync } from './tab-sync'
+import { stockReservations } from './stock-reservations'
 
 export interface CartItem {
   id: string
@@ -11,12 +14,17 @@ export interface CartItem {
   quantity: number
   addedAt: Date
   notes?: string | undefined
+  // Price snapshot taken when the item was added, so later price changes do not alter the cart
+  unitCost?: number | undefined
+  currency?: string | undefined
 }
 
 export interface CartState {
   items: CartItem[]
   totalItems: number
+  // Value of priced items in `currency`
   totalValue: number
+  currency?: string
   lastUpdated: Date
   sessionId: string
   employeeId?: string
@@ -71,15 +79,14 @@ function isStorageAvailable(): boolean {
 }
 
 /**
- * Calculate total value of cart items
+ * Calculate total value of cart items (snapshot price, falling back to the product's current price)
  */
-function calculateTotalValue(items: CartItem[]): number {
-  // Note: Product interface doesn't have price field yet
-  // For now, return 0 - can be extended when pricing is added
-  return items.reduce((total, item) => {
-    // Future: calculate actual price when Product interface includes price
-    return total + (0 * item.quantity)
-  }, 0)
+function calculateTotalValue(items: CartItem[]) {
+  return calculateCartValuation(items.map(item => ({
+    quantity: item.quantity,
+    unitCost: item.unitCost ?? item.product.unitCost,
+    currency: item.currency ?? item.product.currency,
+  })))
 }
 
 /**
@@ -107,7 +114,9 @@ export function saveCartState(cartState: Partial<CartState>): boolean {
 
     // Recalculate totals
     updatedState.totalItems = updatedState.items.reduce((sum, item) => sum + item.quantity, 0)
-    updatedState.totalValue = calculateTotalValue(updatedState.items)
+    const valuation = calculateTotalValue(updatedState.items)
+    updatedState.totalValue = valuation.total
+    updatedState.currency = valuation.currency
     updatedState.lastUpdated = new Date()
 
     const metadata: CartMetadata = {
@@ -124,6 +133,12 @@ export function saveCartState(cartState: Partial<CartState>): boolean {
     
     // Save to history for recovery
     saveCartToHistory(updatedState)
+
+    // Hold the cart's quantities against other kiosks (renews every line's expiry)
+    stockReservations.syncCart(updatedState.items)
+
+    // Other tabs reload the cart from localStorage
+    tabSync.publish({ type: 'cart_changed' })
     
     return true
   } catch (error) {
@@ -199,6 +214,7 @@ export function loadCartMetadata(): CartMetadata | null {
 
 /**
  * Check if a product is available for adding to cart
+ * Units reserved by other kiosks' carts do not count as available.
  */
 export function isProductAvailable(product: Product | null | undefined, requestedQty: number = 1): { available: boolean; reason?: string; maxAvailable?: number } {
   if (!product) return { available: false, reason: 'Product not found' }
@@ -214,8 +230,14 @@ export function isProductAvailable(product: Product | null | undefined, requeste
     if (product.balance <= 0) {
       return { available: false, reason: 'Item has no available balance', maxAvailable: 0 }
     }
-    if (requestedQty > product.balance) {
-      return { available: false, reason: `Only ${product.balance} available`, maxAvailable: product.balance }
+    const reserved = stockReservations.getReservedByOthers(product.id)
+    const available = Math.max(0, product.balance - reserved)
+    if (available <= 0) {
+      return { available: false, reason: `All ${product.balance} reserved in other carts`, maxAvailable: 0 }
+    }
+    if (requestedQty > available) {
+      const reservedNote = reserved > 0 ? ` (${reserved} reserved in other carts)` : ''
+      return { available: false, reason: `Only ${available} available${reservedNote}`, maxAvailable: available }
     }
   }
   
@@ -249,17 +271,18 @@ export function addToCart(product: Product, quantity: number = 1, notes?: string
     const existingItem = currentState.items[existingItemIndex]
     if (existingItem) {
       const newQuantity = existingItem.quantity + quantity
-      // Check if new total exceeds available balance
-      if (typeof product.balance === 'number' && newQuantity > product.balance) {
-        const canAdd = Math.max(0, product.balance - existingItem.quantity)
+      // Check if new total exceeds available balance (less other carts' reservations)
+      const available = typeof product.balance === 'number' ? stockReservations.getAvailable(product.id, product.balance) : undefined
+      if (available !== undefined && newQuantity > available) {
+        const canAdd = Math.max(0, available - existingItem.quantity)
         if (canAdd <= 0) {
-          return { success: false, error: `Cannot add more - already have maximum (${product.balance}) in cart` }
+          return { success: false, error: `Cannot add more - already have maximum (${available}) in cart` }
         }
         // Add only what's available
         existingItem.quantity += canAdd
         existingItem.notes = notes !== undefined ? notes : existingItem.notes
         saveCartState(currentState)
-        return { success: true, error: `Only ${canAdd} added (reached max balance of ${product.balance})` }
+        return { success: true, error: `Only ${canAdd} added (reached max available of ${available})` }
       }
       existingItem.quantity = newQuantity
       existingItem.notes = notes !== undefined ? notes : existingItem.notes
@@ -271,7 +294,9 @@ export function addToCart(product: Product, quantity: number = 1, notes?: string
       product,
       quantity,
       addedAt: new Date(),
-      ...(notes !== undefined && { notes })
+      ...(notes !== undefined && { notes }),
+      unitCost: product.unitCost,
+      currency: product.currency
     }
     currentState.items.push(cartItem)
   }
@@ -322,6 +347,8 @@ export function clearCartState(): boolean {
   try {
     localStorage.removeItem(CART_STORAGE_KEY)
     localStorage.removeItem(CART_METADATA_KEY)
+    stockReservations.releaseAll()
+    tabSync.publish({ type: 'cart_changed' })
     return true
   } catch (error) {
     console.error('Cart persistence: Failed to clear cart', error)
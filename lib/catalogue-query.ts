@@ -0,0 +1,55 @@
+/**
+ * Catalogue Query
+ * The dashboard's search, category/stock filters and sort order applied to a product list.
+ * Pure, so the same code runs in the catalogue worker and on the main thread as a fallback.
+ */
+
+import type { Product } from './barcode-scanner'
+import { getSortOrder } from './dashboard-filters'
+import type { DashboardFilters } from './dashboard-filters'
+import type { ItemUsageMap } from './item-usage'
+import { ProductSearchIndex } from './search-index'
+import { createComparator } from './sort-registry'
+
+export type CatalogueQuery = Pick<DashboardFilters, 'search' | 'excludedCategories' | 'showAvailable' | 'showUnavailable' | 'sortBy' | 'thenBy'>
+
+/**
+ * Products matching the query, in display order.
+ * `usage` is only needed by the checkout-history sort orders.
+ */
+export function queryCatalogue<T extends Product>(
+  index: ProductSearchIndex<T>,
+  products: readonly T[],
+  query: CatalogueQuery,
+  usage: ItemUsageMap | null = null,
+): T[] {
+  // Search: fuzzy, ranked, with field qualifiers
+  const ranked = query.search.trim()
+    ? index.search(query.search)
+    : products.map(item => ({ item, score: 0 }))
+
+  const excludedCategories = new Set(query.excludedCategories)
+  const filtered = ranked.filter(({ item: product }) => {
+    // Category filter - exclude products whose category is in the excluded set
+    if (excludedCategories.has(product.itemType)) {
+      return false
+    }
+
+    // Status filter
+    if (!query.showAvailable && (product.status === 'in-stock' || product.status === 'low-stock')) {
+      return false
+    }
+    if (!query.showUnavailable && product.status === 'out-of-stock') {
+      return false
+    }
+
+    return true
+  })
+
+  // Sort products (primary and secondary keys from the sort registry)
+  const scores = new Map(filtered.map(({ item, score }) => [item.id, score]))
+  const compare = createComparator<T>(getSortOrder(query), { scores, usage })
+  filtered.sort((a, b) => compare(a.item, b.item))
+
+  return filtered.map(({ item }) => item)
+}
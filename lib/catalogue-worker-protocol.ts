@@ -0,0 +1,24 @@
+/**
+ * Catalogue Worker Protocol
+ * Messages exchanged between the main thread and the catalogue worker.
+ *
+ * The worker keeps one indexed catalogue. Each `index` message replaces it and carries a version;
+ * queries name the version they were issued against, and results refer to products by their
+ * position in that version's list (so product objects are never cloned back to the main thread).
+ * Requests that expect a reply carry an id that the matching response echoes.
+ */
+
+import type { Product } from './barcode-scanner'
+import type { CatalogueQuery } from './catalogue-query'
+import type { ExportData, ExportOptions } from './export-utils'
+import type { ItemUsageMap } from './item-usage'
+
+export type CatalogueWorkerRequest =
+  | { type: 'index'; version: number; products: readonly Product[] }
+  | { type: 'query'; id: number; version: number; query: CatalogueQuery; usage: ItemUsageMap | null }
+  | { type: 'build-workbook'; id: number; data: ExportData; options: ExportOptions }
+
+export type CatalogueWorkerResponse =
+  | { type: 'query-result'; id: number; version: number; indices: number[] }
+  | { type: 'workbook'; id: number; buffer: ArrayBuffer }
+  | { type: 'error'; id: number; message: string }
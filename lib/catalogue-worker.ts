@@ -0,0 +1,150 @@
+/**
+ * Catalogue Worker Client
+ * Promise-based access to the catalogue worker. Where workers are unavailable (or the worker
+ * fails to start) the same code runs on the main thread instead, so callers never need to care.
+ */
+
+import type { Product } from './barcode-scanner'
+import { queryCatalogue } from './catalogue-query'
+import type { CatalogueQuery } from './catalogue-query'
+import type { CatalogueWorkerRequest, CatalogueWorkerResponse } from './catalogue-worker-protocol'
+import type { ExportData, ExportOptions } from './export-utils'
+import { buildInventoryWorkbook } from './inventory-workbook'
+import type { ItemUsageMap } from './item-usage'
+import { ProductSearchIndex } from './search-index'
+
+interface PendingRequest {
+  resolve: (response: CatalogueWorkerResponse) => void
+  reject: (error: Error) => void
+}
+
+class CatalogueWorkerClient {
+  private worker: Worker | null = null
+  private workerFailed = false
+  private nextRequestId = 1
+  private pending = new Map<number, PendingRequest>()
+
+  // Catalogue last sent to the worker
+  private indexedProducts: readonly Product[] | null = null
+  private indexedVersion = 0
+
+  // Main-thread fallback index, built lazily
+  private fallbackIndex: { products: readonly Product[]; index: ProductSearchIndex<Product> } | null = null
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker
+    if (typeof Worker === 'undefined') {
+      this.workerFailed = true
+      return null
+    }
+
+    try {
+      const worker = new Worker(new URL('./catalogue.worker.ts', import.meta.url), { type: 'module' })
+      worker.addEventListener('message', (event: MessageEvent<CatalogueWorkerResponse>) => this.handleResponse(event.data))
+      worker.addEventListener('error', (event) => this.handleWorkerError(event))
+      this.worker = worker
+      console.log('[CatalogueWorker] Worker started')
+    } catch (error) {
+      console.warn('[CatalogueWorker] Worker unavailable, using the main thread:', error)
+      this.workerFailed = true
+    }
+    return this.worker
+  }
+
+  private handleResponse(response: CatalogueWorkerResponse) {
+    const request = this.pending.get(response.id)
+    if (!request) return
+    this.pending.delete(response.id)
+
+    if (response.type === 'error') {
+      request.reject(new Error(response.message))
+    } else {
+      request.resolve(response)
+    }
+  }
+
+  // A worker that cannot load (e.g. blocked by CSP) is abandoned; later calls use the main thread
+  private handleWorkerError(event: ErrorEvent) {
+    console.error('[CatalogueWorker] Worker failed, falling back to the main thread:', event.message)
+    event.preventDefault()
+    this.worker?.terminate()
+    this.worker = null
+    this.workerFailed = true
+    this.indexedProducts = null
+
+    const error = new Error(event.message || 'Catalogue worker failed')
+    this.pending.forEach(request => request.reject(error))
+    this.pending.clear()
+  }
+
+  private request(worker: Worker, message: CatalogueWorkerRequest & { id: number }): Promise<CatalogueWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject })
+      worker.postMessage(message)
+    })
+  }
+
+  private queryOnMainThread(products: readonly Product[], query: CatalogueQuery, usage: ItemUsageMap | null): Product[] {
+    if (this.fallbackIndex?.products !== products) {
+      this.fallbackIndex = { products, index: new ProductSearchIndex(products) }
+    }
+    return queryCatalogue(this.fallbackIndex.index, products, query, usage)
+  }
+
+  /**
+   * Products matching the dashboard filters, in display order.
+   * The catalogue is re-indexed in the worker whenever a different product array is passed.
+   */
+  async query(products: readonly Product[], query: CatalogueQuery, usage: ItemUsageMap | null = null): Promise<Product[]> {
+    const worker = this.getWorker()
+    if (!worker) return this.queryOnMainThread(products, query, usage)
+
+    if (this.indexedProducts !== products) {
+      this.indexedProducts = products
+      this.indexedVersion++
+      worker.postMessage({ type: 'index', version: this.indexedVersion, products } satisfies CatalogueWorkerRequest)
+    }
+
+    try {
+      const response = await this.request(worker, {
+        type: 'query',
+        id: this.nextRequestId++,
+        version: this.indexedVersion,
+        query,
+        usage,
+      })
+      if (response.type !== 'query-result') throw new Error(`Unexpected ${response.type} response to a query`)
+
+      return response.indices.flatMap(index => products[index] ?? [])
+    } catch (error) {
+      if (!this.workerFailed) throw error
+      return this.queryOnMainThread(products, query, usage)
+    }
+  }
+
+  /**
+   * Inventory spreadsheet (.xlsx contents) for an export
+   */
+  async buildInventoryWorkbook(data: ExportData, options: ExportOptions = {}): Promise<ArrayBuffer> {
+    const worker = this.getWorker()
+    if (!worker) return buildInventoryWorkbook(data, options)
+
+    try {
+      const response = await this.request(worker, {
+        type: 'build-workbook',
+        id: this.nextRequestId++,
+        data,
+        options,
+      })
+      if (response.type !== 'workbook') throw new Error(`Unexpected ${response.type} response to a workbook request`)
+
+      return response.buffer
+    } catch (error) {
+      if (!this.workerFailed) throw error
+      return buildInventoryWorkbook(data, options)
+    }
+  }
+}
+
+// Export singleton instance
+export const catalogueWorker = new CatalogueWorkerClient()
@@ -0,0 +1,71 @@
+/**
+ * Catalogue Worker
+ * Indexes the catalogue, runs dashboard queries and builds export spreadsheets off the main
+ * thread, so typing, scrolling and barcode scans are not held up on large catalogues.
+ * See catalogue-worker-protocol.ts for the messages.
+ */
+
+import type { Product } from './barcode-scanner'
+import { queryCatalogue } from './catalogue-query'
+import type { CatalogueWorkerRequest, CatalogueWorkerResponse } from './catalogue-worker-protocol'
+import { buildInventoryWorkbook } from './inventory-workbook'
+import { ProductSearchIndex } from './search-index'
+
+interface IndexedCatalogue {
+  version: number
+  products: readonly Product[]
+  index: ProductSearchIndex<Product>
+  positions: Map<Product, number>
+}
+
+let catalogue: IndexedCatalogue | null = null
+
+function respond(response: CatalogueWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer })
+}
+
+function handleRequest(request: CatalogueWorkerRequest) {
+  switch (request.type) {
+    case 'index':
+      catalogue = {
+        version: request.version,
+        products: request.products,
+        index: new ProductSearchIndex(request.products),
+        positions: new Map(request.products.map((product, position) => [product, position])),
+      }
+      break
+
+    case 'query': {
+      if (!catalogue || catalogue.version !== request.version) {
+        throw new Error(`Catalogue version ${request.version} is not indexed`)
+      }
+      const { positions } = catalogue
+      const matches = queryCatalogue(catalogue.index, catalogue.products, request.query, request.usage)
+      respond({
+        type: 'query-result',
+        id: request.id,
+        version: request.version,
+        indices: matches.map(product => positions.get(product) ?? -1),
+      })
+      break
+    }
+
+    case 'build-workbook': {
+      const buffer = buildInventoryWorkbook(request.data, request.options)
+      respond({ type: 'workbook', id: request.id, buffer }, [buffer])
+      break
+    }
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<CatalogueWorkerRequest>) => {
+  const request = event.data
+  try {
+    handleRequest(request)
+  } catch (error) {
+    console.error('[CatalogueWorker] Request failed:', request.type, error)
+    if (request.type !== 'index') {
+      respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+})
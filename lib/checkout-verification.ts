@@ -0,0 +1,51 @@
+/**
+ * Checkout Verification
+ * Decides when the employee confirming a checkout must also enter their PIN:
+ * carts worth at least CHECKOUT_PIN_VALUE_THRESHOLD, or carts holding a restricted item type.
+ */
+
+import env from './env'
+import { calculateCartValuation, formatCurrency } from './pricing'
+import type { PricedLine } from './pricing'
+
+export interface VerifiableLine extends PricedLine {
+  name: string
+  itemType: string
+}
+
+export interface PinRequirement {
+  required: boolean
+  // Why the PIN is asked for, shown to the employee
+  reasons: string[]
+}
+
+/**
+ * Item types that always need a PIN (case-insensitive)
+ */
+export function isRestrictedItemType(itemType: string): boolean {
+  const type = itemType.trim().toLowerCase()
+  return type !== '' && env.CHECKOUT_PIN_ITEM_TYPES.some(restricted => restricted.toLowerCase() === type)
+}
+
+/**
+ * Work out whether a checkout of these lines needs the employee's PIN
+ */
+export function getPinRequirement(lines: VerifiableLine[]): PinRequirement {
+  const reasons: string[] = []
+
+  // The threshold is in the default currency, so carts valued in another currency are not compared
+  const threshold = env.CHECKOUT_PIN_VALUE_THRESHOLD
+  if (threshold > 0) {
+    const valuation = calculateCartValuation(lines)
+    if (valuation.currency === env.DEFAULT_CURRENCY && valuation.total >= threshold) {
+      reasons.push(`Cart value is ${formatCurrency(valuation.total, valuation.currency)} (PIN required from ${formatCurrency(threshold)})`)
+    }
+  }
+
+  const restricted = lines.filter(line => isRestrictedItemType(line.itemType))
+  if (restricted.length > 0) {
+    reasons.push(`Restricted item${restricted.length === 1 ? '' : 's'}: ${restricted.map(line => line.name).join(', ')}`)
+  }
+
+  return { required: reasons.length > 0, reasons }
+}
@@ -0,0 +1,211 @@
+/**
+ * Dashboard Filters
+ * The dashboard's filter state as a plain object, so it can be saved as a named preset on this
+ * kiosk or encoded into the page URL (reloads keep it, and a link opens the dashboard pre-filtered).
+ *
+ * URL parameters (defaults are omitted):
+ *   q=type:consumables loc:"Storage A" status:low   search, including qualifiers
+ *   hide=Electronics&hide=Furniture                 excluded categories (one parameter each)
+ *   show=available | unavailable | none             stock status toggles (both on when absent)
+ *   sort=stock-low                                  sort order
+ *   then=name-asc                                   secondary sort order
+ *   view=list                                       grid or list
+ */
+
+import { getSortOptions, isSortOptionId } from './sort-registry'
+import type { SortOptionId } from './sort-registry'
+
+export type DashboardViewMode = 'grid' | 'list'
+
+// Sort orders offered on the dashboard (see sort-registry.ts)
+export const DASHBOARD_SORT_OPTIONS: readonly SortOptionId[] = getSortOptions('catalogue')
+
+export type DashboardSort = SortOptionId
+
+export interface DashboardFilters {
+  search: string
+  excludedCategories: string[]
+  showAvailable: boolean
+  showUnavailable: boolean
+  sortBy: DashboardSort
+  // Breaks ties in the primary order
+  thenBy: DashboardSort | null
+  viewMode: DashboardViewMode
+}
+
+export interface FilterPreset {
+  id: string
+  name: string
+  filters: DashboardFilters
+  createdAt: string
+}
+
+export const DEFAULT_DASHBOARD_FILTERS: DashboardFilters = {
+  search: '',
+  excludedCategories: [],
+  showAvailable: true,
+  showUnavailable: true,
+  sortBy: 'relevance',
+  thenBy: null,
+  viewMode: 'grid',
+}
+
+const PRESETS_STORAGE_KEY = 'toolbox_filter_presets'
+const MAX_PRESETS = 20
+
+// Parameters owned by the dashboard; anything else in the URL is left alone
+const FILTER_PARAMS = ['q', 'hide', 'show', 'sort', 'then', 'view'] as const
+
+export function isDashboardSort(value: unknown): value is DashboardSort {
+  return isSortOptionId(value) && DASHBOARD_SORT_OPTIONS.includes(value)
+}
+
+/**
+ * Sort levels for the filters: the primary order, then the secondary one when set
+ */
+export function getSortOrder(filters: Pick<DashboardFilters, 'sortBy' | 'thenBy'>): DashboardSort[] {
+  return filters.thenBy && filters.thenBy !== filters.sortBy ? [filters.sortBy, filters.thenBy] : [filters.sortBy]
+}
+
+/**
+ * Encode the non-default parts of the filters as URL parameters
+ */
+export function filtersToSearchParams(filters: DashboardFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.search.trim()) params.set('q', filters.search.trim())
+  for (const category of filters.excludedCategories) params.append('hide', category)
+  if (!filters.showAvailable || !filters.showUnavailable) {
+    params.set('show', filters.showAvailable ? 'available' : filters.showUnavailable ? 'unavailable' : 'none')
+  }
+  if (filters.sortBy !== DEFAULT_DASHBOARD_FILTERS.sortBy) params.set('sort', filters.sortBy)
+  if (filters.thenBy) params.set('then', filters.thenBy)
+  if (filters.viewMode !== DEFAULT_DASHBOARD_FILTERS.viewMode) params.set('view', filters.viewMode)
+  return params
+}
+
+/**
+ * Decode filters from URL parameters; missing or invalid values fall back to the defaults
+ */
+export function filtersFromSearchParams(params: URLSearchParams): DashboardFilters {
+  const show = params.get('show')
+  const sort = params.get('sort')
+  const thenBy = params.get('then')
+  const view = params.get('view')
+
+  return {
+    search: params.get('q')?.trim() ?? '',
+    excludedCategories: params.getAll('hide').map(category => category.trim()).filter(Boolean),
+    showAvailable: show === null || show === 'available',
+    showUnavailable: show === null || show === 'unavailable',
+    sortBy: isDashboardSort(sort) ? sort : DEFAULT_DASHBOARD_FILTERS.sortBy,
+    thenBy: isDashboardSort(thenBy) ? thenBy : DEFAULT_DASHBOARD_FILTERS.thenBy,
+    viewMode: view === 'list' || view === 'grid' ? view : DEFAULT_DASHBOARD_FILTERS.viewMode,
+  }
+}
+
+/**
+ * Filters encoded in the current page URL (the defaults when there are none)
+ */
+export function readFiltersFromUrl(): DashboardFilters {
+  if (typeof window === 'undefined') return { ...DEFAULT_DASHBOARD_FILTERS }
+  return filtersFromSearchParams(new URLSearchParams(window.location.search))
+}
+
+/**
+ * Link that opens the dashboard with these filters
+ */
+export function buildFiltersUrl(filters: DashboardFilters): string {
+  const url = new URL(window.location.href)
+  for (const param of FILTER_PARAMS) url.searchParams.delete(param)
+  filtersToSearchParams(filters).forEach((value, key) => url.searchParams.append(key, value))
+  return url.toString()
+}
+
+/**
+ * Mirror the filters into the address bar without adding history entries
+ */
+export function writeFiltersToUrl(filters: DashboardFilters) {
+  if (typeof window === 'undefined') return
+
+  const url = buildFiltersUrl(filters)
+  if (url !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url)
+  }
+}
+
+/**
+ * Filters of a stored preset; fields that are missing (older versions) or malformed fall back
+ * to the defaults, as they do in the URL
+ */
+function presetFilters(stored: Partial<Record<keyof DashboardFilters, unknown>>): DashboardFilters {
+  const { search, excludedCategories, showAvailable, showUnavailable, sortBy, thenBy, viewMode } = stored
+  return {
+    search: typeof search === 'string' ? search : DEFAULT_DASHBOARD_FILTERS.search,
+    excludedCategories: Array.isArray(excludedCategories)
+      ? excludedCategories.filter((category): category is string => typeof category === 'string')
+      : DEFAULT_DASHBOARD_FILTERS.excludedCategories,
+    showAvailable: typeof showAvailable === 'boolean' ? showAvailable : DEFAULT_DASHBOARD_FILTERS.showAvailable,
+    showUnavailable: typeof showUnavailable === 'boolean' ? showUnavailable : DEFAULT_DASHBOARD_FILTERS.showUnavailable,
+    sortBy: isDashboardSort(sortBy) ? sortBy : DEFAULT_DASHBOARD_FILTERS.sortBy,
+    thenBy: isDashboardSort(thenBy) ? thenBy : DEFAULT_DASHBOARD_FILTERS.thenBy,
+    viewMode: viewMode === 'list' || viewMode === 'grid' ? viewMode : DEFAULT_DASHBOARD_FILTERS.viewMode,
+  }
+}
+
+/**
+ * Presets saved on this kiosk, newest first
+ */
+export function loadFilterPresets(): FilterPreset[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY)
+    if (!raw) return []
+
+    const stored = JSON.parse(raw)
+    if (!Array.isArray(stored)) return []
+    return stored
+      .filter((preset): preset is FilterPreset => typeof preset?.id === 'string' && typeof preset?.name === 'string' && typeof preset?.filters === 'object' && preset.filters !== null)
+      .map(preset => ({ ...preset, filters: presetFilters(preset.filters) }))
+  } catch (error) {
+    console.error('[DashboardFilters] Failed to load filter presets:', error)
+    return []
+  }
+}
+
+function storeFilterPresets(presets: FilterPreset[]) {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets))
+  } catch (error) {
+    console.error('[DashboardFilters] Failed to save filter presets:', error)
+  }
+}
+
+/**
+ * Save the filters under a name; a preset with the same name is replaced
+ * @returns The updated preset list
+ */
+export function saveFilterPreset(name: string, filters: DashboardFilters): FilterPreset[] {
+  const trimmed = name.trim()
+  const others = loadFilterPresets().filter(preset => preset.name.toLowerCase() !== trimmed.toLowerCase())
+  const preset: FilterPreset = {
+    id: `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: trimmed,
+    filters: { ...filters, excludedCategories: [...filters.excludedCategories] },
+    createdAt: new Date().toISOString(),
+  }
+
+  const presets = [preset, ...others].slice(0, MAX_PRESETS)
+  storeFilterPresets(presets)
+  return presets
+}
+
+/**
+ * Remove a saved preset
+ * @returns The updated preset list
+ */
+export function deleteFilterPreset(id: string): FilterPreset[] {
+  const presets = loadFilterPresets().filter(preset => preset.id !== id)
+  storeFilterPresets(presets)
+  return presets
+}
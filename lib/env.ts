@@ -44,9 +44,27 @@ export interface EnvConfig {
   // Feature flags
   ENABLE_BARCODE_SCANNER: boolean
   ENABLE_OFFLINE_MODE: boolean
+  ENABLE_SERVICE_WORKER: boolean
   ENABLE_EXPORT_FEATURES: boolean
   DEMO_MODE: boolean
   
+  // Barcode formats
+  EMPLOYEE_BADGE_PREFIX: string
+  
+  // Pricing
+  DEFAULT_CURRENCY: string
+  
+  // Loans
+  LOAN_PERIOD_DAYS: number
+  
+  // Checkout verification
+  CHECKOUT_PIN_VALUE_THRESHOLD: number
+  CHECKOUT_PIN_ITEM_TYPES: string[]
+  
+  // Realtime
+  REALTIME_EVENTS_PATH: string
+  REALTIME_POLL_INTERVAL_MS: number
+  
   // Logging
   LOG_LEVEL: string
   
@@ -76,8 +94,26 @@ export const env: Readonly<EnvConfig> = {
   // Feature flags
   ENABLE_BARCODE_SCANNER: getEnvVar('NEXT_PUBLIC_ENABLE_BARCODE_SCANNER') !== 'false',
   ENABLE_OFFLINE_MODE: getEnvVar('NEXT_PUBLIC_ENABLE_OFFLINE_MODE') !== 'false',
+  ENABLE_SERVICE_WORKER: getEnvVar('NEXT_PUBLIC_ENABLE_SERVICE_WORKER') === 'true', // Opt-in: caching and background replay of queued checkouts
   ENABLE_EXPORT_FEATURES: getEnvVar('NEXT_PUBLIC_ENABLE_EXPORT_FEATURES') !== 'false',
-  DEMO_MODE: true, // Always true for demo version
+  DEMO_MODE: getEnvVar('NEXT_PUBLIC_DEMO_MODE') !== 'false', // Demo version defaults to mock data
+  
+  // Barcode formats
+  EMPLOYEE_BADGE_PREFIX: getEnvVar('NEXT_PUBLIC_EMPLOYEE_BADGE_PREFIX') || 'EMP',
+  
+  // Pricing (ISO 4217 code used when an item does not specify one)
+  DEFAULT_CURRENCY: (getEnvVar('NEXT_PUBLIC_DEFAULT_CURRENCY') || 'PHP').toUpperCase(),
+  
+  // Loans (days a tool may stay checked out before it is flagged overdue)
+  LOAN_PERIOD_DAYS: parseInt(getEnvVar('NEXT_PUBLIC_LOAN_PERIOD_DAYS') || '7'),
+  
+  // Checkout verification (employee PIN required at or above this cart value, 0 = never; or for these item types)
+  CHECKOUT_PIN_VALUE_THRESHOLD: parseFloat(getEnvVar('NEXT_PUBLIC_CHECKOUT_PIN_VALUE_THRESHOLD') || '0'),
+  CHECKOUT_PIN_ITEM_TYPES: (getEnvVar('NEXT_PUBLIC_CHECKOUT_PIN_ITEM_TYPES') || '').split(',').map(type => type.trim()).filter(Boolean),
+  
+  // Realtime (Server-Sent Events path, set empty to always poll; polling interval used as fallback)
+  REALTIME_EVENTS_PATH: getEnvVar('NEXT_PUBLIC_REALTIME_EVENTS_PATH') ?? '/api/events',
+  REALTIME_POLL_INTERVAL_MS: parseInt(getEnvVar('NEXT_PUBLIC_REALTIME_POLL_INTERVAL_MS') || '15000'),
   
   // Logging
   LOG_LEVEL: getEnvVar('NEXT_PUBLIC_LOG_LEVEL') || 'info',
@@ -1,9 +1,17 @@
 import * as XLSX from 'xlsx';
 import type { Product } from './barcode-scanner';
+import { parseTransactionLog, TRANSACTION_TYPE_LABELS } from './transaction-records';
+import { catalogueWorker } from './catalogue-worker';
+import { flattenProductData } from './inventory-workbook';
+import { getDaysOnLoan, isHeldItemOverdue } from './holdings';
+import type { LedgerEntry } from './holdings';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
 
 export interface ExportOptions {
   filename?: string;
   includeMetadata?: boolean;
+  sheetName?: string;
 }
 
 export interface ExportData {
@@ -17,25 +25,6 @@ export interface ExportData {
   };
 }
 
-// Convert products to a flat structure for export
-const flattenProductData = (products: Product[], includeMetadata: boolean = true) => {
-  return products.map(product => ({
-    'Item ID': product.id || 'N/A',
-    'Name': product.name || 'Unknown',
-    'Brand': product.brand || '',
-    'Item Type': product.itemType || 'General',
-    'Location': product.location || '',
-    'Balance': product.balance || 0,
-    'Status': product.status || 'unknown',
-    'Status Text': product.status === 'in-stock' ? 'In Stock' : 
-                   product.status === 'low-stock' ? 'Low Stock' : 
-                   product.status === 'out-of-stock' ? 'Out of Stock' : 'Unknown',
-    ...(includeMetadata && {
-      'Export Date': new Date().toISOString(),
-    })
-  }));
-};
-
 // Export to CSV format
 export const exportToCSV = (data: ExportData, options: ExportOptions = {}) => {
   const { filename = 'inventory-export', includeMetadata = true } = options;
@@ -88,64 +77,12 @@ export const exportToCSV = (data: ExportData, options: ExportOptions = {}) => {
   URL.revokeObjectURL(url);
 };
 
-// Export to Excel (XLSX) format
-export const exportToXLSX = (data: ExportData, options: ExportOptions = {}) => {
-  const { filename = 'inventory-export', includeMetadata = true } = options;
-  
-  const flatData = flattenProductData(data.products, includeMetadata);
-  
-  // Create workbook
-  const workbook = XLSX.utils.book_new();
-  
-  // Main data worksheet
-  const mainWorksheet = XLSX.utils.json_to_sheet(flatData);
-  
-  // Auto-size columns
-  const columnWidths = Object.keys(flatData[0] || {}).map(key => ({
-    wch: Math.max(
-      key.length,
-      ...flatData.map(row => String(row[key as keyof typeof row] || '').length)
-    ) + 2
-  }));
-  mainWorksheet['!cols'] = columnWidths;
-  
-  XLSX.utils.book_append_sheet(workbook, mainWorksheet, 'Inventory');
-  
-  // Add metadata sheet if requested
-  if (includeMetadata && data.metadata) {
-    const metadataSheet = XLSX.utils.json_to_sheet([
-      { Property: 'Export Date', Value: data.exportDate },
-      { Property: 'Total Items', Value: data.totalItems },
-      { Property: 'API URL', Value: data.metadata.apiUrl },
-      { Property: 'API Connected', Value: data.metadata.isConnected ? 'Yes' : 'No' },
-      { Property: 'Last Sync', Value: data.metadata.lastSync || 'Never' },
-      { Property: 'Export Format', Value: 'Excel (XLSX)' },
-    ]);
-    
-    metadataSheet['!cols'] = [{ wch: 15 }, { wch: 30 }];
-    XLSX.utils.book_append_sheet(workbook, metadataSheet, 'Export Info');
-  }
-  
-  // Add summary sheet
-  const categories = [...new Set(data.products.map(p => p.itemType || 'General'))];
-  const summaryData = categories.map(category => {
-    const categoryProducts = data.products.filter(p => (p.itemType || 'General') === category);
-    const totalItems = categoryProducts.reduce((sum, p) => sum + (p.balance || 0), 0);
-    
-    return {
-      Category: category,
-      'Product Count': categoryProducts.length,
-      'Total Items': totalItems,
-      'Avg Items per Product': categoryProducts.length > 0 ? (totalItems / categoryProducts.length).toFixed(1) : 0
-    };
-  });
-  
-  const summarySheet = XLSX.utils.json_to_sheet(summaryData);
-  summarySheet['!cols'] = [{ wch: 20 }, { wch: 15 }, { wch: 12 }, { wch: 15 }, { wch: 20 }];
-  XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
-  
-  // Write file
-  XLSX.writeFile(workbook, `${filename}.xlsx`);
+// Export to Excel (XLSX) format; the workbook is built by the catalogue worker so the UI stays responsive
+export const exportToXLSX = async (data: ExportData, options: ExportOptions = {}) => {
+  const { filename = 'inventory-export' } = options;
+
+  const buffer = await catalogueWorker.buildInventoryWorkbook(data, options);
+  downloadBlob(new Blob([buffer], { type: XLSX_MIME_TYPE }), `${filename}.xlsx`);
 };
 
 // Export to JSON format
@@ -211,7 +148,7 @@ export const prepareExportData = (
 
 // Export logs specifically (array of normalized log objects)
 export const exportLogsToXLSX = (logs: Array<any>, options: ExportOptions = {}) => {
-  const { filename = 'logs-export' } = options;
+  const { filename = 'logs-export', sheetName = 'Logs' } = options;
 
   // Normalize logs to rows with specific columns
   const rows = logs.map((l) => ({
@@ -221,12 +158,70 @@ export const exportLogsToXLSX = (logs: Array<any>, options: ExportOptions = {})
     'Log Time': l.log_time || '',
   }));
 
+  // One row per item moved, with legacy free-text entries upgraded to line items
+  const lineRows = logs.flatMap((l) => {
+    const transaction = parseTransactionLog({ ...l, username: l.username || l.user || 'Unknown', details: l.details || '' });
+    return transaction.items.map(item => ({
+      'Log ID': l.id ?? '',
+      'Log Date': l.log_date || '',
+      'Log Time': l.log_time || '',
+      Username: transaction.username,
+      'ID Number': transaction.idNumber || '',
+      Type: TRANSACTION_TYPE_LABELS[transaction.type],
+      'Item No': item.id,
+      'Item Name': item.name,
+      Quantity: item.quantity,
+      Unit: item.unit,
+      'Balance Before': item.balanceBefore ?? '',
+      'Balance After': item.balanceAfter ?? '',
+      Condition: item.condition || '',
+      Source: transaction.isLegacy ? 'Legacy text' : 'Structured',
+    }));
+  });
+
   const workbook = XLSX.utils.book_new();
-  const worksheet = XLSX.utils.json_to_sheet(rows);
+  appendAutoSizedSheet(workbook, rows, sheetName);
+  if (lineRows.length > 0) {
+    appendAutoSizedSheet(workbook, lineRows, 'Line Items');
+  }
+  XLSX.writeFile(workbook, `${filename}.xlsx`);
+};
 
-  const columnWidths = Object.keys(rows[0] || {}).map(key => ({ wch: Math.max(key.length, ...rows.map((r: any) => String((r as any)[key] || '').length)) + 2 }));
-  worksheet['!cols'] = columnWidths;
+// Export the outstanding-items ledger: one row per employee and item still on loan
+export const exportLedgerToXLSX = (ledger: LedgerEntry[], loanPeriodDays: number, options: ExportOptions = {}) => {
+  const { filename = 'outstanding-items', sheetName = 'Outstanding Items' } = options;
 
-  XLSX.utils.book_append_sheet(workbook, worksheet, 'Logs');
+  const rows = ledger.flatMap(entry => entry.items.map(item => ({
+    Employee: entry.username,
+    'ID Number': entry.idNumber,
+    'Item No': item.itemId,
+    Item: item.name,
+    Qty: item.quantity,
+    'Out Since': item.oldestCheckedOut ?? '',
+    'Days on Loan': item.oldestCheckedOut ? getDaysOnLoan(item.oldestCheckedOut) : '',
+    Overdue: isHeldItemOverdue(item, loanPeriodDays) ? 'Yes' : 'No',
+  })));
+
+  const workbook = XLSX.utils.book_new();
+  appendAutoSizedSheet(workbook, rows, sheetName);
   XLSX.writeFile(workbook, `${filename}.xlsx`);
-};
\ No newline at end of file
+};
+
+const appendAutoSizedSheet = (workbook: XLSX.WorkBook, rows: Array<Record<string, unknown>>, name: string) => {
+  const worksheet = XLSX.utils.json_to_sheet(rows);
+  const columnWidths = Object.keys(rows[0] || {}).map(key => ({ wch: Math.max(key.length, ...rows.map(r => String(r[key] ?? '').length)) + 2 }));
+  worksheet['!cols'] = columnWidths;
+  XLSX.utils.book_append_sheet(workbook, worksheet, name);
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
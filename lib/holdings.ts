@@ -0,0 +1,190 @@
+/**
+ * Employee Holdings
+ * Derives who currently holds which tools from checkout and return transaction logs,
+ * flags loans that are past the loan period and builds the log entry written when
+ * tools are checked back in.
+ */
+
+import type { EnhancedTransactionData, TransactionLogData } from './Services/transactions.service'
+import type { Employee } from './Services/employees.service'
+import { createTransaction, parseTransactionLog, DEFAULT_UNIT } from './transaction-records'
+import env from './env'
+
+export type ReturnCondition = 'good' | 'damaged' | 'lost'
+
+export const RETURN_CONDITION_LABELS: Record<ReturnCondition, string> = {
+  good: 'Good',
+  damaged: 'Damaged',
+  lost: 'Lost',
+}
+
+// Only items returned in good condition go back on the shelf; damaged and lost
+// items close the loan but are left for a manual stock adjustment or write-off
+export const RESTOCKED_CONDITIONS: readonly ReturnCondition[] = ['good']
+
+export const RETURN_PURPOSE = 'Tool return'
+
+export interface ReturnLine {
+  itemId: string
+  name: string
+  quantity: number
+  condition: ReturnCondition
+  // Stock on hand before the return, when known
+  balance?: number | undefined
+}
+
+export interface HeldItem {
+  itemId: string
+  name: string
+  quantity: number
+  // Dates (YYYY-MM-DD) of the oldest still-outstanding and the most recent checkout
+  oldestCheckedOut?: string
+  lastCheckedOut?: string
+}
+
+export interface LedgerEntry {
+  idNumber: string
+  username: string
+  items: HeldItem[]
+}
+
+// Units checked out together on one date
+interface LoanLot {
+  date: string
+  quantity: number
+}
+
+const LOAN_PERIOD_STORAGE_KEY = 'toolbox-loan-period-days'
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Net checkouts against returns for every employee (grouped by id_number).
+ * Returns close the oldest outstanding checkout first, so overdue dates follow the loans still out.
+ * Expects logs newest first, as the transactions API returns them.
+ */
+export function deriveHoldingsLedger(logs: TransactionLogData[]): LedgerEntry[] {
+  const employees = new Map<string, { username: string; items: Map<string, { name: string; lots: LoanLot[] }> }>()
+
+  // Oldest first; the stable sort keeps same-second entries in the order they were written
+  const orderedLogs = [...logs]
+    .reverse()
+    .sort((a, b) => `${a.log_date ?? ''} ${a.log_time ?? ''}`.localeCompare(`${b.log_date ?? ''} ${b.log_time ?? ''}`))
+
+  for (const log of orderedLogs) {
+    const idNumber = (log.id_number || '').trim().toUpperCase()
+    const transaction = parseTransactionLog(log)
+    if (!idNumber || (transaction.type !== 'checkout' && transaction.type !== 'return')) continue
+
+    const employee = employees.get(idNumber) ?? { username: log.username, items: new Map() }
+    employee.username = log.username || employee.username
+    employees.set(idNumber, employee)
+
+    for (const line of transaction.items) {
+      const item = employee.items.get(line.id) ?? { name: line.name, lots: [] }
+      employee.items.set(line.id, item)
+
+      if (transaction.type === 'checkout') {
+        item.lots.push({ date: log.log_date ?? '', quantity: line.quantity })
+        continue
+      }
+
+      let remaining = line.quantity
+      while (remaining > 0 && item.lots.length > 0) {
+        const lot = item.lots[0]!
+        const returned = Math.min(lot.quantity, remaining)
+        lot.quantity -= returned
+        remaining -= returned
+        if (lot.quantity === 0) item.lots.shift()
+      }
+    }
+  }
+
+  const ledger: LedgerEntry[] = []
+  for (const [idNumber, employee] of employees) {
+    const items: HeldItem[] = []
+    for (const [itemId, item] of employee.items) {
+      const quantity = item.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+      if (quantity === 0) continue
+
+      const dates = item.lots.map(lot => lot.date).filter(Boolean)
+      items.push({
+        itemId,
+        name: item.name,
+        quantity,
+        ...(dates.length > 0 && { oldestCheckedOut: dates[0]!, lastCheckedOut: dates[dates.length - 1]! }),
+      })
+    }
+    if (items.length > 0) {
+      ledger.push({ idNumber, username: employee.username, items })
+    }
+  }
+  return ledger
+}
+
+/**
+ * Items one employee currently holds
+ */
+export function deriveEmployeeHoldings(logs: TransactionLogData[], idNumber: string): HeldItem[] {
+  const needle = idNumber.trim().toUpperCase()
+  return deriveHoldingsLedger(logs).find(entry => entry.idNumber === needle)?.items ?? []
+}
+
+/**
+ * Whole days since a YYYY-MM-DD checkout date (0 when the date is unknown)
+ */
+export function getDaysOnLoan(checkedOut: string | undefined, now: Date = new Date()): number {
+  if (!checkedOut) return 0
+  const start = new Date(`${checkedOut}T00:00:00`)
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const days = Math.floor((today.getTime() - start.getTime()) / MS_PER_DAY)
+  return Number.isFinite(days) ? Math.max(0, days) : 0
+}
+
+/**
+ * Whether the oldest outstanding unit of an item has been out longer than the loan period
+ */
+export function isHeldItemOverdue(item: HeldItem, loanPeriodDays: number, now: Date = new Date()): boolean {
+  return loanPeriodDays > 0 && getDaysOnLoan(item.oldestCheckedOut, now) > loanPeriodDays
+}
+
+/**
+ * Loan period for this device: the saved override, otherwise env.LOAN_PERIOD_DAYS
+ */
+export function getLoanPeriodDays(): number {
+  if (typeof window === 'undefined') return env.LOAN_PERIOD_DAYS
+  const stored = parseInt(localStorage.getItem(LOAN_PERIOD_STORAGE_KEY) || '')
+  return Number.isFinite(stored) && stored > 0 ? stored : env.LOAN_PERIOD_DAYS
+}
+
+export function saveLoanPeriodDays(days: number) {
+  try {
+    localStorage.setItem(LOAN_PERIOD_STORAGE_KEY, String(days))
+  } catch (error) {
+    console.error('[Holdings] Failed to save loan period:', error)
+  }
+}
+
+/**
+ * Build the transaction recorded for a check-in
+ */
+export function buildReturnTransaction(employee: Employee, lines: ReturnLine[], notes?: string): EnhancedTransactionData {
+  return createTransaction({
+    type: 'return',
+    username: employee.fullName,
+    idNumber: employee.idNumber,
+    idBarcode: employee.idBarcode,
+    purpose: notes?.trim() ? `${RETURN_PURPOSE}: ${notes.trim()}` : RETURN_PURPOSE,
+    items: lines.map(line => {
+      const restocked = RESTOCKED_CONDITIONS.includes(line.condition)
+      return {
+        id: line.itemId,
+        name: line.name,
+        quantity: line.quantity,
+        unit: DEFAULT_UNIT,
+        condition: line.condition,
+        balanceBefore: line.balance,
+        balanceAfter: line.balance === undefined ? undefined : line.balance + (restocked ? line.quantity : 0),
+      }
+    }),
+  })
+}
@@ -0,0 +1,87 @@
+/**
+ * Inventory Workbook
+ * Spreadsheet generation for inventory exports. No DOM access, so it can run inside the
+ * catalogue worker; export-utils turns the result into a download.
+ */
+
+import * as XLSX from 'xlsx';
+import type { Product } from './barcode-scanner';
+import type { ExportData, ExportOptions } from './export-utils';
+
+// Convert products to a flat structure for export
+export const flattenProductData = (products: Product[], includeMetadata: boolean = true) => {
+  return products.map(product => ({
+    'Item ID': product.id || 'N/A',
+    'Name': product.name || 'Unknown',
+    'Brand': product.brand || '',
+    'Item Type': product.itemType || 'General',
+    'Location': product.location || '',
+    'Balance': product.balance || 0,
+    'Status': product.status || 'unknown',
+    'Status Text': product.status === 'in-stock' ? 'In Stock' : 
+                   product.status === 'low-stock' ? 'Low Stock' : 
+                   product.status === 'out-of-stock' ? 'Out of Stock' : 'Unknown',
+    ...(includeMetadata && {
+      'Export Date': new Date().toISOString(),
+    })
+  }));
+};
+
+// Build the Inventory, Export Info and Summary sheets as an .xlsx file
+export const buildInventoryWorkbook = (data: ExportData, options: ExportOptions = {}): ArrayBuffer => {
+  const { includeMetadata = true } = options;
+  
+  const flatData = flattenProductData(data.products, includeMetadata);
+  
+  // Create workbook
+  const workbook = XLSX.utils.book_new();
+  
+  // Main data worksheet
+  const mainWorksheet = XLSX.utils.json_to_sheet(flatData);
+  
+  // Auto-size columns
+  const columnWidths = Object.keys(flatData[0] || {}).map(key => ({
+    wch: Math.max(
+      key.length,
+      ...flatData.map(row => String(row[key as keyof typeof row] || '').length)
+    ) + 2
+  }));
+  mainWorksheet['!cols'] = columnWidths;
+  
+  XLSX.utils.book_append_sheet(workbook, mainWorksheet, 'Inventory');
+  
+  // Add metadata sheet if requested
+  if (includeMetadata && data.metadata) {
+    const metadataSheet = XLSX.utils.json_to_sheet([
+      { Property: 'Export Date', Value: data.exportDate },
+      { Property: 'Total Items', Value: data.totalItems },
+      { Property: 'API URL', Value: data.metadata.apiUrl },
+      { Property: 'API Connected', Value: data.metadata.isConnected ? 'Yes' : 'No' },
+      { Property: 'Last Sync', Value: data.metadata.lastSync || 'Never' },
+      { Property: 'Export Format', Value: 'Excel (XLSX)' },
+    ]);
+    
+    metadataSheet['!cols'] = [{ wch: 15 }, { wch: 30 }];
+    XLSX.utils.book_append_sheet(workbook, metadataSheet, 'Export Info');
+  }
+  
+  // Add summary sheet
+  const categories = [...new Set(data.products.map(p => p.itemType || 'General'))];
+  const summaryData = categories.map(category => {
+    const categoryProducts = data.products.filter(p => (p.itemType || 'General') === category);
+    const totalItems = categoryProducts.reduce((sum, p) => sum + (p.balance || 0), 0);
+    
+    return {
+      Category: category,
+      'Product Count': categoryProducts.length,
+      'Total Items': totalItems,
+      'Avg Items per Product': categoryProducts.length > 0 ? (totalItems / categoryProducts.length).toFixed(1) : 0
+    };
+  });
+  
+  const summarySheet = XLSX.utils.json_to_sheet(summaryData);
+  summarySheet['!cols'] = [{ wch: 20 }, { wch: 15 }, { wch: 12 }, { wch: 15 }, { wch: 20 }];
+  XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+  
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+};
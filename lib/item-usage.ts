@@ -0,0 +1,47 @@
+/**
+ * Item Usage
+ * How often and how recently each item has been checked out, derived from the transaction
+ * logs. Feeds the "Recently Checked Out" and "Most Used" sort orders.
+ */
+
+import type { TransactionLogData } from './Services/transactions.service'
+import { parseTransactionLog } from './transaction-records'
+
+export interface ItemUsage {
+  // Checkout transactions that included the item
+  checkouts: number
+  // Units checked out across those transactions
+  quantity: number
+  // "YYYY-MM-DD HH:MM:SS" of the most recent checkout
+  lastCheckedOut: string
+}
+
+// Keyed by item id
+export type ItemUsageMap = Record<string, ItemUsage>
+
+// History window used for usage counts
+export const ITEM_USAGE_DAYS = 90
+
+/**
+ * Checkout counts and latest checkout time per item. Returns, adjustments and other
+ * activity are ignored.
+ */
+export function deriveItemUsage(logs: TransactionLogData[]): ItemUsageMap {
+  const usage: ItemUsageMap = {}
+
+  for (const log of logs) {
+    const transaction = parseTransactionLog(log)
+    if (transaction.type !== 'checkout') continue
+
+    const timestamp = `${log.log_date ?? ''} ${log.log_time ?? ''}`.trim()
+    for (const item of transaction.items) {
+      const entry = usage[item.id] ?? { checkouts: 0, quantity: 0, lastCheckedOut: '' }
+      entry.checkouts++
+      entry.quantity += item.quantity
+      if (timestamp > entry.lastCheckedOut) entry.lastCheckedOut = timestamp
+      usage[item.id] = entry
+    }
+  }
+
+  return usage
+}
@@ -1,6 +1,8 @@
 // Mock data for demo mode
-import type { Product } from './barcode-scanner'
+import type { AlternateCode, Product } from './barcode-scanner'
 import type { TransactionLogData, EnhancedTransactionData } from './Services/transactions.service'
+import type { StockReservation } from './Services/reservations.service'
+import type { StockShortfall } from './api-errors'
 
 export const mockProducts: Product[] = [
   {
@@ -10,7 +12,8 @@ export const mockProducts: Product[] = [
     itemType: "Electronics",
     location: "Office A",
     balance: 5,
-    status: "in-stock"
+    status: "in-stock",
+    unitCost: 42999
   },
   {
     id: "2",
@@ -19,7 +22,12 @@ export const mockProducts: Product[] = [
     itemType: "Accessories",
     location: "Storage B",
     balance: 12,
-    status: "in-stock"
+    status: "in-stock",
+    unitCost: 1295,
+    alternateCodes: [
+      { code: "5099206064201", type: "manufacturer" },
+      { code: "MOU-LOG-001", type: "legacy_sku" }
+    ]
   },
   {
     id: "3",
@@ -28,7 +36,8 @@ export const mockProducts: Product[] = [
     itemType: "Cables",
     location: "Shelf C",
     balance: 2,
-    status: "low-stock"
+    status: "low-stock",
+    unitCost: 249
   },
   {
     id: "4",
@@ -37,7 +46,8 @@ export const mockProducts: Product[] = [
     itemType: "Electronics",
     location: "Office B",
     balance: 0,
-    status: "out-of-stock"
+    status: "out-of-stock",
+    unitCost: 8990
   },
   {
     id: "5",
@@ -46,7 +56,8 @@ export const mockProducts: Product[] = [
     itemType: "Accessories",
     location: "Storage A",
     balance: 8,
-    status: "in-stock"
+    status: "in-stock",
+    unitCost: 4750
   },
   {
     id: "6",
@@ -55,7 +66,8 @@ export const mockProducts: Product[] = [
     itemType: "Consumables",
     location: "Printer Room",
     balance: 15,
-    status: "in-stock"
+    status: "in-stock",
+    unitCost: 1450
   },
   {
     id: "7",
@@ -64,7 +76,8 @@ export const mockProducts: Product[] = [
     itemType: "Cables",
     location: "Network Closet",
     balance: 25,
-    status: "in-stock"
+    status: "in-stock",
+    unitCost: 180
   },
   {
     id: "8",
@@ -73,15 +86,20 @@ export const mockProducts: Product[] = [
     itemType: "Electronics",
     location: "Meeting Room",
     balance: 3,
-    status: "low-stock"
+    status: "low-stock",
+    unitCost: 3299,
+    alternateCodes: [
+      { code: "MS-Q2F-00015", type: "supplier_part" }
+    ]
   }
 ]
 
 export const mockEmployees = [
-  { id: "EMP001", name: "John Doe", department: "IT" },
-  { id: "EMP002", name: "Jane Smith", department: "HR" },
-  { id: "EMP003", name: "Bob Johnson", department: "Finance" },
-  { id: "EMP004", name: "Alice Brown", department: "Operations" }
+  { id: "EMP001", name: "John Doe", department: "IT", status: "Active" },
+  { id: "EMP002", name: "Jane Smith", department: "HR", status: "Active" },
+  { id: "EMP003", name: "Bob Johnson", department: "Finance", status: "Active" },
+  { id: "EMP004", name: "Alice Brown", department: "Operations", status: "Active" },
+  { id: "EMP005", name: "Carlos Reyes", department: "Maintenance", status: "Inactive" }
 ]
 
 export const mockTransactions: TransactionLogData[] = [
@@ -127,6 +145,7 @@ export const resetDemoData = () => {
   localStorage.setItem('demo_products', JSON.stringify(mockProducts))
   localStorage.setItem('demo_transactions', JSON.stringify(mockTransactions))
   localStorage.setItem('demo_employees', JSON.stringify(mockEmployees))
+  localStorage.removeItem('demo_reservations')
 }
 
 export const getDemoProducts = (): Product[] => {
@@ -152,8 +171,62 @@ export const updateDemoProductBalance = (productId: string, newBalance: number)
   localStorage.setItem('demo_products', JSON.stringify(updated))
 }
 
+export const addDemoProductCode = (productId: string, alternateCode: AlternateCode) => {
+  const products = getDemoProducts()
+  const updated = products.map(p =>
+    p.id === productId ? { ...p, alternateCodes: [...(p.alternateCodes ?? []), alternateCode] } : p
+  )
+  localStorage.setItem('demo_products', JSON.stringify(updated))
+}
+
 export const addDemoTransaction = (transaction: TransactionLogData) => {
   const transactions = getDemoTransactions()
-  transactions.unshift(transaction)
+  // Stamp the date/time like the database defaults do
+  const now = new Date()
+  transactions.unshift({
+    log_date: now.toISOString().slice(0, 10),
+    log_time: now.toTimeString().slice(0, 8),
+    ...transaction,
+  })
   localStorage.setItem('demo_transactions', JSON.stringify(transactions))
-}
\ No newline at end of file
+}
+
+export const getDemoReservations = (): StockReservation[] => {
+  const stored = localStorage.getItem('demo_reservations')
+  return stored ? JSON.parse(stored) : []
+}
+
+export const saveDemoReservations = (reservations: StockReservation[]) => {
+  localStorage.setItem('demo_reservations', JSON.stringify(reservations))
+}
+
+// Checkout lines the demo balances (less other holders' unexpired reservations) cannot cover
+export const findDemoShortfalls = (transaction: EnhancedTransactionData, reservationHolder?: string): StockShortfall[] => {
+  const now = Date.now()
+  const reservedByOthers = new Map<string, number>()
+  for (const reservation of getDemoReservations()) {
+    if (reservation.holder_id === reservationHolder || new Date(reservation.expires_at).getTime() <= now) continue
+    reservedByOthers.set(reservation.item_no, (reservedByOthers.get(reservation.item_no) ?? 0) + reservation.quantity)
+  }
+
+  const products = getDemoProducts()
+  const shortfalls: StockShortfall[] = []
+  for (const line of transaction.items) {
+    const product = products.find(p => p.id === line.id)
+    if (!product) continue
+
+    const available = Math.max(0, product.balance - (reservedByOthers.get(line.id) ?? 0))
+    if (available < line.quantity) {
+      shortfalls.push({ itemId: line.id, name: product.name, requested: line.quantity, available })
+    }
+  }
+  return shortfalls
+}
+
+// Take a checkout's lines out of the demo balances, as the API does (returns put them back via adjust_in)
+export const applyDemoCheckout = (transaction: EnhancedTransactionData) => {
+  for (const line of transaction.items) {
+    const product = getDemoProducts().find(p => p.id === line.id)
+    if (product) updateDemoProductBalance(line.id, Math.max(0, product.balance - line.quantity))
+  }
+}
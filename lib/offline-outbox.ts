@@ -0,0 +1,624 @@
+/**
+ * Offline Outbox
+ * Durable queue for checkouts made while the API is unreachable (and return logs the API
+ * failed to record after their stock was already updated). Entries live in IndexedDB
+ * (not React state), so they survive reloads and are sent whether or not any view is mounted.
+ * Each checkout carries an idempotency key, so a replay the server already applied is not
+ * applied twice. Entries that cannot be sent end up in a dead-letter list for the user to
+ * inspect, retry or discard.
+ *
+ * When a service worker controls the page and Background Sync is supported, replay is handed
+ * to public/sw.js, which reads the same database and reports progress back via postMessage.
+ * Otherwise (or in demo mode, where data lives in localStorage) the page replays itself.
+ */
+
+import { apiService } from './api_service'
+import { ApiError, HttpError, InsufficientStockError } from './api-errors'
+import { API_ENDPOINTS } from './api-config'
+import { getAuthHeaders } from './Services/http-client'
+import { toTransactionLogData } from './transaction-records'
+import env from './env'
+import type { EnhancedTransactionData, TransactionLogData } from './Services/transactions.service'
+
+export type OutboxEntryType = 'checkout' | 'return'
+
+export interface TransactionOutboxPayload {
+  transaction: EnhancedTransactionData
+  // Request body as sent to the API, so the service worker can replay it without app code
+  logData: TransactionLogData
+}
+
+export interface OutboxEntry {
+  // Also sent to the API as the idempotency key
+  id: string
+  type: OutboxEntryType
+  payload: TransactionOutboxPayload
+  createdAt: number
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string | undefined
+}
+
+export type DeadLetterReason = 'max_attempts' | 'conflict' | 'rejected'
+
+// A queued line the server balance no longer covers
+export interface StockConflict {
+  itemId: string
+  name: string
+  requested: number
+  available: number
+}
+
+export interface DeadLetterEntry extends OutboxEntry {
+  reason: DeadLetterReason
+  failedAt: number
+  conflicts?: StockConflict[] | undefined
+}
+
+export type OutboxSyncSource = 'page' | 'service-worker'
+
+export interface OutboxSyncProgress {
+  source: OutboxSyncSource
+  total: number
+  sent: number
+  failed: number
+}
+
+export interface OutboxSnapshot {
+  pending: OutboxEntry[]
+  deadLetters: DeadLetterEntry[]
+  isFlushing: boolean
+  // Progress of the running (or last finished) replay
+  progress: OutboxSyncProgress | null
+  lastSyncedAt: number | null
+}
+
+export interface OutboxFlushResult {
+  sent: number
+  failed: number
+  // True when replay was handed to the service worker; results arrive as progress updates
+  delegated: boolean
+}
+
+export const DEAD_LETTER_REASON_LABELS: Record<DeadLetterReason, string> = {
+  max_attempts: 'Gave up after repeated failures',
+  conflict: 'Not enough stock on the server',
+  rejected: 'Rejected by the server',
+}
+
+// Dispatched on window whenever the queue changes (detail: OutboxSnapshot)
+export const OUTBOX_CHANGED_EVENT = 'offline-outbox-changed'
+
+// Shared with public/sw.js - keep both in sync
+const OUTBOX_DB_NAME = 'toolbox-offline'
+const OUTBOX_DB_VERSION = 2
+const PENDING_STORE = 'outbox'
+const DEAD_LETTER_STORE = 'dead-letter'
+const META_STORE = 'meta'
+const REPLAY_CONFIG_KEY = 'replay-config'
+const OUTBOX_SYNC_TAG = 'toolbox-outbox-sync'
+const OUTBOX_PERIODIC_SYNC_TAG = 'toolbox-outbox-periodic-sync'
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000
+const REPLAY_OUTBOX_MESSAGE = 'REPLAY_OUTBOX'
+const OUTBOX_SYNC_MESSAGE = 'OUTBOX_SYNC'
+type StoreName = typeof PENDING_STORE | typeof DEAD_LETTER_STORE
+
+/**
+ * What the service worker needs to replay entries on its own (stored in the meta store)
+ */
+interface ReplayConfig {
+  key: typeof REPLAY_CONFIG_KEY
+  baseUrl: string
+  headers: Record<string, string>
+  itemsPath: string
+  transactionsPath: string
+  updatedAt: number
+}
+
+// Message posted by public/sw.js while it replays the outbox
+interface OutboxSyncMessage {
+  type: typeof OUTBOX_SYNC_MESSAGE
+  state: 'started' | 'progress' | 'finished'
+  total: number
+  sent: number
+  failed: number
+}
+
+// Periodic Background Sync (Chromium only, not in the DOM typings)
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>
+}
+
+const MAX_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 5000
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000
+
+class StockConflictError extends Error {
+  readonly conflicts: StockConflict[]
+
+  constructor(conflicts: StockConflict[]) {
+    super(`Insufficient stock for ${conflicts.map(conflict => conflict.name).join(', ')}`)
+    this.name = 'StockConflictError'
+    this.conflicts = conflicts
+  }
+}
+
+/**
+ * Key identifying one checkout to the API; generate it before the first attempt so a retry
+ * (online or through the outbox) is recognised as the same checkout
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+/**
+ * Exponential backoff between replays: 5s, 10s, 20s ... capped at 5 minutes
+ */
+function nextAttemptDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Background Sync registration, when the page is controlled by a service worker that can replay
+ */
+async function getSyncRegistration(): Promise<(ServiceWorkerRegistration & { sync: { register(tag: string): Promise<void> } }) | null> {
+  if (env.DEMO_MODE || typeof navigator === 'undefined' || !navigator.serviceWorker?.controller) return null
+
+  const registration = await navigator.serviceWorker.ready
+  return 'sync' in registration ? registration as ServiceWorkerRegistration & { sync: { register(tag: string): Promise<void> } } : null
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export class OfflineOutbox {
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+  // Used when IndexedDB is unavailable (private browsing, old WebViews); not durable
+  private memoryStores: Record<StoreName, Map<string, OutboxEntry>> = {
+    [PENDING_STORE]: new Map(),
+    [DEAD_LETTER_STORE]: new Map(),
+  }
+  private isFlushing = false
+  private progress: OutboxSyncProgress | null = null
+  private lastSyncedAt: number | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor() {
+    if (typeof window === 'undefined') return
+
+    window.addEventListener('online', () => this.flush())
+    navigator.serviceWorker?.addEventListener('message', (event) => {
+      if (event.data?.type === OUTBOX_SYNC_MESSAGE) this.handleServiceWorkerProgress(event.data)
+    })
+    // Send anything left over from a previous session
+    this.scheduleNextAttempt()
+  }
+
+  /**
+   * Queue a checkout to be sent when the API is reachable
+   * @param idempotencyKey Key of an online attempt that may already have reached the server
+   */
+  async enqueueCheckout(transaction: EnhancedTransactionData, idempotencyKey = createIdempotencyKey()): Promise<OutboxEntry> {
+    return this.enqueue('checkout', transaction, idempotencyKey)
+  }
+
+  /**
+   * Queue the log of a return whose stock was already updated; replays skip the stock check
+   * @param idempotencyKey Key of the attempt that failed, which may already have reached the server
+   */
+  async enqueueReturn(transaction: EnhancedTransactionData, idempotencyKey: string): Promise<OutboxEntry> {
+    return this.enqueue('return', transaction, idempotencyKey)
+  }
+
+  private async enqueue(type: OutboxEntryType, transaction: EnhancedTransactionData, idempotencyKey: string): Promise<OutboxEntry> {
+    const now = Date.now()
+    const checkedOutAt = new Date(now)
+    const id = idempotencyKey
+    // Keep the checkout time; the server would otherwise stamp the time of the replay
+    const stampedTransaction: EnhancedTransactionData = {
+      ...transaction,
+      logDate: transaction.logDate ?? checkedOutAt.toISOString().slice(0, 10),
+      logTime: transaction.logTime ?? checkedOutAt.toTimeString().slice(0, 8),
+    }
+    const entry: OutboxEntry = {
+      id,
+      type,
+      payload: {
+        transaction: stampedTransaction,
+        logData: { ...toTransactionLogData(stampedTransaction), idempotency_key: id },
+      },
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    }
+
+    await this.put(PENDING_STORE, entry)
+    console.log(`[OfflineOutbox] Queued ${type} ${entry.id} (${transaction.totalItems} items)`)
+    await this.notifyChanged()
+
+    if (!await this.requestBackgroundSync()) this.scheduleNextAttempt()
+    return entry
+  }
+
+  async getSnapshot(): Promise<OutboxSnapshot> {
+    const [pending, deadLetters] = await Promise.all([
+      this.getAll(PENDING_STORE),
+      this.getAll(DEAD_LETTER_STORE) as Promise<DeadLetterEntry[]>,
+    ])
+    return {
+      pending: pending.sort((a, b) => a.createdAt - b.createdAt),
+      deadLetters: deadLetters.sort((a, b) => b.failedAt - a.failedAt),
+      isFlushing: this.isFlushing,
+      progress: this.progress,
+      lastSyncedAt: this.lastSyncedAt,
+    }
+  }
+
+  /**
+   * Send every due entry, oldest first. Stops at the first network failure since the rest
+   * would fail the same way.
+   */
+  async flush(): Promise<OutboxFlushResult> {
+    if (this.isFlushing || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+      return { sent: 0, failed: 0, delegated: false }
+    }
+
+    if (await this.delegateToServiceWorker()) {
+      return { sent: 0, failed: 0, delegated: true }
+    }
+
+    this.isFlushing = true
+    let sent = 0
+    let failed = 0
+
+    try {
+      const now = Date.now()
+      const due = (await this.getAll(PENDING_STORE))
+        .filter(entry => entry.nextAttemptAt <= now)
+        .sort((a, b) => a.createdAt - b.createdAt)
+      this.progress = { source: 'page', total: due.length, sent, failed }
+      await this.notifyChanged()
+
+      // Server balances, fetched once per replay and reduced as entries are sent
+      let balances: Map<string, number> | null = null
+      for (const entry of due) {
+        try {
+          balances ??= await this.fetchServerBalances()
+          await this.send(entry, balances)
+          await this.delete(PENDING_STORE, entry.id)
+          sent++
+          console.log(`[OfflineOutbox] Sent ${entry.type} ${entry.id}`)
+        } catch (error) {
+          failed++
+          const isNetworkFailure = await this.handleFailure(entry, error)
+          if (isNetworkFailure) break
+        } finally {
+          this.progress = { source: 'page', total: due.length, sent, failed }
+          await this.notifyChanged()
+        }
+      }
+    } finally {
+      this.isFlushing = false
+      if (sent > 0) this.lastSyncedAt = Date.now()
+      await this.notifyChanged()
+      this.scheduleNextAttempt()
+    }
+
+    return { sent, failed, delegated: false }
+  }
+
+  /**
+   * Re-read the stores and notify listeners (after the service worker changed them)
+   */
+  async refresh(): Promise<void> {
+    await this.notifyChanged()
+  }
+
+  /**
+   * Move a dead letter back into the queue and try it immediately
+   */
+  async retryDeadLetter(id: string): Promise<void> {
+    const entry = await this.get(DEAD_LETTER_STORE, id) as DeadLetterEntry | undefined
+    if (!entry) return
+
+    const { reason: _reason, failedAt: _failedAt, conflicts: _conflicts, ...outboxEntry } = entry
+    await this.move(DEAD_LETTER_STORE, PENDING_STORE, { ...outboxEntry, attempts: 0, nextAttemptAt: Date.now() })
+    console.log(`[OfflineOutbox] Retrying dead letter ${id}`)
+    await this.notifyChanged()
+    await this.flush()
+  }
+
+  async discardDeadLetter(id: string): Promise<void> {
+    await this.delete(DEAD_LETTER_STORE, id)
+    console.log(`[OfflineOutbox] Discarded dead letter ${id}`)
+    await this.notifyChanged()
+  }
+
+  /**
+   * Remove every queued and dead-lettered entry
+   */
+  async clear(): Promise<void> {
+    const db = await this.openDatabase()
+    if (db) {
+      const transaction = db.transaction([PENDING_STORE, DEAD_LETTER_STORE], 'readwrite')
+      transaction.objectStore(PENDING_STORE).clear()
+      transaction.objectStore(DEAD_LETTER_STORE).clear()
+      await transactionDone(transaction)
+    } else {
+      this.memoryStores[PENDING_STORE].clear()
+      this.memoryStores[DEAD_LETTER_STORE].clear()
+    }
+    await this.notifyChanged()
+  }
+
+  // ========================================
+  // SERVICE WORKER REPLAY
+  // ========================================
+
+  /**
+   * Ask the browser to wake the service worker for replay once connectivity allows
+   * @returns false when Background Sync is unavailable and the page must replay itself
+   */
+  private async requestBackgroundSync(): Promise<boolean> {
+    try {
+      const registration = await getSyncRegistration()
+      if (!registration) return false
+
+      await this.saveReplayConfig()
+      await registration.sync.register(OUTBOX_SYNC_TAG)
+      console.log('[OfflineOutbox] Registered background sync')
+      return true
+    } catch (error) {
+      console.warn('[OfflineOutbox] Background sync unavailable, replaying from the page:', error)
+      return false
+    }
+  }
+
+  /**
+   * Periodic fallback for when one-off sync gives up; needs the periodic-background-sync
+   * permission (installed PWA), so failures are expected and only logged
+   */
+  async registerPeriodicSync(registration: ServiceWorkerRegistration): Promise<void> {
+    if (!('periodicSync' in registration)) return
+
+    try {
+      const { periodicSync } = registration as ServiceWorkerRegistration & { periodicSync: PeriodicSyncManager }
+      await periodicSync.register(OUTBOX_PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS })
+      console.log('[OfflineOutbox] Registered periodic sync')
+    } catch (error) {
+      console.warn('[OfflineOutbox] Periodic sync not permitted:', error)
+    }
+  }
+
+  /**
+   * Have the service worker replay now instead of the page
+   */
+  private async delegateToServiceWorker(): Promise<boolean> {
+    if (!await this.requestBackgroundSync()) return false
+
+    navigator.serviceWorker.controller?.postMessage({ type: REPLAY_OUTBOX_MESSAGE })
+    return true
+  }
+
+  /**
+   * Store the API location and current credentials for the service worker
+   */
+  private async saveReplayConfig(): Promise<void> {
+    const config = apiService.getConfig()
+    const replayConfig: ReplayConfig = {
+      key: REPLAY_CONFIG_KEY,
+      baseUrl: config.baseUrl,
+      headers: { "Content-Type": "application/json", ...getAuthHeaders(config.auth) },
+      itemsPath: API_ENDPOINTS.items,
+      transactionsPath: API_ENDPOINTS.transactions,
+      updatedAt: Date.now(),
+    }
+
+    const db = await this.openDatabase()
+    if (!db) return
+    const transaction = db.transaction(META_STORE, 'readwrite')
+    transaction.objectStore(META_STORE).put(replayConfig)
+    await transactionDone(transaction)
+  }
+
+  private async handleServiceWorkerProgress(message: OutboxSyncMessage) {
+    const { state, total, sent, failed } = message
+    this.isFlushing = state !== 'finished'
+    this.progress = { source: 'service-worker', total, sent, failed }
+    if (state === 'finished' && sent > 0) this.lastSyncedAt = Date.now()
+    await this.notifyChanged()
+    // Entries the worker backed off are retried from here once due
+    if (state === 'finished') this.scheduleNextAttempt()
+  }
+
+  private async send(entry: OutboxEntry, balances: Map<string, number>): Promise<void> {
+    const { transaction } = entry.payload
+    // Returned stock was restocked before the log was queued
+    if (entry.type === 'return') {
+      await apiService.logTransaction(transaction, { idempotencyKey: entry.id })
+      return
+    }
+
+    this.checkStockConflicts(transaction, balances)
+    await apiService.logTransaction(transaction, { idempotencyKey: entry.id })
+    for (const line of transaction.items) {
+      balances.set(line.id, (balances.get(line.id) ?? 0) - line.quantity)
+    }
+  }
+
+  private async fetchServerBalances(): Promise<Map<string, number>> {
+    const serverItems = await apiService.fetchItems()
+    return new Map(serverItems.map(item => [String(item.item_no ?? item.id), Number(item.balance)]))
+  }
+
+  /**
+   * Compare the queued quantities with current server balances before replaying a checkout
+   */
+  private checkStockConflicts(transaction: EnhancedTransactionData, balances: Map<string, number>): void {
+    const conflicts: StockConflict[] = []
+    for (const line of transaction.items) {
+      const available = balances.get(line.id)
+      if (available === undefined || !Number.isFinite(available) || available < line.quantity) {
+        conflicts.push({ itemId: line.id, name: line.name, requested: line.quantity, available: available ?? 0 })
+      }
+    }
+    if (conflicts.length > 0) throw new StockConflictError(conflicts)
+  }
+
+  /**
+   * Reschedule or dead-letter a failed entry; returns true when the API was unreachable
+   */
+  private async handleFailure(entry: OutboxEntry, error: unknown): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error)
+    const attempts = entry.attempts + 1
+
+    if (error instanceof StockConflictError || error instanceof InsufficientStockError || (error instanceof HttpError && error.status === 409)) {
+      const conflicts = error instanceof StockConflictError ? error.conflicts
+        : error instanceof InsufficientStockError ? error.shortfalls
+        : undefined
+      await this.deadLetter({ ...entry, attempts, lastError: message }, 'conflict', conflicts)
+      return false
+    }
+
+    const isRetryable = error instanceof ApiError ? error.retryable : true
+    if (!isRetryable) {
+      await this.deadLetter({ ...entry, attempts, lastError: message }, 'rejected')
+      return false
+    }
+    if (attempts >= MAX_ATTEMPTS) {
+      await this.deadLetter({ ...entry, attempts, lastError: message }, 'max_attempts')
+      return false
+    }
+
+    await this.put(PENDING_STORE, { ...entry, attempts, lastError: message, nextAttemptAt: Date.now() + nextAttemptDelay(attempts) })
+    console.warn(`[OfflineOutbox] ${entry.type} ${entry.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, message)
+    return error instanceof ApiError && (error.kind === 'network' || error.kind === 'timeout')
+  }
+
+  private async deadLetter(entry: OutboxEntry, reason: DeadLetterReason, conflicts?: StockConflict[]) {
+    const deadLetter: DeadLetterEntry = { ...entry, reason, failedAt: Date.now(), ...(conflicts && { conflicts }) }
+    await this.move(PENDING_STORE, DEAD_LETTER_STORE, deadLetter)
+    console.error(`[OfflineOutbox] Moved ${entry.type} ${entry.id} to dead letters (${reason}):`, entry.lastError)
+  }
+
+  /**
+   * Wake up when the earliest pending entry is due. Needed even with a service worker: it records
+   * a backoff for failed entries but completes the sync, so the browser will not retry them, and
+   * periodic sync only runs for installed apps. The timer's flush hands the work back to the worker.
+   */
+  private async scheduleNextAttempt() {
+    if (typeof window === 'undefined') return
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+
+    const pending = await this.getAll(PENDING_STORE)
+    if (pending.length === 0) return
+
+    const nextAttemptAt = Math.min(...pending.map(entry => entry.nextAttemptAt))
+    this.retryTimer = setTimeout(() => this.flush(), Math.max(0, nextAttemptAt - Date.now()))
+  }
+
+  private async notifyChanged() {
+    if (typeof window === 'undefined') return
+    const snapshot = await this.getSnapshot()
+    window.dispatchEvent(new CustomEvent<OutboxSnapshot>(OUTBOX_CHANGED_EVENT, { detail: snapshot }))
+  }
+
+  // ========================================
+  // STORAGE
+  // ========================================
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('[OfflineOutbox] IndexedDB unavailable - queued checkouts will not survive a reload')
+        resolve(null)
+        return
+      }
+
+      const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(PENDING_STORE)) db.createObjectStore(PENDING_STORE, { keyPath: 'id' })
+        if (!db.objectStoreNames.contains(DEAD_LETTER_STORE)) db.createObjectStore(DEAD_LETTER_STORE, { keyPath: 'id' })
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error('[OfflineOutbox] Failed to open IndexedDB:', request.error)
+        resolve(null)
+      }
+    })
+    return this.dbPromise
+  }
+
+  private async getAll(storeName: StoreName): Promise<OutboxEntry[]> {
+    const db = await this.openDatabase()
+    if (!db) return [...this.memoryStores[storeName].values()]
+    return requestToPromise(db.transaction(storeName).objectStore(storeName).getAll())
+  }
+
+  private async get(storeName: StoreName, id: string): Promise<OutboxEntry | undefined> {
+    const db = await this.openDatabase()
+    if (!db) return this.memoryStores[storeName].get(id)
+    return requestToPromise(db.transaction(storeName).objectStore(storeName).get(id))
+  }
+
+  private async put(storeName: StoreName, entry: OutboxEntry): Promise<void> {
+    const db = await this.openDatabase()
+    if (!db) {
+      this.memoryStores[storeName].set(entry.id, entry)
+      return
+    }
+    const transaction = db.transaction(storeName, 'readwrite')
+    transaction.objectStore(storeName).put(entry)
+    await transactionDone(transaction)
+  }
+
+  private async delete(storeName: StoreName, id: string): Promise<void> {
+    const db = await this.openDatabase()
+    if (!db) {
+      this.memoryStores[storeName].delete(id)
+      return
+    }
+    const transaction = db.transaction(storeName, 'readwrite')
+    transaction.objectStore(storeName).delete(id)
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Delete from one store and write to the other in a single transaction
+   */
+  private async move(from: StoreName, to: StoreName, entry: OutboxEntry): Promise<void> {
+    const db = await this.openDatabase()
+    if (!db) {
+      this.memoryStores[from].delete(entry.id)
+      this.memoryStores[to].set(entry.id, entry)
+      return
+    }
+    const transaction = db.transaction([from, to], 'readwrite')
+    transaction.objectStore(from).delete(entry.id)
+    transaction.objectStore(to).put(entry)
+    await transactionDone(transaction)
+  }
+}
+
+// Export singleton instance
+export const offlineOutbox = new OfflineOutbox()
@@ -0,0 +1,92 @@
+/**
+ * Pricing & Cart Valuation
+ * Unit costs come from the items API (unit_cost + currency). Lines without a unit cost
+ * are counted separately instead of being valued at zero silently.
+ */
+
+import env from './env'
+
+export interface PricedLine {
+  quantity: number
+  unitCost?: number | undefined
+  currency?: string | undefined
+}
+
+export interface CartValuation {
+  total: number
+  currency: string
+  // Lines with a unit cost in the valuation currency
+  pricedCount: number
+  // Lines without a unit cost (not included in the total)
+  unpricedCount: number
+  // Currencies of priced lines that could not be added to the total
+  excludedCurrencies: string[]
+}
+
+/**
+ * Round to whole cents so repeated additions do not drift (0.1 + 0.2)
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Parse a unit cost from API data (numbers or numeric strings, never negative)
+ */
+export function parseUnitCost(value: unknown): number | undefined {
+  const cost = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof cost === 'number' && Number.isFinite(cost) && cost >= 0 ? roundCurrency(cost) : undefined
+}
+
+/**
+ * Normalize an ISO 4217 currency code (e.g., "php" -> "PHP")
+ */
+export function normalizeCurrency(value: unknown): string | undefined {
+  return typeof value === 'string' && /^[a-z]{3}$/i.test(value.trim()) ? value.trim().toUpperCase() : undefined
+}
+
+/**
+ * Value of a single line, or null when the item has no unit cost
+ */
+export function getLineValue(line: PricedLine): number | null {
+  return typeof line.unitCost === 'number' ? roundCurrency(line.unitCost * line.quantity) : null
+}
+
+/**
+ * Total the lines in one currency. Uses the shared currency of the priced lines when they
+ * all agree, otherwise env.DEFAULT_CURRENCY; lines in other currencies are reported, not converted.
+ */
+export function calculateCartValuation(lines: PricedLine[]): CartValuation {
+  const priced = lines.filter(line => typeof line.unitCost === 'number')
+  const currencies = new Set(priced.map(line => line.currency || env.DEFAULT_CURRENCY))
+  const currency = currencies.size === 1 ? [...currencies][0]! : env.DEFAULT_CURRENCY
+
+  let total = 0
+  let pricedCount = 0
+  for (const line of priced) {
+    if ((line.currency || env.DEFAULT_CURRENCY) !== currency) continue
+    total += getLineValue(line) ?? 0
+    pricedCount++
+  }
+
+  currencies.delete(currency)
+  return {
+    total: roundCurrency(total),
+    currency,
+    pricedCount,
+    unpricedCount: lines.length - priced.length,
+    excludedCurrencies: [...currencies],
+  }
+}
+
+/**
+ * Format an amount for display (e.g., "₱1,295.00")
+ */
+export function formatCurrency(amount: number, currency: string = env.DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+  } catch {
+    // Unknown currency code
+    return `${currency} ${amount.toFixed(2)}`
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Realtime Events
+ * Event names shared by the Server-Sent Events stream and the polling fallback, plus the
+ * diffing that turns two polled snapshots into the same events the stream would have sent.
+ */
+
+export const REALTIME_EVENTS = {
+  itemCreated: 'item_created',
+  itemUpdated: 'item_updated',
+  itemDeleted: 'item_deleted',
+  // Also sent alongside item_updated when only the balance matters to the listener
+  stockUpdated: 'stock_updated',
+  logCreated: 'log_created',
+  // Something may have been missed (stream reconnected, manual refresh): reload everything
+  inventoryRefresh: 'inventory:refresh',
+} as const
+
+export type RealtimeEventName = typeof REALTIME_EVENTS[keyof typeof REALTIME_EVENTS]
+
+export interface RealtimeChange {
+  event: RealtimeEventName
+  data: any
+}
+
+// Item fields whose change is reported as item_updated
+const TRACKED_ITEM_FIELDS = ['item_name', 'brand', 'item_type', 'location', 'balance', 'status', 'unit_cost', 'currency']
+
+export type ItemSnapshot = Map<string, any>
+
+function getItemKey(item: any): string {
+  return String(item.item_no ?? item.id)
+}
+
+export function indexItems(items: any[]): ItemSnapshot {
+  return new Map(items.map(item => [getItemKey(item), item]))
+}
+
+/**
+ * Compare the previous item snapshot with freshly polled items
+ */
+export function diffItems(previous: ItemSnapshot, items: any[]): RealtimeChange[] {
+  const changes: RealtimeChange[] = []
+  const current = indexItems(items)
+
+  current.forEach((item, itemNo) => {
+    const before = previous.get(itemNo)
+    if (!before) {
+      changes.push({ event: REALTIME_EVENTS.itemCreated, data: { item_no: itemNo, item } })
+      return
+    }
+
+    const changedFields = TRACKED_ITEM_FIELDS.filter(field => String(before[field] ?? '') !== String(item[field] ?? ''))
+    if (changedFields.length === 0) return
+
+    changes.push({ event: REALTIME_EVENTS.itemUpdated, data: { item_no: itemNo, item, previous: before, changed_fields: changedFields } })
+    if (changedFields.includes('balance')) {
+      changes.push({
+        event: REALTIME_EVENTS.stockUpdated,
+        data: { item_no: itemNo, balance: Number(item.balance), previous_balance: Number(before.balance) },
+      })
+    }
+  })
+
+  previous.forEach((item, itemNo) => {
+    if (!current.has(itemNo)) {
+      changes.push({ event: REALTIME_EVENTS.itemDeleted, data: { item_no: itemNo, item } })
+    }
+  })
+
+  return changes
+}
+
+/**
+ * Identity of a log entry: its database id, or its contents for sources without one (demo data)
+ */
+export function getLogKey(log: any): string {
+  if (log.id !== undefined && log.id !== null) return String(log.id)
+  return [log.log_date, log.log_time, log.username, log.details, log.item_no].join('|')
+}
+
+/**
+ * Report logs not seen in the previous poll of the newest entries
+ * @param logs - Newest first, as returned by the API
+ * @param pageSize - Logs the poll asks for; a full page of unseen logs means some may have been skipped
+ */
+export function diffLogs(seenKeys: Set<string>, logs: any[], pageSize: number = Infinity): RealtimeChange[] {
+  const changes: RealtimeChange[] = logs
+    .filter(log => !seenKeys.has(getLogKey(log)))
+    .reverse() // Oldest first, in the order they happened
+    .map(log => ({ event: REALTIME_EVENTS.logCreated, data: log }))
+
+  // More logs were written since the last poll than one page holds: tell listeners to reload everything
+  if (logs.length >= pageSize && changes.length === logs.length) {
+    changes.push({ event: REALTIME_EVENTS.inventoryRefresh, data: { reason: 'missed_logs', timestamp: Date.now() } })
+  }
+  return changes
+}
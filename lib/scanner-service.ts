@@ -0,0 +1,270 @@
+/**
+ * Barcode Scanner Service
+ * Single keyboard-wedge listener for the whole app. Detects scans from keystroke timing,
+ * strips configured prefix/suffix characters and routes each scan over an event bus to
+ * whichever view currently claims scans (checkout modal > cart > dashboard).
+ */
+
+import env from './env'
+
+export type ScanSource = 'keyboard' | 'camera' | 'manual'
+
+export interface ScanEvent {
+  code: string
+  source: ScanSource
+  timestamp: number
+}
+
+/**
+ * Return false to pass the scan on to the next claim; anything else consumes it
+ */
+export type ScanHandler = (scan: ScanEvent) => boolean | void
+
+export interface ScanClaimOptions {
+  // Name used in log messages (e.g., "dashboard", "checkout")
+  owner: string
+  // Higher priority claims see scans first; equal priorities go to the newest claim
+  priority?: number
+}
+
+export interface ScannerTimingProfile {
+  label: string
+  // Max gap between two keystrokes of the same scan
+  interKeyMs: number
+  // The whole scan must arrive within this window
+  maxScanDurationMs: number
+}
+
+export type ScannerProfileId = 'usb' | 'standard' | 'bluetooth'
+
+// Wedge scanners type at very different speeds; each kiosk picks the profile of its device
+export const SCANNER_TIMING_PROFILES: Record<ScannerProfileId, ScannerTimingProfile> = {
+  'usb': { label: 'USB scanner', interKeyMs: 50, maxScanDurationMs: 800 },
+  'standard': { label: 'Standard', interKeyMs: 80, maxScanDurationMs: 1200 },
+  'bluetooth': { label: 'Bluetooth / wireless scanner', interKeyMs: 150, maxScanDurationMs: 2500 },
+}
+
+export interface ScannerConfig {
+  profile: ScannerProfileId
+  minLength: number
+  // Characters the scanner is programmed to send before/after each code (stripped)
+  prefix: string
+  suffix: string
+  // Ignore keystrokes typed into inputs unless the field opts in with data-scanner-capture
+  suppressInEditableFields: boolean
+}
+
+export const DEFAULT_SCANNER_CONFIG: ScannerConfig = {
+  profile: 'standard',
+  minLength: 3,
+  prefix: '',
+  suffix: '',
+  suppressInEditableFields: true,
+}
+
+const SCANNER_CONFIG_STORAGE_KEY = 'toolbox-scanner-config'
+// Keys that end a scan (most scanners send Enter, some Tab)
+const TERMINATOR_KEYS = ['Enter', 'Tab']
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta']
+
+interface ScanClaim {
+  owner: string
+  priority: number
+  order: number
+  handler: ScanHandler
+}
+
+/**
+ * Whether keystrokes on this element belong to the element rather than the scanner
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.closest('[data-scanner-capture]')) return false
+
+  const tagName = target.tagName
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT' || target.isContentEditable
+}
+
+function loadStoredScannerConfig(): ScannerConfig {
+  if (typeof window === 'undefined') return { ...DEFAULT_SCANNER_CONFIG }
+
+  try {
+    const raw = localStorage.getItem(SCANNER_CONFIG_STORAGE_KEY)
+    if (!raw) return { ...DEFAULT_SCANNER_CONFIG }
+
+    const stored = JSON.parse(raw) as Partial<ScannerConfig>
+    const config = { ...DEFAULT_SCANNER_CONFIG, ...stored }
+    if (!(config.profile in SCANNER_TIMING_PROFILES)) {
+      config.profile = DEFAULT_SCANNER_CONFIG.profile
+    }
+    return config
+  } catch (error) {
+    console.error('[ScannerService] Failed to load scanner config:', error)
+    return { ...DEFAULT_SCANNER_CONFIG }
+  }
+}
+
+export class ScannerService {
+  private config: ScannerConfig = loadStoredScannerConfig()
+  private claims: ScanClaim[] = []
+  private claimCounter = 0
+  private isListening = false
+
+  private buffer = ''
+  private firstKeyTime = 0
+  private lastKeyTime = 0
+
+  getConfig(): ScannerConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Update and persist this device's scanner settings
+   */
+  updateConfig(updates: Partial<ScannerConfig>) {
+    this.config = { ...this.config, ...updates }
+    this.resetBuffer()
+
+    try {
+      localStorage.setItem(SCANNER_CONFIG_STORAGE_KEY, JSON.stringify(this.config))
+    } catch (error) {
+      console.error('[ScannerService] Failed to save scanner config:', error)
+    }
+    console.log('[ScannerService] Config updated:', this.config)
+  }
+
+  /**
+   * Claim scans for a view; returns a function that releases the claim
+   */
+  claim(handler: ScanHandler, options: ScanClaimOptions): () => void {
+    const claim: ScanClaim = {
+      owner: options.owner,
+      priority: options.priority ?? 0,
+      order: this.claimCounter++,
+      handler,
+    }
+    this.claims.push(claim)
+    this.startListening()
+
+    return () => {
+      this.claims = this.claims.filter(c => c !== claim)
+      if (this.claims.length === 0) this.stopListening()
+    }
+  }
+
+  /**
+   * Route a code from any source (camera, manual entry) through the same claims as keyboard scans
+   */
+  submit(code: string, source: ScanSource = 'manual'): boolean {
+    const trimmed = code.trim()
+    if (!trimmed) return false
+
+    const scan: ScanEvent = { code: trimmed, source, timestamp: Date.now() }
+    const claims = [...this.claims].sort((a, b) => b.priority - a.priority || b.order - a.order)
+
+    for (const claim of claims) {
+      try {
+        if (claim.handler(scan) !== false) {
+          console.log(`[ScannerService] ${source} scan handled by ${claim.owner}`)
+          return true
+        }
+      } catch (error) {
+        console.error(`[ScannerService] Scan handler for ${claim.owner} failed:`, error)
+        return true
+      }
+    }
+
+    console.log('[ScannerService] No active claim for scan')
+    return false
+  }
+
+  private startListening() {
+    if (this.isListening || typeof document === 'undefined' || !env.ENABLE_BARCODE_SCANNER) return
+    document.addEventListener('keydown', this.handleKeyDown)
+    this.isListening = true
+  }
+
+  private stopListening() {
+    if (!this.isListening) return
+    document.removeEventListener('keydown', this.handleKeyDown)
+    this.isListening = false
+    this.resetBuffer()
+  }
+
+  private resetBuffer() {
+    this.buffer = ''
+    this.firstKeyTime = 0
+    this.lastKeyTime = 0
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (MODIFIER_KEYS.includes(e.key)) return
+
+    if (this.config.suppressInEditableFields && isEditableTarget(e.target)) {
+      this.resetBuffer()
+      return
+    }
+
+    const now = Date.now()
+    const timing = SCANNER_TIMING_PROFILES[this.config.profile]
+
+    if (TERMINATOR_KEYS.includes(e.key)) {
+      if (this.finishScan(now, timing)) e.preventDefault()
+      return
+    }
+
+    // Only printable single-character keys can be part of a scan
+    if (e.key.length !== 1) {
+      this.resetBuffer()
+      return
+    }
+
+    // Too slow for a scanner - this keystroke starts a new candidate
+    if (this.lastKeyTime && now - this.lastKeyTime > timing.interKeyMs) {
+      this.resetBuffer()
+    }
+    if (!this.firstKeyTime) this.firstKeyTime = now
+    this.lastKeyTime = now
+    this.buffer += e.key
+
+    // A scanner programmed with a prefix always sends it first
+    const { prefix, suffix } = this.config
+    if (prefix && !(this.buffer.startsWith(prefix) || prefix.startsWith(this.buffer))) {
+      this.resetBuffer()
+      return
+    }
+
+    // Scanners programmed with a suffix may not send a terminator key at all
+    if (suffix && this.buffer.length > prefix.length + suffix.length && this.buffer.endsWith(suffix)) {
+      this.finishScan(now, timing)
+    }
+  }
+
+  /**
+   * Emit the buffered code if it looks like a scan; returns true when a scan was emitted
+   */
+  private finishScan(now: number, timing: ScannerTimingProfile): boolean {
+    const { prefix, suffix, minLength } = this.config
+    let code = this.buffer
+    const duration = this.firstKeyTime ? now - this.firstKeyTime : 0
+    const isTimely = this.lastKeyTime > 0 && now - this.lastKeyTime <= timing.interKeyMs && duration <= timing.maxScanDurationMs
+    this.resetBuffer()
+
+    if (prefix) {
+      if (!code.startsWith(prefix)) return false
+      code = code.slice(prefix.length)
+    }
+    if (suffix && code.endsWith(suffix)) {
+      code = code.slice(0, -suffix.length)
+    }
+
+    code = code.trim()
+    if (!isTimely || code.length < minLength) return false
+
+    this.submit(code, 'keyboard')
+    return true
+  }
+}
+
+// Export singleton instance
+export const scannerService = new ScannerService()
@@ -0,0 +1,422 @@
+/**
+ * Product Search Index
+ * Tokenised, typo-tolerant product search with relevance ranking, shared by the header
+ * suggestions and the dashboard grid.
+ *
+ * Query syntax (free terms and qualifiers can be mixed; all of them must match):
+ *   drill bit            every term must match the name, brand, type, location or item number
+ *   "drill bit"          quoted terms match as a phrase
+ *   -cordless            exclude items matching a term (or a qualifier: -brand:bosch)
+ *   brand:dell  type:power  loc:"Storage B"  name:hammer  id:42
+ *   stock:<5  stock:>=10  stock:0
+ *   status:low           in, low or out
+ */
+
+export interface SearchableProduct {
+  id: string
+  name: string
+  brand: string
+  itemType: string
+  location: string
+  balance?: number | undefined
+  status?: string | undefined
+}
+
+export type SearchField = 'name' | 'brand' | 'type' | 'location' | 'id'
+
+export type StockOperator = '<' | '<=' | '>' | '>=' | '='
+
+export interface FieldFilter {
+  field: SearchField
+  value: string
+  negated: boolean
+}
+
+export interface StockFilter {
+  operator: StockOperator
+  value: number
+}
+
+export interface ParsedSearchQuery {
+  // Normalised free terms; a term containing a space is a quoted phrase
+  terms: string[]
+  excludedTerms: string[]
+  fields: FieldFilter[]
+  stock: StockFilter[]
+  statuses: string[]
+  // The qualifiers exactly as typed, so suggestions can keep them
+  qualifierText: string
+}
+
+export interface SearchResult<T> {
+  item: T
+  score: number
+}
+
+export interface SearchSuggestion {
+  label: string
+  kind: 'item' | SearchField
+  // Query to search when the suggestion is picked
+  query: string
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  name: 'name',
+  brand: 'brand',
+  type: 'type',
+  category: 'type',
+  cat: 'type',
+  loc: 'location',
+  location: 'location',
+  id: 'id',
+}
+
+const STATUS_ALIASES: Record<string, string> = {
+  in: 'in-stock',
+  available: 'in-stock',
+  low: 'low-stock',
+  out: 'out-of-stock',
+}
+
+// How much a match in each field counts towards the ranking
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  id: 2.5,
+  brand: 2,
+  type: 1.5,
+  location: 1,
+}
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[]
+
+// Qualifiers narrow the results more than they rank them
+const QUALIFIER_WEIGHT = 0.5
+
+// Optional "-", optional "field:", then a quoted phrase (closing quote optional while typing) or a word
+const QUERY_TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi
+const STOCK_PATTERN = /^(<=|>=|<|>|=)?(\d+)$/
+
+interface IndexedField {
+  text: string
+  tokens: string[]
+}
+
+interface IndexedEntry<T> {
+  item: T
+  fields: Record<SearchField, IndexedField>
+}
+
+/**
+ * Lowercase, strip accents and collapse everything but letters and digits to single spaces
+ */
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .join(' ')
+}
+
+function indexField(value: string | undefined): IndexedField {
+  const text = normalizeSearchText(value ?? '')
+  return { text, tokens: text ? text.split(' ') : [] }
+}
+
+/**
+ * Edit distance (insertions, deletions, substitutions, adjacent swaps), giving up once it exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let distance = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2]! + 1)
+      }
+      current.push(distance)
+      rowMin = Math.min(rowMin, distance)
+    }
+    if (rowMin > maxDistance) return maxDistance + 1
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+/**
+ * Typos tolerated for a term: none for short terms, where they match almost anything
+ */
+function allowedEdits(term: string): number {
+  if (term.length >= 8) return 2
+  if (term.length >= 4) return 1
+  return 0
+}
+
+/**
+ * How well a term matches a field, from 0 (no match) to 1 (whole word)
+ */
+function matchTerm(term: string, field: IndexedField, fuzzy: boolean = true): number {
+  if (!term || !field.text) return 0
+
+  // Phrases match whole words ("storage b" is not "storage basement")
+  if (term.includes(' ')) {
+    if (field.text === term) return 1
+    return ` ${field.text} `.includes(` ${term} `) ? 0.8 : 0
+  }
+
+  let best = 0
+  for (const token of field.tokens) {
+    if (token === term) return 1
+    if (token.startsWith(term)) best = Math.max(best, 0.8)
+    else if (token.includes(term)) best = Math.max(best, 0.5)
+  }
+  if (best > 0 || !fuzzy) return best
+
+  const maxEdits = allowedEdits(term)
+  if (maxEdits === 0) return 0
+  for (const token of field.tokens) {
+    const distance = editDistance(term, token, maxEdits)
+    if (distance <= maxEdits) best = Math.max(best, 0.6 - 0.15 * distance)
+
+    // A word still being typed: compare against the start of longer words
+    if (token.length > term.length) {
+      const prefixDistance = editDistance(term, token.slice(0, term.length), maxEdits)
+      if (prefixDistance <= maxEdits) best = Math.max(best, 0.5 - 0.15 * prefixDistance)
+    }
+  }
+  return best
+}
+
+/**
+ * Best weighted match of a term across the given fields
+ */
+function scoreTerm(term: string, fields: Record<SearchField, IndexedField>, searchFields: readonly SearchField[], fuzzy: boolean = true): number {
+  let best = 0
+  for (const field of searchFields) {
+    best = Math.max(best, matchTerm(term, fields[field], fuzzy) * FIELD_WEIGHTS[field])
+  }
+  return best
+}
+
+function compareStock(balance: number, filter: StockFilter): boolean {
+  switch (filter.operator) {
+    case '<': return balance < filter.value
+    case '<=': return balance <= filter.value
+    case '>': return balance > filter.value
+    case '>=': return balance >= filter.value
+    default: return balance === filter.value
+  }
+}
+
+function isQualifierName(name: string): boolean {
+  const key = name.toLowerCase()
+  return key in FIELD_ALIASES || key === 'stock' || key === 'status'
+}
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+}
+
+/**
+ * Split a query into free terms and qualifiers. Unknown qualifiers are searched as plain text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], excludedTerms: [], fields: [], stock: [], statuses: [], qualifierText: '' }
+  const qualifiers: string[] = []
+
+  for (const match of query.matchAll(QUERY_TOKEN_PATTERN)) {
+    const negated = match[1] === '-'
+    const key = match[2]?.toLowerCase()
+    const phrase = match[3]
+    const value = phrase ?? match[4] ?? ''
+
+    const field = key ? FIELD_ALIASES[key] : undefined
+    if (field) {
+      const normalized = normalizeSearchText(value)
+      if (normalized) {
+        parsed.fields.push({ field, value: normalized, negated })
+        qualifiers.push(match[0])
+      }
+      continue
+    }
+
+    if (key === 'stock') {
+      const stock = STOCK_PATTERN.exec(value.trim())
+      if (stock) {
+        parsed.stock.push({ operator: (stock[1] as StockOperator | undefined) ?? '=', value: Number(stock[2]) })
+        qualifiers.push(match[0])
+      }
+      continue
+    }
+
+    if (key === 'status') {
+      const status = STATUS_ALIASES[value.trim().toLowerCase()]
+      if (status) {
+        parsed.statuses.push(status)
+        qualifiers.push(match[0])
+      }
+      continue
+    }
+
+    // A qualifier still waiting for its value ("brand:") filters nothing yet
+    if (!key && isQualifierName(value.slice(0, -1)) && value.endsWith(':')) continue
+
+    const text = normalizeSearchText(key ? `${key} ${value}` : value)
+    if (!text) continue
+    const terms = phrase !== undefined && text.includes(' ') ? [text] : text.split(' ')
+    if (negated) {
+      parsed.excludedTerms.push(...terms)
+      qualifiers.push(match[0])
+    } else {
+      parsed.terms.push(...terms)
+    }
+  }
+
+  parsed.qualifierText = qualifiers.join(' ')
+  return parsed
+}
+
+/**
+ * Whether a parsed query filters anything at all
+ */
+export function isEmptySearchQuery(parsed: ParsedSearchQuery): boolean {
+  return parsed.terms.length === 0 && parsed.excludedTerms.length === 0 && parsed.fields.length === 0 &&
+    parsed.stock.length === 0 && parsed.statuses.length === 0
+}
+
+/**
+ * Pre-tokenised products, rebuilt whenever the product list changes
+ */
+export class ProductSearchIndex<T extends SearchableProduct> {
+  private entries: IndexedEntry<T>[]
+
+  constructor(items: readonly T[]) {
+    this.entries = items.map(item => ({
+      item,
+      fields: {
+        name: indexField(item.name),
+        brand: indexField(item.brand),
+        type: indexField(item.itemType),
+        location: indexField(item.location),
+        id: indexField(item.id),
+      },
+    }))
+  }
+
+  /**
+   * Items matching the query, best match first (ties keep the original order).
+   * An empty query returns every item with a score of 0.
+   */
+  search(query: string | ParsedSearchQuery): SearchResult<T>[] {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query
+    const results: SearchResult<T>[] = []
+
+    for (const entry of this.entries) {
+      const score = this.scoreEntry(entry, parsed)
+      if (score !== null) results.push({ item: entry.item, score })
+    }
+
+    return results.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Suggestions for a partly typed query: matching brands, types and locations as
+   * qualifiers, plus the best matching items. Qualifiers already typed are kept.
+   */
+  suggest(query: string, limit: number = 5): SearchSuggestion[] {
+    const parsed = parseSearchQuery(query)
+    if (parsed.terms.length === 0) return []
+
+    const prefix = parsed.qualifierText ? `${parsed.qualifierText} ` : ''
+    const scored: Array<SearchSuggestion & { score: number }> = []
+
+    // Facets: distinct brand, type and location values matching every free term
+    const seen = new Set<string>()
+    const facetFields: Array<[SearchField, keyof SearchableProduct]> = [['brand', 'brand'], ['type', 'itemType'], ['location', 'location']]
+    for (const entry of this.entries) {
+      for (const [field, property] of facetFields) {
+        const label = String(entry.item[property] ?? '')
+        const key = `${field}:${entry.fields[field].text}`
+        if (!entry.fields[field].text || seen.has(key)) continue
+        seen.add(key)
+
+        let score = 0
+        for (const term of parsed.terms) {
+          const termScore = matchTerm(term, entry.fields[field]) * FIELD_WEIGHTS[field]
+          if (termScore === 0) {
+            score = 0
+            break
+          }
+          score += termScore
+        }
+        if (score > 0) {
+          const qualifier = field === 'location' ? 'loc' : field
+          scored.push({ label, kind: field, query: `${prefix}${qualifier}:${quoteIfNeeded(label)}`, score })
+        }
+      }
+    }
+
+    for (const result of this.search(parsed)) {
+      if (result.score <= 0) break
+      scored.push({ label: result.item.name, kind: 'item', query: `${prefix}${result.item.name}`, score: result.score })
+      if (scored.length >= limit * 3) break
+    }
+
+    const labels = new Set<string>()
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .filter(suggestion => {
+        const key = `${suggestion.kind}:${suggestion.label}`
+        if (labels.has(key)) return false
+        labels.add(key)
+        return true
+      })
+      .slice(0, limit)
+      .map(({ score: _score, ...suggestion }) => suggestion)
+  }
+
+  /**
+   * Relevance of one item, or null when it does not match
+   */
+  private scoreEntry(entry: IndexedEntry<T>, parsed: ParsedSearchQuery): number | null {
+    const { item, fields } = entry
+
+    if (parsed.statuses.length > 0 && !parsed.statuses.includes(item.status ?? '')) return null
+
+    for (const filter of parsed.stock) {
+      if (typeof item.balance !== 'number' || !compareStock(item.balance, filter)) return null
+    }
+
+    for (const term of parsed.excludedTerms) {
+      if (scoreTerm(term, fields, SEARCH_FIELDS, false) > 0) return null
+    }
+
+    let score = 0
+    for (const filter of parsed.fields) {
+      // Exclusions only drop close matches, never typo-tolerant ones
+      const match = matchTerm(filter.value, fields[filter.field], !filter.negated)
+      if (filter.negated) {
+        if (match > 0) return null
+        continue
+      }
+      if (match === 0) return null
+      score += match * FIELD_WEIGHTS[filter.field] * QUALIFIER_WEIGHT
+    }
+
+    for (const term of parsed.terms) {
+      const termScore = scoreTerm(term, fields, SEARCH_FIELDS)
+      if (termScore === 0) return null
+      score += termScore
+    }
+
+    return score
+  }
+}
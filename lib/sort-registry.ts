@@ -0,0 +1,211 @@
+/**
+ * Sort Registry
+ * Every sort order offered in the app, defined once and shared by the dashboard grid, the cart
+ * and exports. An order is a list of option ids applied in turn (primary, then secondary keys);
+ * remaining ties fall back to name and item id so the result is always stable.
+ */
+
+import type { ItemUsageMap } from './item-usage'
+
+export type SortScope = 'catalogue' | 'cart'
+
+// Fields shared by products and cart lines
+export interface SortableItem {
+  id: string
+  name: string
+  brand?: string | undefined
+  itemType?: string | undefined
+  location?: string | undefined
+  balance?: number | undefined
+  status?: string | undefined
+  // Cart lines only
+  quantity?: number | undefined
+  addedAt?: number | undefined
+}
+
+export interface SortContext {
+  // Search relevance by item id (higher is better)
+  scores?: ReadonlyMap<string, number> | undefined
+  // Checkout history by item id
+  usage?: ItemUsageMap | null | undefined
+}
+
+interface SortOptionDefinition {
+  label: string
+  // For narrow selects
+  shortLabel: string
+  scopes: readonly SortScope[]
+  // Needs checkout history (SortContext.usage)
+  usesHistory?: boolean
+  compare: (a: SortableItem, b: SortableItem, context: SortContext) => number
+}
+
+// Menu order
+export const SORT_OPTION_IDS = [
+  'relevance',
+  'recent',
+  'name-asc',
+  'name-desc',
+  'stock-high',
+  'stock-low',
+  'qty-high',
+  'qty-low',
+  'status-severity',
+  'brand-asc',
+  'type-asc',
+  'location-asc',
+  'recently-checked-out',
+  'most-used',
+] as const
+
+export type SortOptionId = typeof SORT_OPTION_IDS[number]
+
+// Most urgent first
+const STATUS_SEVERITY: Record<string, number> = {
+  'out-of-stock': 0,
+  'low-stock': 1,
+  'in-stock': 2,
+}
+
+function compareText(a: string | undefined, b: string | undefined): number {
+  // Blank values go last
+  if (!a || !b) return Number(!a) - Number(!b)
+  return a.localeCompare(b)
+}
+
+// Larger values first; items without a value go last
+function compareDescending(a: number | string | undefined, b: number | string | undefined): number {
+  if (a === undefined || b === undefined) return Number(a === undefined) - Number(b === undefined)
+  return a > b ? -1 : a < b ? 1 : 0
+}
+
+export const SORT_REGISTRY: Record<SortOptionId, SortOptionDefinition> = {
+  'relevance': {
+    label: 'Best Match',
+    shortLabel: 'Best',
+    scopes: ['catalogue'],
+    compare: (a, b, { scores }) => (scores?.get(b.id) ?? 0) - (scores?.get(a.id) ?? 0),
+  },
+  'name-asc': {
+    label: 'Name A-Z',
+    shortLabel: 'A-Z',
+    scopes: ['catalogue', 'cart'],
+    compare: (a, b) => a.name.localeCompare(b.name),
+  },
+  'name-desc': {
+    label: 'Name Z-A',
+    shortLabel: 'Z-A',
+    scopes: ['catalogue', 'cart'],
+    compare: (a, b) => b.name.localeCompare(a.name),
+  },
+  'stock-high': {
+    label: 'Stock High-Low',
+    shortLabel: 'High Stock',
+    scopes: ['catalogue', 'cart'],
+    compare: (a, b) => (b.balance ?? 0) - (a.balance ?? 0),
+  },
+  'stock-low': {
+    label: 'Stock Low-High',
+    shortLabel: 'Low Stock',
+    scopes: ['catalogue', 'cart'],
+    compare: (a, b) => (a.balance ?? 0) - (b.balance ?? 0),
+  },
+  'status-severity': {
+    label: 'Stock Status (Out First)',
+    shortLabel: 'Status',
+    scopes: ['catalogue', 'cart'],
+    compare: (a, b) => (STATUS_SEVERITY[a.status ?? ''] ?? 3) - (STATUS_SEVERITY[b.status ?? ''] ?? 3),
+  },
+  'brand-asc': {
+    label: 'Brand A-Z',
+    shortLabel: 'Brand',
+    // The cart is already grouped by brand
+    scopes: ['catalogue'],
+    compare: (a, b) => compareText(a.brand, b.brand),
+  },
+  'type-asc': {
+    label: 'Item Type A-Z',
+    shortLabel: 'Type',
+    scopes: ['catalogue', 'cart'],
+    compare: (a, b) => compareText(a.itemType, b.itemType),
+  },
+  'location-asc': {
+    label: 'Location A-Z',
+    shortLabel: 'Location',
+    scopes: ['catalogue', 'cart'],
+    compare: (a, b) => compareText(a.location, b.location),
+  },
+  'recently-checked-out': {
+    label: 'Recently Checked Out',
+    shortLabel: 'Recent Out',
+    scopes: ['catalogue', 'cart'],
+    usesHistory: true,
+    compare: (a, b, { usage }) => compareDescending(usage?.[a.id]?.lastCheckedOut, usage?.[b.id]?.lastCheckedOut),
+  },
+  'most-used': {
+    label: 'Most Used',
+    shortLabel: 'Most Used',
+    scopes: ['catalogue', 'cart'],
+    usesHistory: true,
+    compare: (a, b, { usage }) =>
+      compareDescending(usage?.[a.id]?.checkouts, usage?.[b.id]?.checkouts) ||
+      compareDescending(usage?.[a.id]?.quantity, usage?.[b.id]?.quantity),
+  },
+  'recent': {
+    label: 'Recently Added',
+    shortLabel: 'Recent',
+    scopes: ['cart'],
+    compare: (a, b) => (b.addedAt ?? 0) - (a.addedAt ?? 0),
+  },
+  'qty-high': {
+    label: 'Qty High-Low',
+    shortLabel: 'Qty High',
+    scopes: ['cart'],
+    compare: (a, b) => (b.quantity ?? 0) - (a.quantity ?? 0),
+  },
+  'qty-low': {
+    label: 'Qty Low-High',
+    shortLabel: 'Qty Low',
+    scopes: ['cart'],
+    compare: (a, b) => (a.quantity ?? 0) - (b.quantity ?? 0),
+  },
+}
+
+export function isSortOptionId(value: unknown): value is SortOptionId {
+  return typeof value === 'string' && (SORT_OPTION_IDS as readonly string[]).includes(value)
+}
+
+/**
+ * Option ids offered in one part of the app, in menu order
+ */
+export function getSortOptions(scope: SortScope): SortOptionId[] {
+  return SORT_OPTION_IDS.filter(id => SORT_REGISTRY[id].scopes.includes(scope))
+}
+
+/**
+ * Whether any level of the order needs checkout history
+ */
+export function sortUsesHistory(order: readonly SortOptionId[]): boolean {
+  return order.some(id => SORT_REGISTRY[id].usesHistory)
+}
+
+/**
+ * Comparator applying each level of the order in turn, then name and id
+ */
+export function createComparator<T extends SortableItem>(order: readonly SortOptionId[], context: SortContext = {}): (a: T, b: T) => number {
+  const comparators = order.map(id => SORT_REGISTRY[id].compare)
+  return (a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b, context)
+      if (result !== 0) return result
+    }
+    return a.name.localeCompare(b.name) || a.id.localeCompare(b.id)
+  }
+}
+
+/**
+ * Sorted copy of the items
+ */
+export function sortItems<T extends SortableItem>(items: readonly T[], order: readonly SortOptionId[], context: SortContext = {}): T[] {
+  return [...items].sort(createComparator<T>(order, context))
+}
@@ -0,0 +1,202 @@
+/**
+ * Stock Reservations
+ * Soft holds on stock while items sit in a cart, so two kiosks cannot both promise the last unit.
+ * The cart is mirrored to the API as this kiosk's reservations, which expire RESERVATION_TTL_MS
+ * after the cart last changed. Other kiosks' reservations are subtracted from the available balance.
+ */
+
+import { apiService } from './api_service'
+import { HttpError } from './api-errors'
+import type { StockShortfall } from './api-errors'
+import type { StockReservation } from './Services/reservations.service'
+
+export const RESERVATION_TTL_MS = 15 * 60 * 1000
+const REFRESH_INTERVAL_MS = 30 * 1000
+// Quantity steppers fire many saves in a row; only the last one is sent
+const SYNC_DEBOUNCE_MS = 500
+const HOLDER_STORAGE_KEY = 'toolbox_reservation_holder'
+
+// Dispatched on window whenever the known reservations change
+export const RESERVATIONS_CHANGED_EVENT = 'stock-reservations-changed'
+
+export interface ReservableLine {
+  id: string
+  quantity: number
+}
+
+export interface CheckoutLine extends ReservableLine {
+  name: string
+}
+
+// Current availability of one checkout line (a shortfall when available < requested)
+export type LineAvailability = StockShortfall
+
+function createHolderId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `kiosk-${crypto.randomUUID()}`
+  }
+  return `kiosk-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+export class StockReservations {
+  private holderId: string | null = null
+  private reservations: StockReservation[] = []
+  // What this kiosk's cart holds, by item id
+  private ownLines: Map<string, number> = new Map()
+  private syncTimer: ReturnType<typeof setTimeout> | null = null
+  private refreshTimer: ReturnType<typeof setInterval> | null = null
+  private watchers = 0
+  // The API has no reservations endpoint: fall back to plain balances
+  private unsupported = false
+
+  /**
+   * Identifies this kiosk's cart; shared by all tabs, which share the cart
+   */
+  getHolderId(): string {
+    if (this.holderId) return this.holderId
+
+    try {
+      this.holderId = localStorage.getItem(HOLDER_STORAGE_KEY)
+      if (!this.holderId) {
+        this.holderId = createHolderId()
+        localStorage.setItem(HOLDER_STORAGE_KEY, this.holderId)
+      }
+    } catch {
+      this.holderId = createHolderId()
+    }
+    return this.holderId
+  }
+
+  /**
+   * Units of an item held by other kiosks' carts
+   */
+  getReservedByOthers(itemId: string): number {
+    const holderId = this.getHolderId()
+    const now = Date.now()
+    return this.reservations
+      .filter(reservation => reservation.item_no === itemId && reservation.holder_id !== holderId && new Date(reservation.expires_at).getTime() > now)
+      .reduce((sum, reservation) => sum + reservation.quantity, 0)
+  }
+
+  /**
+   * Balance this kiosk may still take: stock less other carts' reservations
+   */
+  getAvailable(itemId: string, balance: number): number {
+    return Math.max(0, balance - this.getReservedByOthers(itemId))
+  }
+
+  /**
+   * Mirror the cart as this kiosk's reservations; every line's expiry is renewed
+   */
+  syncCart(lines: ReservableLine[]) {
+    this.ownLines = new Map()
+    for (const line of lines) {
+      if (line.quantity > 0) this.ownLines.set(line.id, (this.ownLines.get(line.id) ?? 0) + line.quantity)
+    }
+
+    if (this.syncTimer) clearTimeout(this.syncTimer)
+    this.syncTimer = setTimeout(() => this.pushOwnLines(), SYNC_DEBOUNCE_MS)
+  }
+
+  /**
+   * Release everything this kiosk holds (cart emptied or checked out)
+   */
+  releaseAll() {
+    this.syncCart([])
+  }
+
+  /**
+   * Reload every kiosk's reservations from the API
+   */
+  async refresh(): Promise<void> {
+    if (this.unsupported) return
+    try {
+      this.reservations = await apiService.fetchReservations()
+      this.notifyChanged()
+    } catch (error) {
+      this.handleError('load', error)
+    }
+  }
+
+  /**
+   * Keep reservations fresh while something displays them
+   * @returns Stop watching
+   */
+  watch(): () => void {
+    this.watchers++
+    if (this.watchers === 1) {
+      this.refresh()
+      this.refreshTimer = setInterval(() => {
+        if (typeof document === 'undefined' || !document.hidden) this.refresh()
+      }, REFRESH_INTERVAL_MS)
+    }
+
+    return () => {
+      this.watchers--
+      if (this.watchers === 0 && this.refreshTimer) {
+        clearInterval(this.refreshTimer)
+        this.refreshTimer = null
+      }
+    }
+  }
+
+  /**
+   * Re-fetch balances and reservations and work out what each line can still take
+   */
+  async checkAvailability(lines: CheckoutLine[]): Promise<LineAvailability[]> {
+    const [items] = await Promise.all([apiService.fetchItems(), this.refresh()])
+    const balances = new Map(items.map(item => [String(item.item_no ?? item.id), Number(item.balance)]))
+
+    return lines.map(line => {
+      const balance = balances.get(line.id)
+      // Items no longer on the server count as out of stock
+      const available = balance === undefined || !Number.isFinite(balance) ? 0 : this.getAvailable(line.id, balance)
+      return { itemId: line.id, name: line.name, requested: line.quantity, available }
+    })
+  }
+
+  /**
+   * Lines current balances and reservations no longer cover, checked just before committing a checkout
+   */
+  async findShortfalls(lines: CheckoutLine[]): Promise<StockShortfall[]> {
+    const availability = await this.checkAvailability(lines)
+    return availability.filter(line => line.available < line.requested)
+  }
+
+  private async pushOwnLines() {
+    this.syncTimer = null
+    if (this.unsupported) return
+
+    const holderId = this.getHolderId()
+    try {
+      if (this.ownLines.size === 0) {
+        await apiService.releaseReservations(holderId)
+      } else {
+        const lines = Array.from(this.ownLines, ([itemNo, quantity]) => ({ item_no: itemNo, quantity }))
+        await apiService.replaceReservations(holderId, lines, RESERVATION_TTL_MS)
+      }
+    } catch (error) {
+      this.handleError('update', error)
+    }
+  }
+
+  private handleError(action: 'load' | 'update', error: unknown) {
+    if (error instanceof HttpError && (error.status === 404 || error.status === 405)) {
+      console.warn('[StockReservations] API does not support reservations; using plain balances')
+      this.unsupported = true
+      this.reservations = []
+      this.notifyChanged()
+      return
+    }
+    // Reservations are advisory: checkout still works without them
+    console.warn(`[StockReservations] Failed to ${action} reservations:`, error instanceof Error ? error.message : error)
+  }
+
+  private notifyChanged() {
+    if (typeof window === 'undefined') return
+    window.dispatchEvent(new CustomEvent(RESERVATIONS_CHANGED_EVENT))
+  }
+}
+
+// Export singleton instance
+export const stockReservations = new StockReservations()
@@ -0,0 +1,203 @@
+/**
+ * Tab Sync
+ * Keeps several tabs of the app on one kiosk consistent over a BroadcastChannel: cart edits,
+ * inventory changes (checkouts, returns, adjustments) and relayed realtime events. Also elects
+ * a single leader tab, so only one tab talks to the realtime transport (SSE or polling).
+ *
+ * Leadership uses the Web Locks API where available (released automatically when the tab
+ * closes); otherwise the leader sends heartbeats and a follower takes over when they stop.
+ */
+
+export type TabSyncMessage =
+  // Cart was written to localStorage; reload it
+  | { type: 'cart_changed' }
+  // Stock changed through this kiosk (checkout, return, adjustment); refetch products
+  | { type: 'inventory_changed'; reason: string }
+  // Realtime event received by the leader tab
+  | { type: 'realtime_event'; event: string; data: any }
+  | { type: 'realtime_status'; connected: boolean; error: string | null }
+
+export type TabSyncMessageType = TabSyncMessage['type']
+
+type TabSyncMessageOf<T extends TabSyncMessageType> = Extract<TabSyncMessage, { type: T }>
+
+// Leader election over the channel (fallback when Web Locks are unavailable)
+type ElectionMessage =
+  | { type: 'leader_heartbeat'; tabId: string }
+  | { type: 'leader_resign'; tabId: string }
+
+interface Envelope {
+  sourceTabId: string
+  message: TabSyncMessage | ElectionMessage
+}
+
+const CHANNEL_NAME = 'toolbox-tab-sync'
+const LEADER_LOCK_NAME = 'toolbox-leader'
+const HEARTBEAT_INTERVAL_MS = 2000
+// A leader silent for this long is presumed gone
+const LEADER_TIMEOUT_MS = 5000
+
+function createTabId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+export class TabSync {
+  readonly tabId = createTabId()
+  private channel: BroadcastChannel | null = null
+  private handlers: Map<TabSyncMessageType, Set<(message: any) => void>> = new Map()
+  private leadershipListeners: Set<(isLeader: boolean) => void> = new Set()
+  private leader = false
+  private electionStarted = false
+
+  // Heartbeat fallback state
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private lastLeaderHeartbeat = 0
+  private knownLeaderId: string | null = null
+
+  constructor() {
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME)
+    this.channel.onmessage = (event: MessageEvent<Envelope>) => this.handleEnvelope(event.data)
+  }
+
+  /**
+   * Send a message to every other tab (the sender does not receive it)
+   */
+  publish(message: TabSyncMessage) {
+    this.post(message)
+  }
+
+  subscribe<T extends TabSyncMessageType>(type: T, handler: (message: TabSyncMessageOf<T>) => void): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set())
+    }
+    this.handlers.get(type)!.add(handler)
+
+    return () => {
+      this.handlers.get(type)?.delete(handler)
+    }
+  }
+
+  isLeader(): boolean {
+    this.startElection()
+    return this.leader
+  }
+
+  /**
+   * Called with the current leadership now and again whenever it changes
+   */
+  onLeadershipChange(listener: (isLeader: boolean) => void): () => void {
+    this.startElection()
+    this.leadershipListeners.add(listener)
+    listener(this.leader)
+    return () => {
+      this.leadershipListeners.delete(listener)
+    }
+  }
+
+  private post(message: TabSyncMessage | ElectionMessage) {
+    if (!this.channel) return
+    const envelope: Envelope = { sourceTabId: this.tabId, message }
+    this.channel.postMessage(envelope)
+  }
+
+  private handleEnvelope(envelope: Envelope) {
+    if (!envelope || envelope.sourceTabId === this.tabId) return
+    const { message } = envelope
+
+    if (message.type === 'leader_heartbeat') {
+      this.handleHeartbeat(message.tabId)
+      return
+    }
+    if (message.type === 'leader_resign') {
+      if (message.tabId === this.knownLeaderId) this.lastLeaderHeartbeat = 0
+      return
+    }
+
+    this.handlers.get(message.type)?.forEach(handler => {
+      try {
+        handler(message)
+      } catch (error) {
+        console.error(`[TabSync] Error in handler for ${message.type}:`, error)
+      }
+    })
+  }
+
+  private setLeader(isLeader: boolean) {
+    if (this.leader === isLeader) return
+    this.leader = isLeader
+    console.log(`[TabSync] Tab ${this.tabId.slice(0, 8)} is ${isLeader ? 'now the leader' : 'no longer the leader'}`)
+    this.leadershipListeners.forEach(listener => listener(isLeader))
+  }
+
+  // ========================================
+  // LEADER ELECTION
+  // ========================================
+
+  private startElection() {
+    if (this.electionStarted || typeof window === 'undefined') return
+    this.electionStarted = true
+
+    // Without a channel there are no other tabs to coordinate with
+    if (!this.channel) {
+      this.setLeader(true)
+      return
+    }
+
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      // Held until the tab closes; the next waiting tab is granted the lock
+      navigator.locks.request(LEADER_LOCK_NAME, () => {
+        this.setLeader(true)
+        return new Promise<void>(() => {})
+      }).catch(error => {
+        console.warn('[TabSync] Web Locks election failed, using heartbeats:', error)
+        this.startHeartbeatElection()
+      })
+      return
+    }
+
+    this.startHeartbeatElection()
+  }
+
+  private startHeartbeatElection() {
+    // Give an existing leader one timeout to announce itself before claiming
+    this.lastLeaderHeartbeat = Date.now()
+    setInterval(() => {
+      if (!this.leader && Date.now() - this.lastLeaderHeartbeat > LEADER_TIMEOUT_MS) {
+        this.becomeHeartbeatLeader()
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+
+    window.addEventListener('pagehide', () => {
+      if (this.leader) this.post({ type: 'leader_resign', tabId: this.tabId })
+    })
+  }
+
+  private becomeHeartbeatLeader() {
+    this.knownLeaderId = this.tabId
+    this.setLeader(true)
+    this.post({ type: 'leader_heartbeat', tabId: this.tabId })
+    this.heartbeatTimer = setInterval(() => {
+      this.post({ type: 'leader_heartbeat', tabId: this.tabId })
+    }, HEARTBEAT_INTERVAL_MS)
+  }
+
+  private handleHeartbeat(leaderId: string) {
+    // Two tabs claimed at once: the lower id keeps leadership
+    if (this.leader && leaderId > this.tabId) return
+    if (this.leader) {
+      if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+      this.setLeader(false)
+    }
+    this.knownLeaderId = leaderId
+    this.lastLeaderHeartbeat = Date.now()
+  }
+}
+
+// Export singleton instance
+export const tabSync = new TabSync()
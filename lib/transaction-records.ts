@@ -0,0 +1,247 @@
+/**
+ * Transaction Records
+ * Converts structured transactions (header + line items) to the database log format and back.
+ * Entries written before line items existed only have free-text details and a ";"-separated
+ * item_no list; parseTransactionLog() upgrades those on read.
+ */
+
+import type {
+  EnhancedTransactionData,
+  TransactionLineItem,
+  TransactionLogData,
+  TransactionType,
+} from './Services/transactions.service'
+
+export const DEFAULT_UNIT = 'pcs'
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  checkout: 'Checkout',
+  return: 'Return',
+  adjustment: 'Stock Adjustment',
+  other: 'Activity',
+}
+
+// Prefix of the generated details summary
+const SUMMARY_PREFIXES: Record<TransactionType, string> = {
+  checkout: 'Checkout',
+  return: 'Returned',
+  adjustment: 'Stock adjustment',
+  other: 'Activity',
+}
+
+// Database column limit for details and item_no
+const MAX_LOG_FIELD_LENGTH = 255
+
+/**
+ * Line item as stored in items_json
+ */
+interface StoredLineItem {
+  item_no: string
+  item_name: string
+  quantity: number
+  unit_of_measure?: string
+  balance_before?: number
+  balance_after?: number
+  brand?: string
+  item_type?: string
+  location?: string
+  condition?: string
+}
+
+/**
+ * Build a transaction with totalItems computed from the lines
+ */
+export function createTransaction(transaction: Omit<EnhancedTransactionData, 'totalItems'>): EnhancedTransactionData {
+  return {
+    ...transaction,
+    totalItems: transaction.items.reduce((sum, item) => sum + item.quantity, 0),
+  }
+}
+
+function truncateField(value: string): string {
+  return value.length > MAX_LOG_FIELD_LENGTH ? value.substring(0, MAX_LOG_FIELD_LENGTH - 3) + '...' : value
+}
+
+/**
+ * Concise details text (max 255 chars), e.g. "Checkout: 3 items - Drill x1 (Makita), Tape x2 (Stanley)"
+ */
+function summarizeTransaction(transaction: EnhancedTransactionData): string {
+  const { type, items } = transaction
+  let summary = `${SUMMARY_PREFIXES[type]}: ${transaction.totalItems} items - `
+
+  const describe = (item: TransactionLineItem, withDetail: boolean) => {
+    const detail = type === 'return' ? item.condition : withDetail && item.brand && item.brand !== 'N/A' ? item.brand : undefined
+    return `${item.name} x${item.quantity}${detail ? ` (${detail})` : ''}`
+  }
+
+  if (items.length <= 2) {
+    // Very short list: show full details
+    summary += items.map(item => describe(item, true)).join(', ')
+  } else if (items.length <= 4) {
+    // Short list: show names and quantities only
+    summary += items.map(item => describe(item, false)).join(', ')
+  } else {
+    // Long list: show count by item name only
+    const itemSummary = items.reduce((acc, item) => {
+      acc[item.name] = (acc[item.name] || 0) + item.quantity
+      return acc
+    }, {} as Record<string, number>)
+    summary += Object.entries(itemSummary).map(([name, quantity]) => `${name} x${quantity}`).join(', ')
+  }
+
+  return truncateField(summary)
+}
+
+/**
+ * Join item ids with ";", keeping only complete ids within the column limit
+ */
+function joinItemNumbers(items: TransactionLineItem[]): string {
+  const joined = items.map(item => item.id).join(';')
+  if (joined.length <= MAX_LOG_FIELD_LENGTH) return joined
+
+  const maxLength = MAX_LOG_FIELD_LENGTH - 3 // Leave room for "..."
+  const kept: string[] = []
+  let currentLength = 0
+  for (const item of items) {
+    const separatorLength = kept.length > 0 ? 1 : 0
+    if (currentLength + item.id.length + separatorLength > maxLength) break
+    kept.push(item.id)
+    currentLength += item.id.length + separatorLength
+  }
+  return kept.join(';') + '...'
+}
+
+/**
+ * Convert a structured transaction to the database log format
+ */
+export function toTransactionLogData(transaction: EnhancedTransactionData): TransactionLogData {
+  const storedItems: StoredLineItem[] = transaction.items.map(item => ({
+    item_no: item.id,
+    item_name: item.name,
+    quantity: item.quantity,
+    unit_of_measure: item.unit,
+    ...(item.balanceBefore !== undefined && { balance_before: item.balanceBefore }),
+    ...(item.balanceAfter !== undefined && { balance_after: item.balanceAfter }),
+    ...(item.brand && { brand: item.brand }),
+    ...(item.itemType && { item_type: item.itemType }),
+    ...(item.location && { location: item.location }),
+    ...(item.condition && { condition: item.condition }),
+  }))
+
+  return {
+    username: transaction.username,
+    details: transaction.details ? truncateField(transaction.details) : summarizeTransaction(transaction),
+    transaction_type: transaction.type,
+    item_no: joinItemNumbers(transaction.items),
+    items_json: JSON.stringify(storedItems),
+    ...(transaction.purpose?.trim() && { purpose: transaction.purpose.trim() }),
+    ...(transaction.idNumber && { id_number: transaction.idNumber }),
+    ...(transaction.idBarcode && { id_barcode: transaction.idBarcode }),
+    // Omitted dates are set by the server using NOW()
+    ...(transaction.logDate && { log_date: transaction.logDate }),
+    ...(transaction.logTime && { log_time: transaction.logTime }),
+  }
+}
+
+/**
+ * Transaction type of a log entry: the stored type, otherwise inferred from the details text
+ */
+export function getTransactionType(log: { details?: string | undefined; transaction_type?: string | undefined }): TransactionType {
+  if (log.transaction_type && log.transaction_type in TRANSACTION_TYPE_LABELS) return log.transaction_type as TransactionType
+
+  const details = (log.details || '').trim().toLowerCase()
+  if (details.startsWith('returned') || details.startsWith('checkin') || details.startsWith('check-in')) return 'return'
+  if (details.startsWith('checked out') || details.startsWith('checkout')) return 'checkout'
+  if (details.startsWith('stock')) return 'adjustment'
+  return 'other'
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined
+}
+
+function parseStoredItems(itemsJson: string): TransactionLineItem[] | null {
+  try {
+    const parsed = JSON.parse(itemsJson)
+    if (!Array.isArray(parsed)) return null
+
+    return parsed
+      .filter((line: any) => line && line.item_no !== undefined && line.item_no !== null)
+      .map((line: any): TransactionLineItem => ({
+        id: String(line.item_no),
+        name: String(line.item_name ?? line.item_no),
+        quantity: Math.max(0, Number(line.quantity) || 0),
+        unit: typeof line.unit_of_measure === 'string' && line.unit_of_measure ? line.unit_of_measure : DEFAULT_UNIT,
+        balanceBefore: toOptionalNumber(line.balance_before),
+        balanceAfter: toOptionalNumber(line.balance_after),
+        brand: typeof line.brand === 'string' ? line.brand : undefined,
+        itemType: typeof line.item_type === 'string' ? line.item_type : undefined,
+        location: typeof line.location === 'string' ? line.location : undefined,
+        condition: typeof line.condition === 'string' ? line.condition : undefined,
+      }))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reconstruct line items from legacy free text:
+ * "Checkout: 3 items - Drill x1 (Makita), Tape x2" / "Checked out Drill x2" / "Returned: ..."
+ * paired with the ";"-separated item_no list
+ */
+function parseLegacyItems(log: TransactionLogData, type: TransactionType): TransactionLineItem[] {
+  const itemIds = (log.item_no || '').replace(/\.\.\.$/, '').split(/[;,]/).map(id => id.trim()).filter(Boolean)
+  if (itemIds.length === 0) return []
+
+  const summary = (log.details || '').replace(/^[^-]*-\s*/, '').replace(/^(checked out|returned)\s+/i, '')
+  const segments = summary
+    .split(/,\s*/)
+    .map(segment => segment.match(/^(.*?)\s+x(\d+)(?:\s*\(([^)]*)\))?/i))
+    .filter(Boolean) as RegExpMatchArray[]
+
+  const toLine = (id: string, segment: RegExpMatchArray | undefined, fallbackName: string): TransactionLineItem => {
+    const detail = segment?.[3]?.trim()
+    return {
+      id,
+      name: segment?.[1]?.trim() || fallbackName,
+      quantity: segment ? parseInt(segment[2]!, 10) : 1,
+      unit: DEFAULT_UNIT,
+      ...(detail && (type === 'return' ? { condition: detail } : { brand: detail })),
+    }
+  }
+
+  if (segments.length === itemIds.length) {
+    return itemIds.map((id, index) => toLine(id, segments[index], id))
+  }
+
+  // Summaries that were shortened for the database: quantities are only reliable for single-item logs
+  if (itemIds.length === 1) {
+    return [toLine(itemIds[0]!, segments[0], summary.trim() || itemIds[0]!)]
+  }
+  return itemIds.map(id => toLine(id, undefined, id))
+}
+
+/**
+ * Read a log entry as a structured transaction, upgrading legacy free-text entries
+ */
+export function parseTransactionLog(log: TransactionLogData): EnhancedTransactionData {
+  const type = getTransactionType(log)
+  const storedItems = log.items_json ? parseStoredItems(log.items_json) : null
+  const items = storedItems ?? parseLegacyItems(log, type)
+
+  return {
+    ...createTransaction({
+      type,
+      username: log.username,
+      idNumber: log.id_number,
+      idBarcode: log.id_barcode,
+      purpose: log.purpose,
+      details: log.details,
+      logDate: log.log_date,
+      logTime: log.log_time,
+      items,
+    }),
+    isLegacy: storedItems === null,
+  }
+}
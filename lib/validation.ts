@@ -83,7 +83,8 @@ export const SearchQuerySchema = {
     if (typeof input !== 'string') throw new Error('Search query must be a string')
     const trimmed = input.trim()
     if (trimmed.length > 100) throw new Error('Search query too long')
-    if (!/^[A-Za-z0-9\s._-]*$/.test(trimmed)) throw new Error('Search query contains invalid characters')
+    // Letters and digits plus the search syntax (brand:dell loc:"Storage B" stock:<5 -cordless)
+    if (!/^[\p{L}\p{N}\s._\-:"'<>=/]*$/u.test(trimmed)) throw new Error('Search query contains invalid characters')
     return trimmed
   }
 }
@@ -21,6 +21,20 @@ const STATIC_ASSETS = [
   '/favicon.ico'
 ]
 
+// Offline checkout outbox - shared with lib/offline-outbox.ts, keep both in sync
+const OUTBOX_DB_NAME = 'toolbox-offline'
+const OUTBOX_DB_VERSION = 2
+const OUTBOX_PENDING_STORE = 'outbox'
+const OUTBOX_DEAD_LETTER_STORE = 'dead-letter'
+const OUTBOX_META_STORE = 'meta'
+const OUTBOX_REPLAY_CONFIG_KEY = 'replay-config'
+const OUTBOX_SYNC_TAG = 'toolbox-outbox-sync'
+const OUTBOX_PERIODIC_SYNC_TAG = 'toolbox-outbox-periodic-sync'
+const OUTBOX_MAX_ATTEMPTS = 5
+const OUTBOX_RETRY_BASE_DELAY = 5000 // 5s, 10s, 20s ...
+const OUTBOX_RETRY_MAX_DELAY = 5 * 60 * 1000 // capped at 5 minutes
+const OUTBOX_REQUEST_TIMEOUT = 15000
+
 // API endpoints to cache
 const API_ENDPOINTS = [
   '/api/items',
@@ -28,6 +42,16 @@ const API_ENDPOINTS = [
   '/api/employee-logs',
 ]
 
+// Stock balances, reservations and logs must be current while online (realtime polling,
+// checkout stock checks, outbox replay); the cache only answers when the network fails
+const NETWORK_FIRST_ENDPOINTS = [
+  '/api/items',
+  '/api/employee-logs',
+]
+
+// Default realtime stream path (NEXT_PUBLIC_REALTIME_EVENTS_PATH); other paths are recognised by their Accept header
+const REALTIME_EVENTS_PATH = '/api/events'
+
 // Install event - cache critical resources
 self.addEventListener('install', (event) => {
   console.log('[SW] Installing service worker for warehouse offline mode...')
@@ -117,6 +141,11 @@ self.addEventListener('fetch', (event) => {
     return
   }
   
+  // Leave the realtime event stream to the browser: caching an endless body never settles
+  if (url.pathname.includes(REALTIME_EVENTS_PATH) || request.headers.get('Accept')?.includes('text/event-stream')) {
+    return
+  }
+  
   // Handle API requests
   if (url.pathname.includes('/api/')) {
     event.respondWith(handleApiRequest(request))
@@ -127,14 +156,15 @@ self.addEventListener('fetch', (event) => {
   event.respondWith(handleStaticRequest(request))
 })
 
-// Handle API requests with cache-first strategy and offline support
+// Handle API requests with cache-first strategy (network-first for stock data) and offline support
 async function handleApiRequest(request) {
   const url = new URL(request.url)
   const cacheKey = url.pathname + url.search
+  const isNetworkFirst = NETWORK_FIRST_ENDPOINTS.some(endpoint => url.pathname.includes(endpoint))
   
   try {
     // Try cache first for GET requests
-    if (request.method === 'GET') {
+    if (request.method === 'GET' && !isNetworkFirst) {
       const cachedResponse = await getCachedApiResponse(cacheKey)
       
       if (cachedResponse && await isCacheValid(cacheKey)) {
@@ -365,9 +395,243 @@ self.addEventListener('message', (event) => {
         event.ports[0].postMessage({ success: true })
       })
       break
+
+    case 'REPLAY_OUTBOX':
+      // Manual "Sync Now" or the page coming back online; sends entries regardless of backoff
+      event.waitUntil(replayOutbox({ dueOnly: false }).catch((error) => {
+        console.log('[SW] Outbox replay stopped:', error.message)
+      }))
+      break
   }
 })
 
+// Background Sync - fired when connectivity returns; a rejected promise makes the browser retry later
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox({ dueOnly: false }))
+  }
+})
+
+// Periodic Background Sync - fallback for entries left once one-off sync retries are exhausted
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === OUTBOX_PERIODIC_SYNC_TAG) {
+    event.waitUntil(replayOutbox({ dueOnly: true }).catch((error) => {
+      console.log('[SW] Periodic outbox replay stopped:', error.message)
+    }))
+  }
+})
+
+// ========================================
+// OFFLINE OUTBOX REPLAY
+// ========================================
+
+let outboxReplay = null
+
+// Replay queued checkouts; concurrent triggers share the running replay
+function replayOutbox(options) {
+  if (!outboxReplay) {
+    outboxReplay = runOutboxReplay(options).finally(() => {
+      outboxReplay = null
+    })
+  }
+  return outboxReplay
+}
+
+async function runOutboxReplay({ dueOnly }) {
+  const db = await openOutboxDatabase()
+  const config = await idbRequest(db.transaction(OUTBOX_META_STORE).objectStore(OUTBOX_META_STORE).get(OUTBOX_REPLAY_CONFIG_KEY))
+  const now = Date.now()
+  const entries = (await idbRequest(db.transaction(OUTBOX_PENDING_STORE).objectStore(OUTBOX_PENDING_STORE).getAll()))
+    .filter((entry) => !dueOnly || entry.nextAttemptAt <= now)
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+  if (entries.length === 0) return
+  if (!config) {
+    // The page writes the config before registering a sync, so this only happens after a data wipe
+    console.warn('[SW] No replay config - leaving outbox to the page')
+    return
+  }
+
+  const progress = { total: entries.length, sent: 0, failed: 0 }
+  console.log(`[SW] Replaying ${entries.length} queued checkouts`)
+  await postOutboxProgress('started', progress)
+
+  let networkError = null
+  try {
+    const balances = await fetchItemBalances(config)
+
+    for (const entry of entries) {
+      // Queued return logs were restocked already; only checkouts are checked against stock
+      const conflicts = entry.type === 'return' ? [] : findStockConflicts(entry, balances)
+      if (conflicts.length > 0) {
+        progress.failed++
+        const message = `Insufficient stock for ${conflicts.map((conflict) => conflict.name).join(', ')}`
+        await moveToDeadLetter(db, { ...entry, attempts: entry.attempts + 1, lastError: message }, 'conflict', conflicts)
+        await postOutboxProgress('progress', progress)
+        continue
+      }
+
+      const outcome = await sendOutboxEntry(config, entry)
+      if (outcome.ok) {
+        progress.sent++
+        // Later entries in this run see the reduced balance
+        if (entry.type !== 'return') {
+          entry.payload.transaction.items.forEach((line) => {
+            if (balances.has(line.id)) balances.set(line.id, balances.get(line.id) - line.quantity)
+          })
+        }
+        await idbDelete(db, OUTBOX_PENDING_STORE, entry.id)
+        console.log(`[SW] Sent queued ${entry.type}:`, entry.id)
+      } else {
+        progress.failed++
+        await handleOutboxFailure(db, entry, outcome)
+        if (outcome.networkError) {
+          networkError = new Error(outcome.message)
+          break
+        }
+      }
+      await postOutboxProgress('progress', progress)
+    }
+  } catch (error) {
+    // Could not even load balances - nothing was sent, try again later
+    networkError = error
+  } finally {
+    await postOutboxProgress('finished', progress)
+  }
+
+  if (networkError) throw networkError
+}
+
+async function fetchItemBalances(config) {
+  const response = await fetch(`${config.baseUrl}${config.itemsPath}`, {
+    headers: config.headers,
+    mode: 'cors',
+    signal: AbortSignal.timeout(OUTBOX_REQUEST_TIMEOUT)
+  })
+  if (!response.ok) throw new Error(`Items request failed with ${response.status}`)
+
+  const payload = await response.json()
+  const items = Array.isArray(payload) ? payload : (payload && payload.data) || []
+  return new Map(items.map((item) => [String(item.item_no ?? item.id), Number(item.balance)]))
+}
+
+function findStockConflicts(entry, balances) {
+  return entry.payload.transaction.items
+    .filter((line) => {
+      const available = balances.get(line.id)
+      return available === undefined || !Number.isFinite(available) || available < line.quantity
+    })
+    .map((line) => ({
+      itemId: line.id,
+      name: line.name,
+      requested: line.quantity,
+      available: balances.get(line.id) ?? 0
+    }))
+}
+
+// Returns { ok } or { ok: false, status, message, networkError }
+async function sendOutboxEntry(config, entry) {
+  try {
+    const response = await fetch(`${config.baseUrl}${config.transactionsPath}`, {
+      method: 'POST',
+      headers: { ...config.headers, 'Idempotency-Key': entry.id },
+      body: JSON.stringify(entry.payload.logData),
+      mode: 'cors',
+      signal: AbortSignal.timeout(OUTBOX_REQUEST_TIMEOUT)
+    })
+    if (!response.ok) {
+      return { ok: false, status: response.status, message: `API responded with ${response.status}`, networkError: false }
+    }
+
+    const result = response.status === 204 ? null : await response.json().catch(() => null)
+    if (result && result.success === false) {
+      return { ok: false, status: 422, message: result.error || result.message || 'Rejected by the API', networkError: false }
+    }
+    return { ok: true }
+  } catch (error) {
+    return { ok: false, status: 0, message: error.message, networkError: true }
+  }
+}
+
+// Same rules as the page: 409 is a conflict, other 4xx are rejected, the rest back off
+async function handleOutboxFailure(db, entry, outcome) {
+  const attempts = entry.attempts + 1
+  const failed = { ...entry, attempts, lastError: outcome.message }
+  // 401 is retried: the page refreshes credentials and rewrites the replay config
+  const isRetryable = outcome.networkError || [401, 408, 429].includes(outcome.status) || outcome.status >= 500
+
+  if (outcome.status === 409) return moveToDeadLetter(db, failed, 'conflict')
+  if (!isRetryable) return moveToDeadLetter(db, failed, 'rejected')
+  if (attempts >= OUTBOX_MAX_ATTEMPTS) return moveToDeadLetter(db, failed, 'max_attempts')
+
+  const delay = Math.min(OUTBOX_RETRY_BASE_DELAY * 2 ** (attempts - 1), OUTBOX_RETRY_MAX_DELAY)
+  console.log(`[SW] Queued checkout ${entry.id} failed (attempt ${attempts}/${OUTBOX_MAX_ATTEMPTS}):`, outcome.message)
+  // The sync itself still succeeds; open pages retry the entry once it is due (scheduleNextAttempt)
+  return idbPut(db, OUTBOX_PENDING_STORE, { ...failed, nextAttemptAt: Date.now() + delay })
+}
+
+async function moveToDeadLetter(db, entry, reason, conflicts) {
+  const transaction = db.transaction([OUTBOX_PENDING_STORE, OUTBOX_DEAD_LETTER_STORE], 'readwrite')
+  transaction.objectStore(OUTBOX_PENDING_STORE).delete(entry.id)
+  transaction.objectStore(OUTBOX_DEAD_LETTER_STORE).put({
+    ...entry,
+    reason,
+    failedAt: Date.now(),
+    ...(conflicts && { conflicts })
+  })
+  await idbTransactionDone(transaction)
+  console.log(`[SW] Moved queued checkout ${entry.id} to dead letters (${reason})`)
+}
+
+// Tell open pages how the replay is going (handled by lib/offline-outbox.ts)
+async function postOutboxProgress(state, progress) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true })
+  clients.forEach((client) => {
+    client.postMessage({ type: 'OUTBOX_SYNC', state, ...progress })
+  })
+}
+
+function openOutboxDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(OUTBOX_PENDING_STORE)) db.createObjectStore(OUTBOX_PENDING_STORE, { keyPath: 'id' })
+      if (!db.objectStoreNames.contains(OUTBOX_DEAD_LETTER_STORE)) db.createObjectStore(OUTBOX_DEAD_LETTER_STORE, { keyPath: 'id' })
+      if (!db.objectStoreNames.contains(OUTBOX_META_STORE)) db.createObjectStore(OUTBOX_META_STORE, { keyPath: 'key' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbTransactionDone(transaction) {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function idbPut(db, storeName, value) {
+  const transaction = db.transaction(storeName, 'readwrite')
+  transaction.objectStore(storeName).put(value)
+  return idbTransactionDone(transaction)
+}
+
+function idbDelete(db, storeName, key) {
+  const transaction = db.transaction(storeName, 'readwrite')
+  transaction.objectStore(storeName).delete(key)
+  return idbTransactionDone(transaction)
+}
+
 // Get cache status for debugging
 async function getCacheStatus() {
   try {